@@ -1,9 +1,49 @@
-import {DeleteParams, GetParams, Item, KeyAttributes, KeyValue, ProjectionKeys, PutParams} from './types';
-import {BatchGetCommand, BatchGetCommandInput, BatchWriteCommand, BatchWriteCommandInput} from '@aws-sdk/lib-dynamodb';
+import {
+  ConsistencyLevel,
+  DeleteParams,
+  GetParams,
+  Item,
+  KeyAttributes,
+  KeyValue,
+  Projection,
+  ProjectionKeys,
+  PutParams
+} from './types';
+import {ConditionalCheckFailedException} from '@aws-sdk/client-dynamodb';
+import {
+  BatchGetCommand,
+  BatchGetCommandInput,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  PutCommand,
+  PutCommandInput,
+  UpdateCommand,
+  UpdateCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import {DynamoClient} from './DynamoClient';
 import {DynamoWrapper} from './DynamoWrapper';
 import {DynamoModel} from './DynamoModel';
-import {createDeleteRequest, createPutRequest, getReturnedConsumedCapacity} from './requests';
-import {getKeyValues, parseRequest} from './utils';
+import {
+  BatchFailedItem,
+  BatchFailedItemsError,
+  BatchUnprocessedItem,
+  BatchUnprocessedItemsError,
+  VersionConflictError
+} from './errors';
+import {resolveKey} from './compositeKeys';
+import {
+  createDeleteRequest,
+  createPutRequest,
+  createSoftDeleteRequest,
+  encodeKey,
+  getReadItem,
+  getReadProjection,
+  getReturnedConsumedCapacity
+} from './requests';
+import {chunk, delay, getKeyValues, groupBy, mapConcurrent, parseRequest, pick} from './utils';
+
+const MAX_GET_ITEMS = 100;
+const MAX_WRITE_ITEMS = 25;
 
 type BatchItem<T extends Item = Item> = {
   model: DynamoModel<T>;
@@ -12,7 +52,7 @@ type BatchItem<T extends Item = Item> = {
 
 type BatchCommand<T extends Item = Item> = {
   model: DynamoModel<T>;
-  command: 'put' | 'delete';
+  command: 'put' | 'delete' | 'softDelete';
   key: KeyValue<T, KeyAttributes<T>>
 };
 
@@ -21,124 +61,310 @@ type BatchResult<T> = {
   done: boolean;
 };
 
-async function* batchResultIterator<T>(execute: () => Promise<BatchResult<T>>): AsyncGenerator<T> {
-  let delay = 100;
+type BatchGetResult<T extends Item = Item> = {
+  model: DynamoModel<any>;
+  key: Item;
+  item: T | undefined;
+};
+
+type BatchGetItems<T extends Item, L extends unknown[]> =
+    L[number] extends infer E ? E extends {projection: Array<infer P>} ? Projection<T, P & ProjectionKeys<T>> : T : never;
+
+type BatchGetRequest = {
+  model: DynamoModel<any>;
+  key: Item;
+  encodedKey: Item;
+  projection?: string[];
+  consistency?: ConsistencyLevel;
+  includeExpired?: boolean;
+  includeDeleted?: boolean;
+};
+
+type BatchGetResponse = {
+  request: BatchGetRequest;
+  item: Item;
+};
+
+type BatchWriteRequest = {
+  model: DynamoModel<any>;
+  command: 'put' | 'delete' | 'softDelete';
+  key: Item;
+  // Soft deletes and puts of versioned items are executed as separate writes, since batch write requests cannot update
+  // items or have conditions
+  request: NonNullable<BatchWriteCommandInput['RequestItems']>[string][number] | {Update: UpdateCommandInput} | {Put: PutCommandInput};
+};
+
+/**
+ * Batch statement options
+ */
+export interface BatchOptions {
+  /**
+   * Max number of chunks executed concurrently. Statements are split into chunks of at most 100 gets or 25 writes.
+   * Default 1.
+   */
+  concurrency?: number;
+  /**
+   * Max number of attempts to execute statements which are returned as unprocessed by DynamoDB, after which a
+   * BatchUnprocessedItemsError is thrown. Default 10.
+   */
+  maxAttempts?: number;
+  /**
+   * Base delay in milliseconds between attempts, which is doubled for each attempt. Default 50.
+   */
+  retryDelay?: number;
+  /**
+   * Max delay in milliseconds between attempts. Default 5000.
+   */
+  maxRetryDelay?: number;
+}
 
-  while (true) {
-    const {items, done} = await execute();
+/**
+ * Create the request of a single table for a chunk of get statements. Projections are merged and always include the
+ * key attributes, so that items can be mapped back to their statements, and the attributes needed to exclude items.
+ */
+function createTableRequest(requests: BatchGetRequest[]): NonNullable<BatchGetCommandInput['RequestItems']>[string] {
+  const {model} = requests[0];
+  let attributes: Set<string> | undefined = new Set(model.params.keyAttributes);
 
-    for (const item of items) {
-      yield item;
+  for (const request of requests) {
+    const projection = getReadProjection(model, request);
+
+    if (!projection) {
+      attributes = undefined;
+      break;
     }
+    projection.forEach(attr => attributes!.add(attr));
+  }
 
-    if (done) {
-      return;
+  const names = attributes && [...attributes];
+
+  return {
+    Keys: requests.map(({encodedKey}) => encodedKey),
+    ProjectionExpression: names?.map((_, i) => `#p${i}`).join(', '),
+    ExpressionAttributeNames: names?.reduce((map, name, i) => ({...map, [`#p${i}`]: name}), {}),
+    ConsistentRead: requests.some(({consistency}) => consistency === 'strong'),
+  };
+}
+
+function getKeyId(model: DynamoModel<any>, key: Item): string {
+  return JSON.stringify([model.tableName, ...getKeyValues(key, model.params.keyAttributes)]);
+}
+
+abstract class DynamoBatchStatement<R, O> extends DynamoWrapper {
+  protected pending: R[] = [];
+
+  constructor(client: DynamoClient, name?: string, readonly options: BatchOptions = {}) {
+    super(client, name);
+  }
+
+  protected abstract readonly maxChunkSize: number;
+
+  /**
+   * Execute a single chunk of requests, returning the processed items, the unprocessed requests and the requests which
+   * failed their conditions
+   */
+  protected abstract executeChunk(requests: R[]): Promise<{items: O[]; unprocessed: R[]; failed?: BatchFailedItem[]}>;
+
+  protected abstract getUnprocessedItem(request: R): BatchUnprocessedItem;
+
+  /**
+   * Execute all pending requests in chunks, retrying unprocessed requests with exponential backoff until all requests
+   * are processed or max attempts are reached. Requests which failed their conditions are thrown as a
+   * BatchFailedItemsError once all other requests are processed.
+   */
+  protected async *run(): AsyncGenerator<O> {
+    const {concurrency = 1, maxAttempts = 10, retryDelay = 50, maxRetryDelay = 5000} = this.options;
+    const failed: BatchFailedItem[] = [];
+
+    for (let attempt = 1; this.pending.length > 0; attempt++) {
+      const results = await mapConcurrent(chunk(this.pending, this.maxChunkSize), concurrency, requests =>
+          this.executeChunk(requests));
+
+      this.pending = ([] as R[]).concat(...results.map(result => result.unprocessed));
+      results.forEach(result => failed.push(...result.failed ?? []));
+
+      for (const {items} of results) {
+        for (const item of items) {
+          yield item;
+        }
+      }
+
+      if (this.pending.length > 0) {
+        if (attempt >= maxAttempts) {
+          const unprocessed = this.pending.map(request => this.getUnprocessedItem(request));
+
+          this.pending = [];
+          throw new BatchUnprocessedItemsError(unprocessed, failed);
+        }
+        this.logger?.debug({attempt, unprocessed: this.pending.length}, 'Batch has unprocessed items');
+        await delay(Math.random() * Math.min(maxRetryDelay, retryDelay * 2 ** (attempt - 1)));
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new BatchFailedItemsError(failed);
     }
-    await new Promise(resolve => setTimeout(resolve, Math.random() * delay));
-    delay *= 2;
   }
 }
 
 export class DynamoBatchStatementProxy extends DynamoWrapper {
-  get<T extends Item, K extends KeyAttributes<T>, P extends ProjectionKeys<T>>(
-      model: DynamoModel<T, K>, ...paramsList: Array<GetParams<T, K, P>>
-  ): DynamoBatchGetStatement<T> {
-    return new DynamoBatchGetStatement<T>(this.client, this.name).get(model, ...paramsList);
+  constructor(client: DynamoClient, name?: string, readonly options: BatchOptions = {}) {
+    super(client, name);
+  }
+
+  get<T extends Item, K extends KeyAttributes<T>, L extends Array<GetParams<T, K, ProjectionKeys<T>>>>(
+      model: DynamoModel<T, K>, ...paramsList: L
+  ): DynamoBatchGetStatement<BatchGetItems<T, L>> {
+    return new DynamoBatchGetStatement<never>(this.client, this.name, this.options).get<T, K, L>(model, ...paramsList);
   }
 
   put<T extends Item, K extends KeyAttributes<T>, B extends Item>(
       model: DynamoModel<T, K, any, B>,
       ...paramsList: Array<Pick<PutParams<T, B>, 'item'>>
   ): DynamoBatchWriteStatement<T> {
-    return new DynamoBatchWriteStatement<T>(this.client, this.name).put(model, ...paramsList);
+    return new DynamoBatchWriteStatement<T>(this.client, this.name, this.options).put(model, ...paramsList);
   }
 
   delete<T extends Item, K extends KeyAttributes<T>>(
       model: DynamoModel<T, K>,
       ...paramsList: Array<Pick<DeleteParams<T, K>, 'key'>>
   ): DynamoBatchWriteStatement<T> {
-    return new DynamoBatchWriteStatement<T>(this.client, this.name).delete(model, ...paramsList);
+    return new DynamoBatchWriteStatement<T>(this.client, this.name, this.options).delete(model, ...paramsList);
   }
 }
 
-export class DynamoBatchGetStatement<T0 extends Item> extends DynamoWrapper {
-  private requestMap: NonNullable<BatchGetCommandInput['RequestItems']> = {};
-  private readonly modelMap = new Map<string, DynamoModel<any>>();
-
-  get<T extends Item, K extends KeyAttributes<T>, P extends ProjectionKeys<T>>(
-      model: DynamoModel<T, K>, ...paramsList: Array<GetParams<T, K, P>>
-  ): DynamoBatchGetStatement<T0 | T> {
-    for (const params of paramsList) {
-      let keys = this.requestMap[model.tableName]?.Keys;
-
-      if (!keys) {
-        this.requestMap[model.tableName] = {Keys: keys = []};
-      }
-      keys.push(params.key);
-      this.modelMap.set(model.tableName, model);
+export class DynamoBatchGetStatement<T0 extends Item> extends DynamoBatchStatement<BatchGetRequest, BatchGetResponse> {
+  protected readonly maxChunkSize = MAX_GET_ITEMS;
+
+  get<T extends Item, K extends KeyAttributes<T>, L extends Array<GetParams<T, K, ProjectionKeys<T>>>>(
+      model: DynamoModel<T, K>, ...paramsList: L
+  ): DynamoBatchGetStatement<T0 | BatchGetItems<T, L>> {
+    for (const {key, projection, consistency, includeExpired, includeDeleted} of paramsList) {
+      this.pending.push({
+        model,
+        key,
+        encodedKey: encodeKey(model, key),
+        projection: projection as string[] | undefined,
+        consistency,
+        includeExpired,
+        includeDeleted
+      });
     }
 
     return this as any;
   }
 
-  /**
-   * Execute the statements in this batch and return the retrieved items.
-   * Note that while done is false, some statements were not executed and this method should then be called again,
-   * preferably after utilizing exponential backoff.
-   */
-  async execute<T extends Item = T0>(): Promise<BatchResult<BatchItem<T>>> {
-    const {Responses: itemMap = {}, UnprocessedKeys: nextRequestMap} = await this.command(
+  protected async executeChunk(requests: BatchGetRequest[]) {
+    const requestMap: NonNullable<BatchGetCommandInput['RequestItems']> = {};
+    const requestsByKey = new Map<string, BatchGetRequest>();
+
+    for (const [tableName, tableRequests] of groupBy(requests, r => r.model.tableName)) {
+      requestMap[tableName] = createTableRequest(tableRequests);
+
+      for (const request of tableRequests) {
+        requestsByKey.set(getKeyId(request.model, request.encodedKey), request);
+      }
+    }
+
+    const {Responses: itemMap = {}, UnprocessedKeys: unprocessedMap = {}} = await this.command(
         new BatchGetCommand({
-          RequestItems: this.requestMap,
+          RequestItems: requestMap,
           ReturnConsumedCapacity: getReturnedConsumedCapacity(this)
         }));
-    const items: Array<BatchItem<any>> = [];
+    const items: BatchGetResponse[] = [];
 
     for (const [tableName, tableItems] of Object.entries(itemMap)) {
-      const model = this.modelMap.get(tableName)!;
+      const {model} = requests.find(r => r.model.tableName === tableName)!;
 
       for (const item of tableItems) {
-        items.push({model, item});
+        const request = requestsByKey.get(getKeyId(model, item))!;
+        const readItem = getReadItem(request.model, item, request);
+
+        if (readItem) {
+          items.push({request, item: request.model.convertItem(readItem, request.projection)});
+        }
       }
     }
 
-    this.requestMap = nextRequestMap ?? {};
+    const unprocessed: BatchGetRequest[] = [];
+
+    for (const [tableName, {Keys: keys = []}] of Object.entries(unprocessedMap)) {
+      const {model} = requests.find(r => r.model.tableName === tableName)!;
+
+      unprocessed.push(...keys.map(key => requestsByKey.get(getKeyId(model, key))!));
+    }
 
-    // Keys that don't exist end up as unprocessed items, so clients should only loop if !done && items.length > 0,
-    // otherwise there will be an infinite loop trying to fetch non-existent items.
+    return {items, unprocessed};
+  }
 
-    return {
-      items,
-      done: Object.keys(this.requestMap).length === 0
-    };
+  protected getUnprocessedItem({model, key}: BatchGetRequest) {
+    return {model, key};
   }
 
   /**
-   * Returns an iterator which executes the statements in this batch and returns the retrieved items until done,
-   * adding a random delay between batches.
+   * Execute the statements in this batch and return the retrieved items, converted using the converters of each model.
+   * Statements are executed in chunks, and any unprocessed statements are retried with exponential backoff until
+   * all statements are processed. If statements are still unprocessed after max attempts, a BatchUnprocessedItemsError
+   * is thrown.
+   * Items are returned in no particular order, and items which do not exist are not returned. Use executeOrdered() to
+   * get a result for each statement in the order they were added.
+   */
+  async execute<T extends Item = T0>(): Promise<BatchResult<BatchItem<T>>> {
+    const items: Array<BatchItem<T>> = [];
+
+    for await (const item of this.executeIterator<T>()) {
+      items.push(item);
+    }
+
+    return {items, done: true};
+  }
+
+  /**
+   * Execute the statements in this batch like execute(), but return a result for each statement in the order the
+   * statements were added, where the item is undefined if it does not exist.
+   */
+  async executeOrdered<T extends Item = T0>(): Promise<Array<BatchGetResult<T>>> {
+    const requests = this.pending;
+    const itemMap = new Map<BatchGetRequest, Item>();
+
+    for await (const {request, item} of this.run()) {
+      itemMap.set(request, item);
+    }
+
+    return requests.map(request => {
+      const {model, key} = request;
+
+      return {model, key, item: itemMap.get(request) as T | undefined};
+    });
+  }
+
+  /**
+   * Returns an iterator which executes the statements in this batch and returns the retrieved items as each chunk is
+   * processed, retrying unprocessed statements like execute().
    */
   async *executeIterator<T extends Item = T0>(): AsyncGenerator<BatchItem<T>> {
-    yield* batchResultIterator(() => this.execute<T>());
+    for await (const {request: {model}, item} of this.run()) {
+      yield {model, item: item as T};
+    }
   }
 }
 
-export class DynamoBatchWriteStatement<T0 extends Item> extends DynamoWrapper {
-  private requestMap: NonNullable<BatchWriteCommandInput['RequestItems']> = {};
-  private readonly modelMap = new Map<string, DynamoModel<any>>();
+export class DynamoBatchWriteStatement<T0 extends Item> extends DynamoBatchStatement<BatchWriteRequest, BatchCommand<any>> {
+  protected readonly maxChunkSize = MAX_WRITE_ITEMS;
 
   put<T extends Item, K extends KeyAttributes<T>, B extends Item>(
       model: DynamoModel<T, K, any, B>,
       ...paramsList: Array<Pick<PutParams<T, B>, 'item'>>
   ): DynamoBatchWriteStatement<T0 | T> {
     for (const params of paramsList) {
-      let requestItems = this.requestMap[model.tableName];
+      const request = createPutRequest(model, params);
+      const key = model.convertItem({...request.Item});
 
-      if (!requestItems) {
-        this.requestMap[model.tableName] = requestItems = [];
+      if (model.params.versionAttribute !== undefined) {
+        this.pending.push({model, command: 'put', key, request: {Put: request}});
+      } else {
+        this.pending.push({model, command: 'put', key, request: {PutRequest: {Item: request.Item}}});
       }
-
-      requestItems.push({PutRequest: createPutRequest(model, params)});
-      this.modelMap.set(model.tableName, model);
     }
 
     return this;
@@ -149,62 +375,135 @@ export class DynamoBatchWriteStatement<T0 extends Item> extends DynamoWrapper {
       ...paramsList: Array<Pick<DeleteParams<T, K>, 'key'>>
   ): DynamoBatchWriteStatement<T0 | T> {
     for (const params of paramsList) {
-      let requestItems = this.requestMap[model.tableName];
+      const key = resolveKey(model, params.key);
 
-      if (!requestItems) {
-        this.requestMap[model.tableName] = requestItems = [];
+      if (model.params.softDeleteAttribute) {
+        this.pending.push({model, command: 'softDelete', key, request: {Update: createSoftDeleteRequest(model, params)}});
+      } else {
+        this.pending.push({model, command: 'delete', key, request: {DeleteRequest: createDeleteRequest(model, params)}});
       }
-
-      requestItems.push({DeleteRequest: createDeleteRequest(model, params)});
-      this.modelMap.set(model.tableName, model);
     }
 
     return this;
   }
 
-  /**
-   * Execute the statements in this batch. Note that while done is false, some statements were not executed and this
-   * method should then be called again, preferably after utilizing exponential backoff.
-   */
-  async execute<T extends Item = T0>(): Promise<BatchResult<BatchCommand<T>>> {
-    const {UnprocessedItems: nextRequestMap} = await this.command(
-        new BatchWriteCommand({
-          RequestItems: this.requestMap,
-          ReturnConsumedCapacity: getReturnedConsumedCapacity(this)
-        }));
+  protected async executeChunk(requests: BatchWriteRequest[]) {
+    const requestMap: NonNullable<BatchWriteCommandInput['RequestItems']> = {};
+    const singleWrites: BatchWriteRequest[] = [];
+
+    for (const r of requests) {
+      const {model, request} = r;
+      let requestItems = requestMap[model.tableName];
+
+      if ('Update' in request || 'Put' in request) {
+        singleWrites.push(r);
+        continue;
+      }
+      if (!requestItems) {
+        requestMap[model.tableName] = requestItems = [];
+      }
+      requestItems.push(request);
+    }
+
+    const [output, errors] = await Promise.all([
+      singleWrites.length < requests.length ?
+          this.command(new BatchWriteCommand({
+            RequestItems: requestMap,
+            ReturnConsumedCapacity: getReturnedConsumedCapacity(this)
+          })) :
+          undefined,
+      this.executeSingleWrites(singleWrites)
+    ]);
+    const {UnprocessedItems: unprocessedMap = {}} = output ?? {};
+    const unprocessedKeys = new Set<string>();
+
+    for (const [tableName, tableRequests] of Object.entries(unprocessedMap)) {
+      const {model} = requests.find(r => r.model.tableName === tableName)!;
+
+      for (const request of tableRequests) {
+        unprocessedKeys.add(getKeyId(model, parseRequest(request).key));
+      }
+    }
 
     const items: Array<BatchCommand<any>> = [];
+    const unprocessed: BatchWriteRequest[] = [];
+    const failed: BatchFailedItem[] = [];
 
-    for (const [tableName, requests] of Object.entries(this.requestMap)) {
-      const model = this.modelMap.get(tableName)!;
+    for (const r of requests) {
+      const {model, command, key, request} = r;
+      const error = errors.get(r);
 
-      const nextKeyValues = nextRequestMap?.[tableName]?.map(request =>
-          JSON.stringify(getKeyValues(parseRequest(request).key, model.params.keyAttributes)));
+      if (error) {
+        failed.push({...this.getUnprocessedItem(r), error});
+        continue;
+      }
+      if (unprocessedKeys.has(getKeyId(model, parseRequest(request).key))) {
+        unprocessed.push(r);
+      } else {
+        // This request was processed
+        model.params.triggers.forEach(trigger => trigger(key, command, model));
+        items.push({model, command, key} as BatchCommand<any>);
+      }
+    }
 
-      for (const request of requests) {
-        const {key, command} = parseRequest(request);
-        const keyValue = JSON.stringify(getKeyValues(key, model.params.keyAttributes));
+    return {items, unprocessed, failed};
+  }
 
-        if (!nextKeyValues?.some(v => v === keyValue)) {
-          // This request was processed
-          model.params.triggers.forEach(trigger => trigger(key, command, model));
-          items.push({model, command, key} as BatchCommand<any>);
+  /**
+   * Execute the update requests of soft deletes and the put requests of versioned items concurrently, returning the
+   * errors of the requests which failed their conditions, since their items did not exist or were already
+   * soft-deleted, or since their versions conflicted
+   */
+  private async executeSingleWrites(
+      requests: BatchWriteRequest[]
+  ): Promise<Map<BatchWriteRequest, ConditionalCheckFailedException>> {
+    const errors = new Map<BatchWriteRequest, ConditionalCheckFailedException>();
+
+    await Promise.all(requests.map(async r => {
+      const {model, key, request} = r;
+
+      try {
+        if ('Put' in request) {
+          await this.command(new PutCommand(request.Put));
+        } else {
+          await this.command(new UpdateCommand((request as {Update: UpdateCommandInput}).Update));
+        }
+      } catch (err) {
+        if (!DynamoModel.isConditionalCheckFailed(err)) {
+          throw err;
         }
+        errors.set(r, 'Put' in request ? new VersionConflictError(err, model, pick(key, model.params.keyAttributes)) : err);
       }
-    }
+    }));
+
+    return errors;
+  }
 
-    this.requestMap = nextRequestMap ?? {};
+  protected getUnprocessedItem({model, command, key}: BatchWriteRequest) {
+    return {model, command, key: pick(key, model.params.keyAttributes)};
+  }
+
+  /**
+   * Execute the statements in this batch.
+   * Statements are executed in chunks, and any unprocessed statements are retried with exponential backoff until
+   * all statements are processed. If statements are still unprocessed after max attempts, a BatchUnprocessedItemsError
+   * is thrown.
+   */
+  async execute<T extends Item = T0>(): Promise<BatchResult<BatchCommand<T>>> {
+    const items: Array<BatchCommand<T>> = [];
+
+    for await (const item of this.run()) {
+      items.push(item);
+    }
 
-    return {
-      items,
-      done: Object.keys(this.requestMap).length === 0
-    };
+    return {items, done: true};
   }
 
   /**
-   * Returns an iterator which executes the statements in this batch until done, adding a random delay between batches.
+   * Returns an iterator which executes the statements in this batch and returns the executed commands as each chunk
+   * is processed, retrying unprocessed statements like execute().
    */
   async *executeIterator<T extends Item = T0>(): AsyncGenerator<BatchCommand<T>> {
-    yield* batchResultIterator(() => this.execute<T>());
+    yield* this.run();
   }
 }
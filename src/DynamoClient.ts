@@ -1,8 +1,11 @@
 import {DynamoDBClient} from '@aws-sdk/client-dynamodb';
 import {DynamoDBDocument, DynamoDBDocumentClient} from '@aws-sdk/lib-dynamodb';
 
-import {DynamoBatchStatementProxy} from './DynamoBatch';
-import {DynamoModelBuilder} from './DynamoModel';
+import {BatchOptions, DynamoBatchStatementProxy} from './DynamoBatch';
+import {DynamoModel, DynamoModelBuilder, VerifyTableOptions} from './DynamoModel';
+import {DynamoTableBuilder} from './DynamoTable';
+import {TableMismatchError} from './errors';
+import {TableVerification} from './tables';
 import {DynamoTransactionProxy} from './DynamoTransaction';
 import {Item} from './types';
 
@@ -31,6 +34,18 @@ export interface Options {
    * Whether to enable table metrics
    */
   enableTableMetrics?: boolean;
+
+  /**
+   * A secret used to sign page tokens returned by scans and queries. Signed tokens are bound to the model, index and
+   * key conditions of the scan or query which returned them, so they can't be forged or used with other scans or
+   * queries; an InvalidPageTokenError is thrown if they are. Without a secret, page tokens are plain base64 encoded keys.
+   */
+  pageTokenSecret?: string | Uint8Array;
+
+  /**
+   * Whether to also encrypt page tokens, hiding the key values they contain. Requires pageTokenSecret.
+   */
+  encryptPageTokens?: boolean;
 }
 
 /**
@@ -69,6 +84,15 @@ export class DynamoClient {
     return new DynamoModelBuilder<T>();
   }
 
+  /**
+   * Create a table shared by several entity types without supplying the runtime parameters.
+   * @param discriminator Name of the attribute identifying the entity type of items
+   * @returns a builder used to build a table.
+   */
+  static table<D extends string>(discriminator: D): DynamoTableBuilder<D> {
+    return new DynamoTableBuilder(discriminator);
+  }
+
   constructor(
       readonly dc: DynamoDBDocumentClient = defaultDc(),
       readonly options: Options = {}) {
@@ -84,6 +108,17 @@ export class DynamoClient {
     return new DynamoModelBuilder<T>(this, name, tableName);
   }
 
+  /**
+   * Create a table shared by several entity types
+   * @param name Name of the table model
+   * @param discriminator Name of the attribute identifying the entity type of items
+   * @param tableName Name of the table
+   * @returns a builder used to build a table.
+   */
+  table<D extends string>(name: string, discriminator: D, tableName: string = name): DynamoTableBuilder<D> {
+    return new DynamoTableBuilder(discriminator, this, name, tableName);
+  }
+
   /**
    * Create a transaction
    * @param [name] Optional name identifying the transaction for logging etc.
@@ -95,9 +130,53 @@ export class DynamoClient {
   /**
    * Create a batch statement
    * @param [name] Optional name identifying the statement for logging etc.
+   * @param [options] Options for chunking and retrying the statements
+   */
+  batch(name?: string, options?: BatchOptions): DynamoBatchStatementProxy {
+    return new DynamoBatchStatementProxy(this, name, options);
+  }
+
+  /**
+   * Create the tables of the given models, e.g. when testing against DynamoDB Local. Tables already existing are left
+   * as-is, and tables shared by several models are only created once, using the first of those models.
+   * @param models
+   * @returns the names of the created tables
    */
-  batch(name?: string): DynamoBatchStatementProxy {
-    return new DynamoBatchStatementProxy(this, name);
+  async createTables(...models: Array<DynamoModel<any>>): Promise<string[]> {
+    const tables = new Map<string, DynamoModel<any>>();
+    const created = [];
+
+    for (const model of models) {
+      if (!tables.has(model.tableName)) {
+        tables.set(model.tableName, model);
+      }
+    }
+
+    for (const model of tables.values()) {
+      if (await model.createTable()) {
+        created.push(model.tableName);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Verify that the tables of the given models match the models, e.g. at startup
+   * @param models
+   * @param [options.throwOnMismatch] Whether to throw a TableMismatchError listing all mismatching tables if any
+   * table does not match its model
+   * @returns the verification result of each model
+   */
+  async verifyTables(models: Array<DynamoModel<any>>, options: VerifyTableOptions = {}): Promise<TableVerification[]> {
+    const verifications = await Promise.all(models.map(model => model.verifyTable()));
+    const mismatches = verifications.filter(verification => !verification.valid);
+
+    if (options.throwOnMismatch && mismatches.length) {
+      throw new TableMismatchError(mismatches);
+    }
+
+    return verifications;
   }
 
   /**
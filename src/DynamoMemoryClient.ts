@@ -0,0 +1,1060 @@
+import {
+  CancellationReason,
+  ConditionalCheckFailedException,
+  ConsumedCapacity,
+  CreateTableCommand,
+  CreateTableCommandInput,
+  CreateTableCommandOutput,
+  DeleteTableCommand,
+  DeleteTableCommandInput,
+  DeleteTableCommandOutput,
+  DescribeTableCommand,
+  DescribeTableCommandInput,
+  DescribeTableCommandOutput,
+  DescribeTimeToLiveCommand,
+  DescribeTimeToLiveCommandInput,
+  DescribeTimeToLiveCommandOutput,
+  DynamoDBClient,
+  DynamoDBServiceException,
+  KeySchemaElement,
+  ResourceInUseException,
+  ResourceNotFoundException,
+  TableDescription,
+  TimeToLiveSpecification,
+  TransactionCanceledException,
+  UpdateTimeToLiveCommand,
+  UpdateTimeToLiveCommandInput,
+  UpdateTimeToLiveCommandOutput,
+} from '@aws-sdk/client-dynamodb';
+import {
+  BatchGetCommand,
+  BatchGetCommandInput,
+  BatchGetCommandOutput,
+  BatchWriteCommand,
+  BatchWriteCommandInput,
+  BatchWriteCommandOutput,
+  DeleteCommand,
+  DeleteCommandInput,
+  DeleteCommandOutput,
+  DynamoDBDocumentClient,
+  GetCommand,
+  GetCommandInput,
+  GetCommandOutput,
+  PutCommand,
+  PutCommandInput,
+  PutCommandOutput,
+  QueryCommand,
+  QueryCommandInput,
+  QueryCommandOutput,
+  ScanCommand,
+  ScanCommandInput,
+  ScanCommandOutput,
+  TransactGetCommand,
+  TransactGetCommandInput,
+  TransactGetCommandOutput,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
+  TransactWriteCommandOutput,
+  TranslateConfig,
+  UpdateCommand,
+  UpdateCommandInput,
+  UpdateCommandOutput,
+} from '@aws-sdk/lib-dynamodb';
+import {marshall, unmarshall} from '@aws-sdk/util-dynamodb';
+
+import {DynamoModel} from './DynamoModel';
+import {
+  applyProjection,
+  applyUpdate,
+  cloneValue,
+  compareValues,
+  ConditionNode,
+  evaluateCondition,
+  ExpressionAttributes,
+  ExpressionContext,
+  ExpressionError,
+  getAttributeType,
+  getConditionAttributes,
+  getUpdateAttributes,
+  parseCondition,
+  parseProjection,
+  parseUpdate,
+  Path,
+} from './expressions';
+import {getItemSize, getValueSize, MAX_ITEM_SIZE} from './itemSize';
+import {getCreateTableInput} from './tables';
+import {Item} from './types';
+import {pick} from './utils';
+
+const MAX_PAGE_SIZE = 1024 * 1024;
+const MAX_BATCH_GET_ITEMS = 100;
+const MAX_BATCH_WRITE_ITEMS = 25;
+const MAX_TRANSACTION_ITEMS = 100;
+
+/**
+ * The definition of a table in a DynamoMemoryClient
+ */
+export interface MemoryTableDefinition {
+  /**
+   * The name of the table
+   */
+  tableName: string;
+  /**
+   * One or two attribute names identifying the HASH and RANGE keys of the table
+   */
+  keyAttributes: string[];
+  /**
+   * Index definitions, as a dictionary of index names to one or two attribute names identifying the HASH and RANGE
+   * keys of the index
+   */
+  indices?: Record<string, string[]>;
+}
+
+/**
+ * DynamoMemoryClient options
+ */
+export interface MemoryClientOptions {
+  /**
+   * Options for translating items to and from DynamoDB attribute values, the same as given to DynamoDBDocument.from().
+   * Items are translated back and forth when written and read, to get the same behaviour as a real document client,
+   * e.g. for unsupported or undefined values.
+   */
+  translateConfig?: TranslateConfig;
+  /**
+   * Max number of statements processed by each BatchGet or BatchWrite request. Any remaining statements are returned
+   * as UnprocessedKeys or UnprocessedItems, to simulate throttling. Default unlimited.
+   */
+  maxBatchItemsProcessed?: number;
+}
+
+type ReadRequest = {
+  TableName?: string;
+  Key?: Item;
+  ProjectionExpression?: string;
+  ConsistentRead?: boolean;
+} & ExpressionAttributes;
+
+type CapacityType = 'read' | 'write';
+
+function createError<E extends DynamoDBServiceException>(
+    ErrorClass: new (opts: any) => E,
+    message: string,
+    props: Record<string, unknown> = {}
+): E {
+  return new ErrorClass({$metadata: {}, message, ...props});
+}
+
+function validationError(message: string): DynamoDBServiceException {
+  return new DynamoDBServiceException({name: 'ValidationException', $fault: 'client', $metadata: {}, message});
+}
+
+function validate(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw validationError(message);
+  }
+}
+
+function serializeKeyValue(value: unknown): string {
+  return value instanceof Uint8Array ? `B:${Buffer.from(value).toString('base64')}` : `${getAttributeType(value)}:${value}`;
+}
+
+function compareKeyValues(a: unknown, b: unknown): number {
+  return compareValues(a, b) ?? serializeKeyValue(a).localeCompare(serializeKeyValue(b));
+}
+
+function hashString(s: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < s.length; i++) {
+    hash = Math.imul(hash ^ s.charCodeAt(i), 0x01000193) >>> 0;
+  }
+
+  return hash;
+}
+
+function getKeyAttributes(keySchema: KeySchemaElement[] = []): string[] {
+  return [...keySchema].sort((a, b) => a.KeyType === 'HASH' ? -1 : b.KeyType === 'HASH' ? 1 : 0)
+      .map(element => element.AttributeName!);
+}
+
+/**
+ * Get the input of a CreateTable command for a table definition. As the definition has no attribute types, all key
+ * attributes are assumed to be strings.
+ */
+function getDefinitionCreateTableInput({tableName, keyAttributes, indices = {}}: MemoryTableDefinition): CreateTableCommandInput {
+  const getKeySchema = ([hashKey, rangeKey]: string[]): KeySchemaElement[] => [
+    {AttributeName: hashKey, KeyType: 'HASH'},
+    ...rangeKey ? [{AttributeName: rangeKey, KeyType: 'RANGE' as const}] : []
+  ];
+  const attributes = new Set([...keyAttributes, ...Object.values(indices).reduce((attrs, index) => [...attrs, ...index], [])]);
+  const globalIndices = Object.entries(indices).map(([indexName, indexAttributes]) => ({
+    IndexName: indexName,
+    KeySchema: getKeySchema(indexAttributes),
+    Projection: {ProjectionType: 'ALL'}
+  }));
+
+  return {
+    TableName: tableName,
+    AttributeDefinitions: [...attributes].map(attr => ({AttributeName: attr, AttributeType: 'S'})),
+    KeySchema: getKeySchema(keyAttributes),
+    GlobalSecondaryIndexes: globalIndices.length ? globalIndices : undefined,
+    BillingMode: 'PAY_PER_REQUEST'
+  };
+}
+
+class MemoryTable {
+  readonly items = new Map<string, Item>();
+  readonly definition: MemoryTableDefinition;
+  readonly creationDateTime = new Date();
+  timeToLive?: TimeToLiveSpecification;
+
+  constructor(readonly input: CreateTableCommandInput) {
+    const indices: Record<string, string[]> = {};
+
+    for (const index of [...input.GlobalSecondaryIndexes ?? [], ...input.LocalSecondaryIndexes ?? []]) {
+      indices[index.IndexName!] = getKeyAttributes(index.KeySchema);
+    }
+
+    this.definition = {
+      tableName: input.TableName!,
+      keyAttributes: getKeyAttributes(input.KeySchema),
+      indices
+    };
+  }
+
+  get description(): TableDescription {
+    const {
+      TableName, KeySchema, AttributeDefinitions, BillingMode = 'PROVISIONED', ProvisionedThroughput,
+      GlobalSecondaryIndexes, LocalSecondaryIndexes
+    } = this.input;
+    const throughput = {
+      ReadCapacityUnits: ProvisionedThroughput?.ReadCapacityUnits ?? 0,
+      WriteCapacityUnits: ProvisionedThroughput?.WriteCapacityUnits ?? 0,
+      NumberOfDecreasesToday: 0
+    };
+
+    return {
+      TableName,
+      TableStatus: 'ACTIVE',
+      CreationDateTime: this.creationDateTime,
+      KeySchema,
+      AttributeDefinitions,
+      BillingModeSummary: {BillingMode},
+      ProvisionedThroughput: throughput,
+      ItemCount: this.items.size,
+      TableSizeBytes: [...this.items.values()].reduce((size, item) => size + getItemSize(item), 0),
+      GlobalSecondaryIndexes: GlobalSecondaryIndexes?.map(({ProvisionedThroughput: indexThroughput, ...index}) => ({
+        ...index,
+        IndexStatus: 'ACTIVE',
+        ProvisionedThroughput: {
+          ...throughput,
+          ...indexThroughput
+        },
+        ItemCount: this.getSortedItems(index.IndexName).length
+      })),
+      LocalSecondaryIndexes: LocalSecondaryIndexes?.map(index => ({
+        ...index,
+        ItemCount: this.getSortedItems(index.IndexName).length
+      })),
+    };
+  }
+
+  get name(): string {
+    return this.definition.tableName;
+  }
+
+  get keyAttributes(): string[] {
+    return this.definition.keyAttributes;
+  }
+
+  isGlobalIndex(indexName?: string): boolean {
+    return !!indexName && this.getKeySchema(indexName)[0] !== this.keyAttributes[0];
+  }
+
+  getKeySchema(indexName?: string): string[] {
+    if (!indexName) {
+      return this.keyAttributes;
+    }
+    const index = this.definition.indices?.[indexName];
+    validate(index, `The table does not have the specified index: ${indexName}`);
+
+    return index;
+  }
+
+  /**
+   * Get the attributes identifying an item within an index, i.e., the index key attributes and the table key attributes
+   */
+  getIndexKeyAttributes(indexName?: string): string[] {
+    return [...new Set([...this.getKeySchema(indexName), ...this.keyAttributes])];
+  }
+
+  getKeyId(key: Item): string {
+    validate(Object.keys(key).length === this.keyAttributes.length &&
+        this.keyAttributes.every(attr => ['S', 'N', 'B'].includes(getAttributeType(key[attr])!)),
+        'The provided key element does not match the schema');
+
+    return JSON.stringify(this.keyAttributes.map(attr => serializeKeyValue(key[attr])));
+  }
+
+  getKey(item: Item, indexName?: string): Item {
+    return pick(item, this.getIndexKeyAttributes(indexName));
+  }
+
+  validateItem(item: Item): void {
+    for (const attr of this.keyAttributes) {
+      validate(item[attr] !== undefined, `One or more parameter values were invalid: Missing the key ${attr} in the item`);
+    }
+
+    const indexAttributes = Object.values(this.definition.indices ?? {}).reduce((attrs, index) => [...attrs, ...index], []);
+
+    for (const attr of [...this.keyAttributes, ...indexAttributes]) {
+      const value = item[attr];
+
+      if (value !== undefined) {
+        validate(['S', 'N', 'B'].includes(getAttributeType(value)!),
+            `One or more parameter values were invalid: Type mismatch for key ${attr}`);
+        validate(getValueSize(value) > 0 || getAttributeType(value) === 'N',
+            `One or more parameter values are not valid. The AttributeValue for a key attribute cannot contain an empty value. Key: ${attr}`);
+      }
+    }
+
+    validate(getItemSize(item) <= MAX_ITEM_SIZE, 'Item size has exceeded the maximum allowed size');
+  }
+
+  get(key: Item): Item | undefined {
+    return this.items.get(this.getKeyId(key));
+  }
+
+  put(item: Item): void {
+    this.validateItem(item);
+    this.items.set(this.getKeyId(this.getKey(item)), item);
+  }
+
+  delete(key: Item): void {
+    this.items.delete(this.getKeyId(key));
+  }
+
+  compareItems(a: Item, b: Item, indexName?: string): number {
+    for (const attr of this.getIndexKeyAttributes(indexName)) {
+      const result = compareKeyValues(a[attr], b[attr]);
+
+      if (result !== 0) {
+        return result;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Get all items of the table or an index, in key order. Items missing any index key attribute are not part of the
+   * index, and items of an index only contain the attributes projected into the index.
+   */
+  getSortedItems(indexName?: string): Item[] {
+    const keyAttributes = this.getKeySchema(indexName);
+    const projection = this.getIndexProjection(indexName);
+
+    return [...this.items.values()]
+        .filter(item => keyAttributes.every(attr => item[attr] !== undefined))
+        .map(item => projection ? pick(item, projection) : item)
+        .sort((a, b) => this.compareItems(a, b, indexName));
+  }
+
+  /**
+   * Get the attributes projected into an index, or undefined if all attributes are projected
+   */
+  private getIndexProjection(indexName?: string): string[] | undefined {
+    const index = [...this.input.GlobalSecondaryIndexes ?? [], ...this.input.LocalSecondaryIndexes ?? []]
+        .find(({IndexName}) => IndexName === indexName);
+    const {ProjectionType: type = 'ALL', NonKeyAttributes: nonKeyAttributes = []} = index?.Projection ?? {};
+
+    return type === 'ALL' ? undefined : [...this.getIndexKeyAttributes(indexName), ...type === 'INCLUDE' ? nonKeyAttributes : []];
+  }
+}
+
+/**
+ * An in-memory DynamoDB document client, useful for testing models offline.
+ * Supports the commands used by DynamoModel, DynamoBatch and DynamoTransaction with the same semantics as DynamoDB,
+ * i.e., it evaluates condition, filter, key condition, update and projection expressions, honors table keys and
+ * indices and throws the same errors.
+ *
+ * Usage:
+ * const dc = new DynamoMemoryClient();
+ * const client = new DynamoClient(dc);
+ * const persons = new PersonModel({client, name: 'persons'});
+ *
+ * dc.createTable(persons);
+ */
+export class DynamoMemoryClient extends DynamoDBDocumentClient {
+  private readonly tables = new Map<string, MemoryTable>();
+
+  constructor(readonly memoryOptions: MemoryClientOptions = {}) {
+    super(new DynamoDBClient({region: 'local'}), memoryOptions.translateConfig);
+  }
+
+  /**
+   * Create tables for the given models or table definitions. Tables that already exist are left as-is, so several
+   * models may share the same table.
+   * @param definitions Models or table definitions
+   */
+  createTable(...definitions: Array<DynamoModel<any> | MemoryTableDefinition>): this {
+    for (const d of definitions) {
+      const input = 'params' in d ? getCreateTableInput(d) : getDefinitionCreateTableInput(d);
+
+      if (!this.tables.has(input.TableName!)) {
+        this.tables.set(input.TableName!, new MemoryTable(input));
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Delete a table and all its items
+   * @param tableName
+   */
+  deleteTable(tableName: string): void {
+    this.tables.delete(tableName);
+  }
+
+  /**
+   * Get all items currently stored in a table
+   * @param tableName
+   */
+  getItems(tableName: string): Item[] {
+    return this.getTable(tableName).getSortedItems().map(cloneValue);
+  }
+
+  /**
+   * Remove all items from all tables
+   */
+  clear(): void {
+    this.tables.forEach(table => table.items.clear());
+  }
+
+  send(command: any): Promise<any> {
+    return new Promise(resolve => resolve(this.execute(command)));
+  }
+
+  private execute(command: any): unknown {
+    try {
+      if (command instanceof GetCommand) {
+        return this.getItem(command.input);
+      } else if (command instanceof PutCommand) {
+        return this.putItem(command.input);
+      } else if (command instanceof UpdateCommand) {
+        return this.updateItem(command.input);
+      } else if (command instanceof DeleteCommand) {
+        return this.deleteItem(command.input);
+      } else if (command instanceof QueryCommand) {
+        return this.query(command.input);
+      } else if (command instanceof ScanCommand) {
+        return this.scan(command.input);
+      } else if (command instanceof BatchGetCommand) {
+        return this.batchGet(command.input);
+      } else if (command instanceof BatchWriteCommand) {
+        return this.batchWrite(command.input);
+      } else if (command instanceof TransactGetCommand) {
+        return this.transactGet(command.input);
+      } else if (command instanceof TransactWriteCommand) {
+        return this.transactWrite(command.input);
+      } else if (command instanceof CreateTableCommand) {
+        return this.createTableCommand(command.input);
+      } else if (command instanceof DescribeTableCommand) {
+        return this.describeTable(command.input);
+      } else if (command instanceof DeleteTableCommand) {
+        return this.deleteTableCommand(command.input);
+      } else if (command instanceof UpdateTimeToLiveCommand) {
+        return this.updateTimeToLive(command.input);
+      } else if (command instanceof DescribeTimeToLiveCommand) {
+        return this.describeTimeToLive(command.input);
+      }
+    } catch (err) {
+      if (err instanceof ExpressionError) {
+        throw validationError(err.message);
+      }
+      throw err;
+    }
+
+    throw new Error(`Unsupported command ${command?.constructor.name}`);
+  }
+
+  private getTable(tableName: string | undefined): MemoryTable {
+    const table = tableName !== undefined && this.tables.get(tableName);
+
+    if (!table) {
+      throw createError(ResourceNotFoundException, 'Requested resource not found');
+    }
+
+    return table;
+  }
+
+  private translate<V extends Record<string, any> | undefined>(value: V): V {
+    const {marshallOptions, unmarshallOptions} = this.memoryOptions.translateConfig ?? {};
+
+    return value && unmarshall(marshall(value, marshallOptions), unmarshallOptions) as V;
+  }
+
+  private createContext(input: ExpressionAttributes): ExpressionContext {
+    return new ExpressionContext({
+      ExpressionAttributeNames: input.ExpressionAttributeNames,
+      ExpressionAttributeValues: this.translate(input.ExpressionAttributeValues)
+    });
+  }
+
+  private parseConditionExpression(expression: string | undefined, context: ExpressionContext) {
+    return expression !== undefined ? parseCondition(expression, context) : undefined;
+  }
+
+  private parseProjectionExpression(expression: string | undefined, context: ExpressionContext) {
+    return expression !== undefined ? parseProjection(expression, context) : undefined;
+  }
+
+  private consumedCapacity(
+      type: CapacityType,
+      returnConsumedCapacity: string | undefined,
+      units: Record<string, number>
+  ): ConsumedCapacity[] | undefined {
+    if (returnConsumedCapacity && returnConsumedCapacity !== 'NONE') {
+      return Object.entries(units).map(([tableName, cu]) => ({
+        TableName: tableName,
+        CapacityUnits: cu,
+        [type === 'read' ? 'ReadCapacityUnits' : 'WriteCapacityUnits']: cu
+      }));
+    }
+  }
+
+  private readUnits(size: number, consistent?: boolean): number {
+    return Math.max(1, Math.ceil(size / 4096)) * (consistent ? 1 : 0.5);
+  }
+
+  private writeUnits(...items: Array<Item | undefined>): number {
+    return Math.max(1, ...items.map(item => item ? Math.ceil(getItemSize(item) / 1024) : 0));
+  }
+
+  private read(table: MemoryTable, request: ReadRequest, projection?: Path[]): Item | undefined {
+    const item = table.get(this.translate(request.Key ?? {}));
+
+    return item && (projection ? applyProjection(projection, item) : cloneValue(item));
+  }
+
+  private checkCondition(condition: ConditionNode | undefined, item: Item | undefined): boolean {
+    return !condition || evaluateCondition(condition, item ?? {});
+  }
+
+  private checkKeyUpdate(table: MemoryTable, attributes: string[]): void {
+    for (const attr of attributes) {
+      validate(!table.keyAttributes.includes(attr),
+          `One or more parameter values were invalid: Cannot update attribute ${attr}. This attribute is part of the key`);
+    }
+  }
+
+  private getItem(input: GetCommandInput): GetCommandOutput {
+    const table = this.getTable(input.TableName);
+    const context = this.createContext(input);
+    const projection = this.parseProjectionExpression(input.ProjectionExpression, context);
+    context.verify();
+
+    const item = this.read(table, input, projection);
+
+    return {
+      $metadata: {},
+      Item: item,
+      ConsumedCapacity: this.consumedCapacity('read', input.ReturnConsumedCapacity, {
+        [table.name]: this.readUnits(item ? getItemSize(item) : 0, input.ConsistentRead)
+      })?.[0],
+    };
+  }
+
+  private putItem(input: PutCommandInput): PutCommandOutput {
+    const table = this.getTable(input.TableName);
+    const context = this.createContext(input);
+    const condition = this.parseConditionExpression(input.ConditionExpression, context);
+    context.verify();
+    validate(!input.ReturnValues || ['NONE', 'ALL_OLD'].includes(input.ReturnValues),
+        'ReturnValues can only be ALL_OLD or NONE');
+
+    const item = this.translate(input.Item ?? {});
+    table.validateItem(item);
+    const existing = table.get(table.getKey(item));
+
+    if (!this.checkCondition(condition, existing)) {
+      throw createError(ConditionalCheckFailedException, 'The conditional request failed');
+    }
+    table.put(item);
+
+    return {
+      $metadata: {},
+      Attributes: input.ReturnValues === 'ALL_OLD' && existing ? cloneValue(existing) : undefined,
+      ConsumedCapacity: this.consumedCapacity('write', input.ReturnConsumedCapacity, {
+        [table.name]: this.writeUnits(existing, item)
+      })?.[0],
+    };
+  }
+
+  private updateItem(input: UpdateCommandInput): UpdateCommandOutput {
+    const table = this.getTable(input.TableName);
+    const context = this.createContext(input);
+    const update = input.UpdateExpression !== undefined ? parseUpdate(input.UpdateExpression, context) : undefined;
+    const condition = this.parseConditionExpression(input.ConditionExpression, context);
+    context.verify();
+
+    const updatedAttributes = update ? getUpdateAttributes(update) : [];
+    this.checkKeyUpdate(table, updatedAttributes);
+
+    const key = this.translate(input.Key ?? {});
+    const existing = table.get(key);
+
+    if (!this.checkCondition(condition, existing)) {
+      throw createError(ConditionalCheckFailedException, 'The conditional request failed');
+    }
+
+    const item = update ? applyUpdate(update, existing ?? key) : cloneValue(existing ?? key);
+    table.put(item);
+
+    let attributes: Item | undefined;
+
+    switch (input.ReturnValues ?? 'NONE') {
+      case 'ALL_OLD':
+        attributes = existing && cloneValue(existing);
+        break;
+      case 'ALL_NEW':
+        attributes = cloneValue(item);
+        break;
+      case 'UPDATED_OLD':
+        attributes = existing && cloneValue(pick(existing, updatedAttributes));
+        break;
+      case 'UPDATED_NEW':
+        attributes = cloneValue(pick(item, updatedAttributes));
+        break;
+    }
+
+    return {
+      $metadata: {},
+      Attributes: attributes,
+      ConsumedCapacity: this.consumedCapacity('write', input.ReturnConsumedCapacity, {
+        [table.name]: this.writeUnits(existing, item)
+      })?.[0],
+    };
+  }
+
+  private deleteItem(input: DeleteCommandInput): DeleteCommandOutput {
+    const table = this.getTable(input.TableName);
+    const context = this.createContext(input);
+    const condition = this.parseConditionExpression(input.ConditionExpression, context);
+    context.verify();
+    validate(!input.ReturnValues || ['NONE', 'ALL_OLD'].includes(input.ReturnValues),
+        'ReturnValues can only be ALL_OLD or NONE');
+
+    const key = this.translate(input.Key ?? {});
+    const existing = table.get(key);
+
+    if (!this.checkCondition(condition, existing)) {
+      throw createError(ConditionalCheckFailedException, 'The conditional request failed');
+    }
+    table.delete(key);
+
+    return {
+      $metadata: {},
+      Attributes: input.ReturnValues === 'ALL_OLD' && existing ? cloneValue(existing) : undefined,
+      ConsumedCapacity: this.consumedCapacity('write', input.ReturnConsumedCapacity, {
+        [table.name]: this.writeUnits(existing)
+      })?.[0],
+    };
+  }
+
+  private validateKeyCondition(node: ConditionNode, keySchema: string[]): void {
+    const [hashKey, rangeKey] = keySchema;
+    const flatten = (n: ConditionNode): ConditionNode[] => n.type === 'and' ?
+        [...flatten(n.operands[0]), ...flatten(n.operands[1])] :
+        [n];
+    const attributes = new Map<string, ConditionNode>();
+
+    for (const condition of flatten(node)) {
+      const valid = condition.type === 'between' ||
+          condition.type === 'function' && condition.name === 'begins_with' ||
+          condition.type === 'comparison' && condition.comparator !== '<>';
+      const [attr, ...rest] = getConditionAttributes(condition);
+
+      validate(valid && attr !== undefined && rest.length === 0, 'Invalid operator used in KeyConditionExpression');
+      validate(!attributes.has(attr), 'KeyConditionExpressions must only contain one condition per key');
+      attributes.set(attr, condition);
+    }
+
+    const hashCondition = attributes.get(hashKey);
+
+    validate(hashCondition, `Query condition missed key schema element: ${hashKey}`);
+    validate(hashCondition.type === 'comparison' && hashCondition.comparator === '=',
+        'Query key condition not supported');
+
+    for (const attr of attributes.keys()) {
+      validate(attr === hashKey || attr === rangeKey, `Query condition missed key schema element: ${rangeKey ?? hashKey}`);
+    }
+  }
+
+  private readPage(
+      table: MemoryTable,
+      items: Item[],
+      input: ScanCommandInput & Pick<QueryCommandInput, 'ScanIndexForward'>,
+      filter: ConditionNode | undefined,
+      projection: Path[] | undefined
+  ): QueryCommandOutput {
+    const {IndexName: indexName, ExclusiveStartKey, Limit: limit, Select: select, ConsistentRead: consistent} = input;
+    const forward = input.ScanIndexForward !== false;
+
+    validate(!consistent || !table.isGlobalIndex(indexName), 'Consistent reads are not supported on global secondary indexes');
+    validate(limit === undefined || limit > 0, 'Limit must be greater than or equal to 1');
+    validate(!projection || !select || select === 'SPECIFIC_ATTRIBUTES',
+        `Cannot specify the ProjectionExpression when choosing to get ${select}`);
+
+    if (!forward) {
+      items.reverse();
+    }
+
+    if (ExclusiveStartKey) {
+      const startKey = this.translate(ExclusiveStartKey);
+
+      validate(table.getIndexKeyAttributes(indexName).every(attr => startKey[attr] !== undefined),
+          'The provided starting key is invalid');
+      items = items.filter(item => {
+        const result = table.compareItems(item, startKey, indexName);
+
+        return forward ? result > 0 : result < 0;
+      });
+    }
+
+    const result: Item[] = [];
+    let size = 0;
+    let count = 0;
+
+    for (const item of items) {
+      if (count === limit || size >= MAX_PAGE_SIZE) {
+        break;
+      }
+      count++;
+      size += getItemSize(item);
+
+      if (this.checkCondition(filter, item)) {
+        result.push(projection ? applyProjection(projection, item) : cloneValue(item));
+      }
+    }
+
+    const lastItem = count < items.length ? items[count - 1] : undefined;
+
+    return {
+      $metadata: {},
+      Items: select === 'COUNT' ? undefined : result,
+      Count: result.length,
+      ScannedCount: count,
+      LastEvaluatedKey: lastItem && table.getKey(lastItem, indexName),
+      ConsumedCapacity: this.consumedCapacity('read', input.ReturnConsumedCapacity, {
+        [table.name]: this.readUnits(size, consistent)
+      })?.[0],
+    };
+  }
+
+  private query(input: QueryCommandInput): QueryCommandOutput {
+    const table = this.getTable(input.TableName);
+    const keySchema = table.getKeySchema(input.IndexName);
+    const context = this.createContext(input);
+
+    validate(input.KeyConditionExpression, 'Either the KeyConditions or KeyConditionExpression parameter must be specified in the request.');
+    const keyCondition = parseCondition(input.KeyConditionExpression, context);
+    const filter = this.parseConditionExpression(input.FilterExpression, context);
+    const projection = this.parseProjectionExpression(input.ProjectionExpression, context);
+    context.verify();
+
+    this.validateKeyCondition(keyCondition, keySchema);
+
+    for (const attr of filter ? getConditionAttributes(filter) : []) {
+      validate(!keySchema.includes(attr),
+          `Filter Expression can only contain non-primary key attributes: Primary key attribute: ${attr}`);
+    }
+
+    const items = table.getSortedItems(input.IndexName).filter(item => evaluateCondition(keyCondition, item));
+
+    return this.readPage(table, items, input, filter, projection);
+  }
+
+  private scan(input: ScanCommandInput): ScanCommandOutput {
+    const table = this.getTable(input.TableName);
+    const [hashKey] = table.getKeySchema(input.IndexName);
+    const context = this.createContext(input);
+    const filter = this.parseConditionExpression(input.FilterExpression, context);
+    const projection = this.parseProjectionExpression(input.ProjectionExpression, context);
+    context.verify();
+
+    const {Segment: segment, TotalSegments: totalSegments} = input;
+    let items = table.getSortedItems(input.IndexName);
+
+    if (segment !== undefined || totalSegments !== undefined) {
+      validate(segment !== undefined && totalSegments !== undefined,
+          'The TotalSegments parameter is required but was not present in the request when Segment parameter is present');
+      validate(totalSegments > 0 && segment >= 0 && segment < totalSegments,
+          'The Segment parameter must be less than the TotalSegments parameter');
+      items = items.filter(item => hashString(serializeKeyValue(item[hashKey])) % totalSegments === segment);
+    }
+
+    return this.readPage(table, items, input, filter, projection);
+  }
+
+  private batchGet(input: BatchGetCommandInput): BatchGetCommandOutput {
+    const requests = Object.entries(input.RequestItems ?? {});
+    const count = requests.reduce((n, [, request]) => n + (request.Keys?.length ?? 0), 0);
+
+    validate(count > 0, 'The list of item keys cannot be empty');
+    validate(count <= MAX_BATCH_GET_ITEMS, 'Too many items requested for the BatchGetItem call');
+
+    const responses: Record<string, Item[]> = {};
+    const unprocessedKeys: NonNullable<BatchGetCommandOutput['UnprocessedKeys']> = {};
+    const units: Record<string, number> = {};
+    let processed = 0;
+
+    for (const [tableName, request] of requests) {
+      const table = this.getTable(tableName);
+      const context = this.createContext(request);
+      const projection = this.parseProjectionExpression(request.ProjectionExpression, context);
+      context.verify();
+
+      const keyIds = request.Keys?.map(key => table.getKeyId(this.translate(key))) ?? [];
+      validate(new Set(keyIds).size === keyIds.length, 'Provided list of item keys contains duplicates');
+
+      const items: Item[] = [];
+      responses[tableName] = items;
+
+      for (const key of request.Keys ?? []) {
+        if (processed++ >= (this.memoryOptions.maxBatchItemsProcessed ?? Infinity)) {
+          (unprocessedKeys[tableName] = unprocessedKeys[tableName] ?? {...request, Keys: []}).Keys!.push(key);
+          continue;
+        }
+        const item = this.read(table, {...request, Key: key}, projection);
+
+        units[tableName] = (units[tableName] ?? 0) + this.readUnits(item ? getItemSize(item) : 0, request.ConsistentRead);
+
+        if (item) {
+          items.push(item);
+        }
+      }
+    }
+
+    return {
+      $metadata: {},
+      Responses: responses,
+      UnprocessedKeys: unprocessedKeys,
+      ConsumedCapacity: this.consumedCapacity('read', input.ReturnConsumedCapacity, units),
+    };
+  }
+
+  private batchWrite(input: BatchWriteCommandInput): BatchWriteCommandOutput {
+    const requests = Object.entries(input.RequestItems ?? {});
+    const count = requests.reduce((n, [, tableRequests]) => n + tableRequests.length, 0);
+
+    validate(count > 0, 'The batch write request list cannot be empty');
+    validate(count <= MAX_BATCH_WRITE_ITEMS, 'Too many items requested for the BatchWriteItem call');
+
+    const writes: Array<() => void> = [];
+    const unprocessedItems: NonNullable<BatchWriteCommandOutput['UnprocessedItems']> = {};
+    const units: Record<string, number> = {};
+    let processed = 0;
+
+    for (const [tableName, tableRequests] of requests) {
+      const table = this.getTable(tableName);
+      const keyIds = new Set<string>();
+
+      for (const request of tableRequests) {
+        const {PutRequest: put, DeleteRequest: del} = request;
+        validate(!put !== !del, 'Supplied AttributeValue has more than one datatypes set, must contain exactly one of the supported datatypes');
+
+        const item = put ? this.translate(put.Item ?? {}) : undefined;
+
+        if (item) {
+          table.validateItem(item);
+        }
+        const key = item ? table.getKey(item) : this.translate(del?.Key ?? {});
+        const keyId = table.getKeyId(key);
+
+        validate(!keyIds.has(keyId), 'Provided list of item keys contains duplicates');
+        keyIds.add(keyId);
+
+        if (processed++ >= (this.memoryOptions.maxBatchItemsProcessed ?? Infinity)) {
+          (unprocessedItems[tableName] = unprocessedItems[tableName] ?? []).push(request);
+          continue;
+        }
+        units[tableName] = (units[tableName] ?? 0) + this.writeUnits(table.get(key), item);
+        writes.push(() => item ? table.put(item) : table.delete(key));
+      }
+    }
+
+    writes.forEach(write => write());
+
+    return {
+      $metadata: {},
+      UnprocessedItems: unprocessedItems,
+      ConsumedCapacity: this.consumedCapacity('write', input.ReturnConsumedCapacity, units),
+    };
+  }
+
+  private transactGet(input: TransactGetCommandInput): TransactGetCommandOutput {
+    const transactItems = input.TransactItems ?? [];
+    validate(transactItems.length > 0 && transactItems.length <= MAX_TRANSACTION_ITEMS,
+        `Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS}`);
+
+    const units: Record<string, number> = {};
+    const responses = transactItems.map(({Get: get}) => {
+      validate(get, 'Get must be specified in each TransactItem');
+      const table = this.getTable(get.TableName);
+      const context = this.createContext(get);
+      const projection = this.parseProjectionExpression(get.ProjectionExpression, context);
+      context.verify();
+
+      const item = this.read(table, get, projection);
+      units[table.name] = (units[table.name] ?? 0) + 2 * this.readUnits(item ? getItemSize(item) : 0, true);
+
+      return {Item: item};
+    });
+
+    return {
+      $metadata: {},
+      Responses: responses,
+      ConsumedCapacity: this.consumedCapacity('read', input.ReturnConsumedCapacity, units),
+    };
+  }
+
+  private transactWrite(input: TransactWriteCommandInput): TransactWriteCommandOutput {
+    const transactItems = input.TransactItems ?? [];
+    validate(transactItems.length > 0 && transactItems.length <= MAX_TRANSACTION_ITEMS,
+        `Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS}`);
+
+    const keyIds = new Set<string>();
+    const units: Record<string, number> = {};
+    const operations = transactItems.map(transactItem => {
+      const {Put: put, Update: update, Delete: del, ConditionCheck: conditionCheck} = transactItem;
+      const request = put ?? update ?? del ?? conditionCheck;
+
+      validate(request && [put, update, del, conditionCheck].filter(r => r).length === 1,
+          'TransactItems can only contain one of Check, Put, Update or Delete');
+
+      const table = this.getTable(request.TableName);
+      const context = this.createContext(request);
+      const updateNode = update?.UpdateExpression !== undefined ? parseUpdate(update.UpdateExpression, context) : undefined;
+      const condition = this.parseConditionExpression(request.ConditionExpression, context);
+      context.verify();
+      validate(!conditionCheck || condition, 'The ConditionExpression must be specified for a ConditionCheck');
+
+      const item = put ? this.translate(put.Item ?? {}) : undefined;
+
+      if (item) {
+        table.validateItem(item);
+      }
+      const key = item ? table.getKey(item) : this.translate((update ?? del ?? conditionCheck)?.Key ?? {});
+      const keyId = table.getKeyId(key);
+
+      validate(!keyIds.has(`${table.name}/${keyId}`),
+          'Transaction request cannot include multiple operations on one item');
+      keyIds.add(`${table.name}/${keyId}`);
+      if (updateNode) {
+        this.checkKeyUpdate(table, getUpdateAttributes(updateNode));
+      }
+
+      const existing = table.get(key);
+      const newItem = item ?? (update ? (updateNode ? applyUpdate(updateNode, existing ?? key) : existing ?? key) : undefined);
+
+      if (update) {
+        table.validateItem(newItem!);
+      }
+      units[table.name] = (units[table.name] ?? 0) + 2 * this.writeUnits(existing, newItem);
+
+      return {
+        passed: this.checkCondition(condition, existing),
+        returnOld: request.ReturnValuesOnConditionCheckFailure === 'ALL_OLD',
+        existing,
+        write: () => {
+          if (newItem) {
+            table.put(newItem);
+          } else if (del) {
+            table.delete(key);
+          }
+        }
+      };
+    });
+
+    if (operations.some(op => !op.passed)) {
+      const reasons: CancellationReason[] = operations.map(({passed, returnOld, existing}) => passed ?
+          {Code: 'None'} :
+          {
+            Code: 'ConditionalCheckFailed',
+            Message: 'The conditional request failed',
+            Item: returnOld && existing ? marshall(existing, this.memoryOptions.translateConfig?.marshallOptions) : undefined
+          });
+
+      throw createError(TransactionCanceledException,
+          `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons.map(r => r.Code).join(', ')}]`,
+          {CancellationReasons: reasons});
+    }
+
+    operations.forEach(op => op.write());
+
+    return {
+      $metadata: {},
+      ConsumedCapacity: this.consumedCapacity('write', input.ReturnConsumedCapacity, units),
+    };
+  }
+
+  private createTableCommand(input: CreateTableCommandInput): CreateTableCommandOutput {
+    const {TableName: tableName, AttributeDefinitions: definitions = [], BillingMode, ProvisionedThroughput} = input;
+    const keySchemas = [input.KeySchema, ...[...input.GlobalSecondaryIndexes ?? [], ...input.LocalSecondaryIndexes ?? []]
+        .map(index => index.KeySchema)];
+    const keyAttributes = new Set(keySchemas.reduce<string[]>((attrs, schema) => [...attrs, ...getKeyAttributes(schema)], []));
+
+    validate(tableName, 'The parameter TableName is required');
+    validate(input.KeySchema?.length, 'The parameter KeySchema is required');
+    validate(definitions.length === keyAttributes.size && definitions.every(d => keyAttributes.has(d.AttributeName!)),
+        'One or more parameter values were invalid: Some AttributeDefinitions are not used or not defined by the key schema');
+    validate(BillingMode === 'PAY_PER_REQUEST' || ProvisionedThroughput,
+        'One or more parameter values were invalid: ProvisionedThroughput must be specified when BillingMode is PROVISIONED');
+
+    if (this.tables.has(tableName)) {
+      throw createError(ResourceInUseException, `Table already exists: ${tableName}`);
+    }
+
+    const table = new MemoryTable(input);
+    this.tables.set(tableName, table);
+
+    return {$metadata: {}, TableDescription: table.description};
+  }
+
+  private describeTable(input: DescribeTableCommandInput): DescribeTableCommandOutput {
+    return {$metadata: {}, Table: this.getTable(input.TableName).description};
+  }
+
+  private deleteTableCommand(input: DeleteTableCommandInput): DeleteTableCommandOutput {
+    const table = this.getTable(input.TableName);
+    this.tables.delete(table.name);
+
+    return {$metadata: {}, TableDescription: {...table.description, TableStatus: 'DELETING'}};
+  }
+
+  private updateTimeToLive(input: UpdateTimeToLiveCommandInput): UpdateTimeToLiveCommandOutput {
+    const table = this.getTable(input.TableName);
+    const {TimeToLiveSpecification: specification} = input;
+
+    validate(specification?.AttributeName, 'The parameter TimeToLiveSpecification is required');
+    validate(specification.Enabled !== !!table.timeToLive?.Enabled, specification.Enabled ?
+        'TimeToLive is already enabled' : 'TimeToLive is already disabled');
+
+    table.timeToLive = specification;
+
+    return {$metadata: {}, TimeToLiveSpecification: specification};
+  }
+
+  private describeTimeToLive(input: DescribeTimeToLiveCommandInput): DescribeTimeToLiveCommandOutput {
+    const {timeToLive} = this.getTable(input.TableName);
+
+    return {
+      $metadata: {},
+      TimeToLiveDescription: {
+        TimeToLiveStatus: timeToLive?.Enabled ? 'ENABLED' : 'DISABLED',
+        AttributeName: timeToLive?.Enabled ? timeToLive.AttributeName : undefined
+      }
+    };
+  }
+}
@@ -1,41 +1,121 @@
-import {ConditionalCheckFailedException} from '@aws-sdk/client-dynamodb';
-import {DeleteCommand, GetCommand, PutCommand, QueryCommand, ScanCommand, UpdateCommand,} from '@aws-sdk/lib-dynamodb';
-import {Condition, ConditionAttributes, UpdateAttributes} from 'dynamodb-expressions';
+import {
+  ConditionalCheckFailedException,
+  CreateTableCommand,
+  CreateTableCommandInput,
+  DescribeTableCommand,
+  UpdateTimeToLiveCommand
+} from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  QueryCommandInput,
+  ScanCommand,
+  ScanCommandInput,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {Condition, ConditionAttributes, ConditionSet, UpdateAttributes} from 'dynamodb-expressions';
+import {AttributeCodec, Codecs, decodeItem} from './codecs';
+import {parseCompositeAttributes, resolveKey, resolveKeyConditions} from './compositeKeys';
+import {compressionCodec, CompressionOptions} from './compression';
 import {DynamoClient} from './DynamoClient';
 import {DynamoWrapper} from './DynamoWrapper';
+import {decryptItem, EncryptionOptions, getSignatureAttributes, KeyProvider, verifyItem} from './encryption';
+import {
+  BatchFailedItemsError,
+  BatchUnprocessedItemsError,
+  IndexSelectionError,
+  isDynamoError,
+  TableMismatchError,
+  VersionConflictError
+} from './errors';
+import {ItemStream} from './ItemStream';
+import {formatPageToken, getPageTokenScope} from './pageTokens';
+import {SchemaValidator} from './schema';
+import {ttlCodec} from './ttl';
 import {
   createDeleteRequest,
   createGetRequest,
   createPutRequest,
   createQueryRequest,
+  createRestoreRequest,
   createScanRequest,
+  createSoftDeleteRequest,
   createUpdateRequest,
+  getReadItem,
+  validateItem,
 } from './requests';
 import {
+  CloudFormationTableResource,
+  getCloudFormationResource,
+  getCreateTableInput,
+  getTerraformResource,
+  TableOptions,
+  TableVerification,
+  TerraformTableResource,
+  verifyTableDescription
+} from './tables';
+import {
+  BulkUpdateOptions,
+  BulkWriteFailure,
+  BulkWriteOptions,
+  BulkWriteParams,
+  BulkWriteResult,
+  CollectionGroup,
+  CollectionGroups,
+  CollectionParams,
+  CollectionResult,
+  CompositeKey,
+  CompositeSources,
+  CountParams,
+  CountResult,
   DeleteParams,
   Extend,
+  FindIndexName,
+  FindParams,
+  FindResult,
   FullProjection,
   GetParams,
   GetResult,
+  IndexDefinitionOptions,
+  IndexItemProjection,
+  IndexProjectionParam,
+  IndexProjectionSpec,
   Item,
   ItemConverter,
   ItemResult,
   Key,
+  KeyAttribute,
   KeyAttributes,
   KeyIndices,
   KeyValue,
   ModelParams,
+  ParallelScanParams,
+  ProjectedIndexKey,
   Projection,
   ProjectionKeys,
   PutParams,
   QueryParams,
   ReturnValue,
+  ScanCountParams,
   ScanParams,
   ScanResult,
+  SegmentPageTokens,
   Trigger,
+  TtlDuration,
   UpdateParams,
 } from './types';
-import {error, formatPageToken, StringKeyOf} from './utils';
+import {delay, error, mapConcurrent, pick, StringKeyOf} from './utils';
+
+const DEFAULT_MAX_PAGE_REQUESTS = 10;
+const TABLE_POLL_INTERVAL = 1000;
+const TABLE_MAX_POLLS = 120;
+const RANGE_KEY_OPERATORS = ['=', '<', '<=', '>', '>=', 'between', 'begins_with'];
+
+type PageParams<T extends Item, P extends ProjectionKeys<T>> =
+    Pick<ScanParams<T, P>, 'indexName' | 'projection' | 'pageToken' | 'pageSize' | 'maxPageRequests' | 'segment' | 'totalSegments'> &
+    {keyConditions?: ConditionSet<any>};
 
 export class ModelOptions {
   client?: DynamoClient;
@@ -45,10 +125,17 @@ export class ModelOptions {
 
 export interface AtomicActionParams<T extends Item, K extends KeyAttributes<T>, C extends keyof T> {
   key: KeyValue<T, K>;
-  conditionAttribute: C,
+  conditionAttribute?: C,
   maxAttempts?: number;
 }
 
+export interface VerifyTableOptions {
+  /**
+   * Whether to throw a TableMismatchError if the table does not match the model, default false
+   */
+  throwOnMismatch?: boolean;
+}
+
 export interface AtomicActionFuncParams<T extends Item, K extends KeyAttributes<T>> {
   key: KeyValue<T, K>,
   item?: T,
@@ -83,8 +170,23 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
     super(client);
   }
 
-  private convertItem<P extends ProjectionKeys<T2> = FullProjection, T2 extends T = T>(item: any, projection?: P[]): Projection<T2, P> {
-    const {converters} = this.params;
+  /**
+   * Convert an item read from the database using the converters of this model. If the model has encrypted attributes,
+   * the signature of the item is verified, throwing a SignatureError if it is invalid.
+   * @param item The raw item
+   * @param [projection] The attributes included in the item, if not the full item
+   */
+  convertItem<P extends ProjectionKeys<T2> = FullProjection, T2 extends T = T>(item: any, projection?: P[]): Projection<T2, P> {
+    const {converters, schema} = this.params;
+
+    if (item) {
+      const storedItem = {...item};
+
+      decryptItem(this, item);
+      verifyItem(this, storedItem, item, projection);
+      parseCompositeAttributes(this, item);
+      decodeItem(this, item);
+    }
 
     if (converters) {
       for (const converter of converters) {
@@ -92,25 +194,25 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
       }
     }
 
+    if (item && schema?.validateReads) {
+      validateItem(this, item, !!projection);
+    }
+
     return item as Projection<T2, P>;
   }
 
   private convertItems<P extends ProjectionKeys<T2> = FullProjection, T2 extends T = T>(items: any[], projection?: P[]): Array<Projection<T2, P>> {
-    const {converters} = this.params;
-
-    if (converters) {
-      for (const item of items) {
-        for (const converter of converters) {
-          converter<P, T2>(item, projection);
-        }
-      }
+    for (const item of items) {
+      this.convertItem<P, T2>(item, projection);
     }
 
     return items as Array<Projection<T2, P>>;
   }
 
   /**
-   * Get a single item
+   * Get a single item. If the model has a TTL attribute, undefined is returned for items whose TTL has passed, unless
+   * includeExpired is true. If the model has a soft delete attribute, undefined is returned for soft-deleted items,
+   * unless includeDeleted is true.
    * @param params
    */
   async get<P extends ProjectionKeys<T2> = FullProjection, T2 extends T = T>(
@@ -118,9 +220,10 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
   ): Promise<GetResult<T2, P>> {
     const {Item: item} = await this.command(
         new GetCommand(createGetRequest(this, params)));
+    const readItem = getReadItem(this, item, params);
 
-    if (item) {
-      return this.convertItem(item, params.projection);
+    if (readItem) {
+      return this.convertItem(readItem, params.projection);
     }
   }
 
@@ -128,62 +231,211 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
    * Perform a scan operation, i.e., a query without any key condition, and return a page of items.
    * @param params
    */
-  async scan<P extends ProjectionKeys<T2> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+  async scan<P extends IndexProjectionParam<T2, K, I, N> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
       params: ScanParams<T2, P, N> = {}
-  ): Promise<ScanResult<T2, P>> {
-    const {Items: items = [], LastEvaluatedKey: lastKey} = await this.command(
-        new ScanCommand(createScanRequest(this, params)));
-
-    return {
-      items: this.convertItems(items, params.projection),
-      nextPageToken: formatPageToken(lastKey),
-    };
+  ): Promise<ScanResult<T2, IndexItemProjection<T2, K, I, N, P>>> {
+    return this.readPage(params as ScanParams<T2, any>, pageParams =>
+        this.command(new ScanCommand(createScanRequest(this, pageParams))));
   }
 
   /**
-   * Perform a scan operation, i.e., a query without any key condition, and return an item iterator.
+   * Perform a scan operation, i.e., a query without any key condition, and return an item stream, which is an async
+   * iterator with combinators such as map(), filter() and take(). Pages are fetched as the items are consumed.
    * @param params
    */
-  async *scanIterator<P extends ProjectionKeys<T2> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+  scanIterator<P extends IndexProjectionParam<T2, K, I, N> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
       params: ScanParams<T2, P, N> = {},
-  ): AsyncGenerator<Projection<T2, P>> {
-    const p = {...params};
-    do {
-      const {items, nextPageToken} = await this.scan(p);
+  ): ItemStream<Projection<T2, IndexItemProjection<T2, K, I, N, P>>> {
+    return new ItemStream(this.iteratePages(params, p => this.scan(p)));
+  }
 
-      for (const item of items) {
-        yield item;
+  /**
+   * Perform a parallel scan, dividing the table into segments scanned concurrently, and return an item stream of the
+   * items of all segments. Items are returned as soon as their pages are received, so items of different segments are
+   * interleaved.
+   * @param params
+   * @param params.totalSegments Number of segments
+   * @param [params.concurrency] Max number of segments scanned concurrently, default totalSegments
+   * @param [params.pageTokens] Page tokens to resume each segment from
+   * @param [params.onProgress] Called with the page tokens of all segments as pages are consumed
+   */
+  parallelScanIterator<P extends IndexProjectionParam<T2, K, I, N> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+      params: ParallelScanParams<T2, P, N>
+  ): ItemStream<Projection<T2, IndexItemProjection<T2, K, I, N, P>>> {
+    return new ItemStream(this.iterateSegments(params));
+  }
+
+  private async *iterateSegments<T2 extends T>(
+      params: ParallelScanParams<T2, any, any>
+  ): AsyncGenerator<any, void, undefined> {
+    const {totalSegments, concurrency = totalSegments, pageTokens = [], onProgress, ...scanParams} = params;
+
+    if (pageTokens.length && pageTokens.length !== totalSegments) {
+      throw new Error(`Expected page tokens of ${totalSegments} segments, got ${pageTokens.length}`);
+    }
+    if (!(concurrency >= 1)) {
+      throw new Error(`Expected concurrency of at least 1, got ${concurrency}`);
+    }
+
+    const tokens: SegmentPageTokens = Array.from({length: totalSegments}, (_, segment) => pageTokens[segment]);
+    const pending = tokens.map((_, segment) => segment).filter(segment => tokens[segment] !== null);
+    const active = new Map<number, Promise<{segment: number; page: ScanResult<T2, any>}>>();
+
+    const scanSegment = async (segment: number) => ({
+      segment,
+      page: await this.scan<any, any, T2>({...scanParams, segment, totalSegments, pageToken: tokens[segment] ?? undefined})
+    });
+
+    try {
+      while (pending.length || active.size) {
+        while (active.size < concurrency && pending.length) {
+          const segment = pending.shift()!;
+          const promise = scanSegment(segment);
+
+          // Segments not raced when another segment fails or the stream is closed must not reject unhandled
+          promise.catch(() => undefined);
+          active.set(segment, promise);
+        }
+
+        const {segment, page} = await Promise.race(active.values());
+        active.delete(segment);
+
+        for (const item of page.items) {
+          yield item;
+        }
+
+        tokens[segment] = page.nextPageToken ?? null;
+        await onProgress?.([...tokens]);
+
+        if (page.nextPageToken) {
+          // Continue scanning the segment before starting any new segment
+          pending.unshift(segment);
+        }
       }
-      p.pageToken = nextPageToken;
-    } while (p.pageToken);
+    } finally {
+      // Wait for the scans still in progress, ignoring their results
+      await Promise.all([...active.values()].map(promise => promise.catch(() => undefined)));
+    }
   }
 
   /**
    * Perform a query operation with a key condition, and return a page of items.
    * @param params
    */
-  async query<P extends ProjectionKeys<T2> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+  async query<P extends IndexProjectionParam<T2, K, I, N> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
       params: QueryParams<T2, P, N, Key<T, N extends keyof I ? I[N] : K>>
-  ): Promise<ScanResult<T2, P>> {
-    const {Items: items = [], LastEvaluatedKey: lastKey} = await this.command(
-        new QueryCommand(createQueryRequest(this, params)));
-
-    return {
-      items: this.convertItems(items, params.projection),
-      nextPageToken: formatPageToken(lastKey),
-    };
+  ): Promise<ScanResult<T2, IndexItemProjection<T2, K, I, N, P>>> {
+    return this.readPage(params as QueryParams<T2, any, string, keyof T>, pageParams =>
+        this.command(new QueryCommand(createQueryRequest(this, pageParams))));
   }
 
   /**
-   * Perform a query operation with a key condition, and return an item iterator.
+   * Perform a query operation with a key condition, and return an item stream, which is an async iterator with
+   * combinators such as map(), filter() and take(). Pages are fetched as the items are consumed.
    * @param params
    */
-  async *queryIterator<P extends ProjectionKeys<T2> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+  queryIterator<P extends IndexProjectionParam<T2, K, I, N> = null, N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
       params: QueryParams<T2, P, N, Key<T, N extends keyof I ? I[N] : K>>
-  ): AsyncGenerator<Projection<T2, P>> {
+  ): ItemStream<Projection<T2, IndexItemProjection<T2, K, I, N, P>>> {
+    return new ItemStream(this.iteratePages(params, p => this.query(p)));
+  }
+
+  /**
+   * Perform a query operation on the table key or the index whose key matches the attributes of the key conditions,
+   * and return a page of items along with the name of the chosen index. The table key is preferred over any index,
+   * and an index with exactly the attributes of the key conditions over an index with an additional range key.
+   * An IndexSelectionError is thrown if no key matches, if several indices match equally, or if a key condition uses an
+   * operator which is not supported on its key attribute.
+   * @param params Query parameters, without index name
+   */
+  async find<A extends StringKeyOf<T2>, P extends IndexProjectionParam<T2, K, I, FindIndexName<T, K, I, A>> = null, T2 extends T = T>(
+      params: FindParams<T2, P, A>
+  ): Promise<FindResult<T2, IndexItemProjection<T2, K, I, FindIndexName<T, K, I, A>, P>, FindIndexName<T, K, I, A>>> {
+    const indexName = this.selectIndex(resolveKeyConditions(this, params.keyConditions as ConditionSet<T2>)) as FindIndexName<T, K, I, A>;
+    const result = await this.query<P, any, T2>({...params, indexName} as QueryParams<T2, P, any, any>);
+
+    return {...result, indexName};
+  }
+
+  /**
+   * Query an item collection, i.e., the items sharing a partition key, and group the items by prefixes of the range key
+   * or by values of a discriminator attribute. All pages of the query are read, unless every group has a limit and is
+   * filled. Items of a group are converted by the model of the group if given, otherwise by this model, and then by the
+   * converter of the group. Items not belonging to any group are converted by this model and returned as
+   * ungroupedItems. Items of all entity types of the table are read, also if this model has a discriminator.
+   *
+   * Usage:
+   * const {groups: {profile, orders}} = await model.collection({
+   *   keyConditions: {pk: ':USER#u1'},
+   *   groups: {
+   *     profile: {prefix: 'PROFILE#', type: as<User>(), limit: 1},
+   *     orders: {prefix: 'ORDER#', type: as<Order>()}
+   *   }
+   * });
+   * @param params
+   */
+  async collection<G extends CollectionGroups, N extends StringKeyOf<I> | undefined = undefined>(
+      params: CollectionParams<T, G, N, Key<T, N extends keyof I ? I[N] : K>>
+  ): Promise<CollectionResult<T, G>> {
+    const {groups, discriminator = this.params.discriminator?.attribute, ...queryParams} = params;
+    const [, rangeKey]: string[] = queryParams.indexName ? this.params.indices[queryParams.indexName] : this.getKeyAttributes();
+    const request = createQueryRequest(this, queryParams as QueryParams<T, null, string, keyof T>, true);
+    const entries = Object.entries<CollectionGroup>(groups);
+    const result = {groups: {}, ungroupedItems: []} as unknown as CollectionResult<T, G>;
+    const groupItems = result.groups as Record<string, Item[]>;
+
+    for (const [name, {prefix, value}] of entries) {
+      if (prefix !== undefined && !rangeKey) {
+        throw new Error(`Group ${name} of ${this.name} has a prefix, but the queried key has no range key`);
+      }
+      if (value !== undefined && !discriminator) {
+        throw new Error(`Group ${name} of ${this.name} has a discriminator value, but no discriminator attribute is given`);
+      }
+      groupItems[name] = [];
+    }
+
+    const isFilled = (name: string, limit?: number) => limit !== undefined && groupItems[name].length >= limit;
+    let startKey: Item | undefined;
+
+    do {
+      const {Items: items = [], LastEvaluatedKey: lastKey} = await this.command(new QueryCommand({...request, ExclusiveStartKey: startKey}));
+
+      for (const item of items) {
+        const group = entries.find(([, {prefix, value}]) =>
+            (prefix === undefined || String(item[rangeKey]).startsWith(prefix)) &&
+            (value === undefined || item[discriminator!] === value));
+
+        if (!group) {
+          result.ungroupedItems.push(this.convertItem(item));
+          continue;
+        }
+
+        const [name, {model, converter, limit}] = group;
+
+        if (!isFilled(name, limit)) {
+          const converted = model ? model.convertItem(item) : this.convertItem(item);
+
+          converter?.(converted);
+          groupItems[name].push(converted);
+        }
+      }
+      startKey = lastKey;
+    } while (startKey && !entries.every(([name, {limit}]) => isFilled(name, limit)));
+
+    return result;
+  }
+
+  /**
+   * Iterate through the items of all pages of a scan or query, fetching each page once the items of the previous page
+   * have been consumed
+   */
+  private async *iteratePages<S extends {pageToken?: string}, R>(
+      params: S,
+      readPage: (params: S) => Promise<{items: R[]; nextPageToken?: string}>
+  ): AsyncGenerator<R, void, undefined> {
     const p = {...params};
     do {
-      const {items, nextPageToken} = await this.query(p);
+      const {items, nextPageToken} = await readPage(p);
 
       for (const item of items) {
         yield item;
@@ -192,6 +444,30 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
     } while (p.pageToken);
   }
 
+  /**
+   * Count the items matching a query, paging through all matching items without returning them
+   * @param params
+   */
+  async count<N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+      params: CountParams<T2, N, Key<T, N extends keyof I ? I[N] : K>>
+  ): Promise<CountResult> {
+    const request: QueryCommandInput = {...createQueryRequest(this, params), Select: 'COUNT'};
+
+    return this.countItems(startKey => this.command(new QueryCommand({...request, ExclusiveStartKey: startKey})));
+  }
+
+  /**
+   * Count the items of a scan, paging through all scanned items without returning them
+   * @param params
+   */
+  async scanCount<N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+      params: ScanCountParams<T2, N> = {}
+  ): Promise<CountResult> {
+    const request: ScanCommandInput = {...createScanRequest<T, null, any, null, T2>(this, params), Select: 'COUNT'};
+
+    return this.countItems(startKey => this.command(new ScanCommand({...request, ExclusiveStartKey: startKey})));
+  }
+
   /**
    * Put (upsert) an item. If no item with the same key exists, a new item is created; otherwise the existing item is
    * replaced.
@@ -202,9 +478,11 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
   async put<T2 extends T = T>(
       params: PutParams<T2, B>
   ): Promise<ItemResult<T2>> {
-    await this.command(
-        new PutCommand(createPutRequest(this, params)));
-    const item = this.convertItem<null, T2>(params.item);
+    const request = createPutRequest(this, params);
+    const item = this.convertItem<null, T2>({...request.Item});
+
+    await this.versionedCommand(this.params.versionAttribute !== undefined, pick(item, this.params.keyAttributes), () =>
+        this.command(new PutCommand(request)));
 
     this.params.triggers.forEach(trigger => trigger(item, 'put', this));
 
@@ -214,29 +492,141 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
   async update<T2 extends T = T, R extends ReturnValue = 'all_new'>(
       params: UpdateParams<T2, K, B, R>
   ): Promise<ItemResult<T2, R>> {
-    const {Attributes: attributes} = await this.command(
-        new UpdateCommand(createUpdateRequest(this, params)));
+    const key = resolveKey(this, params.key) as KeyValue<T2, K>;
+    const {Attributes: attributes} = await this.versionedCommand(params.expectedVersion !== undefined, key, () =>
+        this.command(new UpdateCommand(createUpdateRequest(this, params))));
     const item: any = attributes && this.convertItem<null, T2>(attributes);
 
-    this.params.triggers.forEach(trigger => trigger(params.key, 'update', this));
+    this.params.triggers.forEach(trigger => trigger(key, 'update', this));
 
     return {item};
   }
 
   /**
-   * Delete an item
+   * Delete an item. If the model has a soft delete attribute, the item is soft-deleted instead, see
+   * DynamoModelBuilder.withSoftDelete().
    * @param params
    */
   async delete(
       params: DeleteParams<T, K>
   ): Promise<void> {
-    const {Attributes: attributes} = await this.command(
-        new DeleteCommand(createDeleteRequest(this, params)));
+    if (this.params.softDeleteAttribute) {
+      const {Attributes: attributes} = await this.versionedCommand(params.expectedVersion !== undefined, resolveKey(this, params.key), () =>
+          this.command(new UpdateCommand(createSoftDeleteRequest(this, params))));
+      const item = this.convertItem(attributes);
+
+      this.params.triggers.forEach(trigger => trigger(item, 'softDelete', this));
+    } else {
+      await this.purge(params);
+    }
+  }
+
+  /**
+   * Restore a soft-deleted item, removing its soft delete attribute. A conditional check failure is thrown if the item
+   * is not soft-deleted.
+   * @param params
+   */
+  async restore<T2 extends T = T>(
+      params: DeleteParams<T, K>
+  ): Promise<ItemResult<T2>> {
+    const {Attributes: attributes} = await this.versionedCommand(params.expectedVersion !== undefined, resolveKey(this, params.key), () =>
+        this.command(new UpdateCommand(createRestoreRequest(this, params))));
+    const item = this.convertItem<null, T2>(attributes);
+
+    this.params.triggers.forEach(trigger => trigger(item, 'restore', this));
+
+    return {item};
+  }
+
+  /**
+   * Delete an item permanently, also if the model has a soft delete attribute
+   * @param params
+   */
+  async purge(
+      params: DeleteParams<T, K>
+  ): Promise<void> {
+    const {Attributes: attributes} = await this.versionedCommand(params.expectedVersion !== undefined, resolveKey(this, params.key), () =>
+        this.command(new DeleteCommand(createDeleteRequest(this, params))));
     const item = this.convertItem(attributes);
 
     this.params.triggers.forEach(trigger => trigger(item, 'delete', this));
   }
 
+  /**
+   * Delete all items selected by a query or scan, using batch statements. Triggers are called for each deleted item.
+   * Items which are still unprocessed after the max number of attempts of the batch statements, or whose soft deletes
+   * failed since they were already deleted, are reported as failures.
+   * @param params Query or scan parameters selecting the items to delete
+   * @param [options] Batch options, and options for dry runs and progress reporting
+   */
+  async deleteWhere<N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+      params: BulkWriteParams<T2, N, Key<T, N extends keyof I ? I[N] : K>>,
+      options: BulkWriteOptions = {}
+  ): Promise<BulkWriteResult<T2>> {
+    const keyAttributes = this.getKeyAttributes();
+
+    return this.writeWhere<T2>({...params, projection: keyAttributes}, options, async (items, result) => {
+      try {
+        await this.client.batch(this.name, options).delete(this, ...items.map(item => ({key: item as KeyValue<T, K>}))).execute();
+        result.processed += items.length;
+      } catch (err) {
+        if (!(err instanceof BatchUnprocessedItemsError || err instanceof BatchFailedItemsError)) {
+          throw err;
+        }
+
+        const failures: Array<BulkWriteFailure<T2>> = [
+          ...err instanceof BatchUnprocessedItemsError ? err.unprocessedItems.map(({key}) => ({key: key as Partial<T2>, error: err})) : [],
+          ...err.failedItems.map(({key, error}) => ({key: key as Partial<T2>, error}))
+        ];
+
+        result.processed += items.length - failures.length;
+        result.failures.push(...failures);
+      }
+    });
+  }
+
+  /**
+   * Update all items selected by a query or scan, with at most options.concurrency updates running concurrently.
+   * Each update is conditioned on the item still existing, and if the model has a version attribute, on the item having
+   * the version it was read with. Triggers are called for each updated item, and failed updates are reported as
+   * failures.
+   * @param params Query or scan parameters selecting the items to update
+   * @param attributes Attributes to update, or a function returning the attributes to update given an item
+   * @param [options] Update conditions, concurrency, and options for dry runs and progress reporting
+   */
+  async updateWhere<N extends StringKeyOf<I> | undefined = undefined, T2 extends T = T>(
+      params: BulkWriteParams<T2, N, Key<T, N extends keyof I ? I[N] : K>>,
+      attributes: UpdateParams<T2, K, B>['attributes'] | ((item: T2) => UpdateParams<T2, K, B>['attributes']),
+      options: BulkUpdateOptions<T2> = {}
+  ): Promise<BulkWriteResult<T2>> {
+    const {concurrency = 1, conditions} = options;
+    const {versionAttribute} = this.params;
+    const keyAttributes = this.getKeyAttributes();
+    // Full items are only needed if the attributes depend on them
+    const projection = typeof attributes === 'function' ?
+        undefined :
+        [...keyAttributes, ...versionAttribute ? [versionAttribute] : []];
+    const existsConditions = {[keyAttributes[0]]: Condition.attributeExists()} as ConditionSet<T2>;
+
+    return this.writeWhere<T2>({...params, projection}, options, async (items, result) => {
+      await mapConcurrent(items, concurrency, async item => {
+        const key = pick(item, keyAttributes) as KeyValue<T2, K>;
+
+        try {
+          await this.update<T2>({
+            key,
+            attributes: typeof attributes === 'function' ? attributes(item as T2) : {...attributes},
+            conditions: conditions ? ConditionSet.and(existsConditions, conditions) : existsConditions,
+            expectedVersion: versionAttribute ? item[versionAttribute] : undefined
+          });
+          result.processed++;
+        } catch (err) {
+          result.failures.push({key: key as Partial<T2>, error: err});
+        }
+      });
+    });
+  }
+
   /**
    * Perform an atomic read-modify-write action which fetches an item and calls the supplied function with a key,
    * the existing item if it exists, and a set of conditions used to verify that the item hasn't been changed
@@ -249,9 +639,11 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
    * This enables putting or updating an item without overwriting data in case of concurrent modifications.
    * It relies on the conditionAttribute having a unique value after each update, such as a random version assigned
    * on each modification or a timestamp of sufficient accuracy being refreshed on each modification.
+   * If the model has a version attribute, it is used by default, and a VersionConflictError is thrown if the action
+   * still fails after max attempts.
    * @param params
    * @param params.key Key of the item to perform the action on
-   * @param params.conditionAttribute Name of attribute to condition the action on
+   * @param [params.conditionAttribute] Name of attribute to condition the action on, by default the version attribute
    * @param [params.maxAttempts] Max number of attempts
    * @param action Function called to perform the action on the item
    */
@@ -259,7 +651,12 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
       params: AtomicActionParams<T, K, C>,
       action: (params: AtomicActionFuncParams<T, K>) => Promise<R>
   ): Promise<R> {
-    const {key, conditionAttribute, maxAttempts = 5} = params;
+    const {
+      key,
+      conditionAttribute = this.params.versionAttribute ?? error('conditionAttribute not supplied'),
+      maxAttempts = 5
+    } = params;
+    let lastErr: any;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       const item = await this.get({key});
@@ -278,19 +675,315 @@ export class DynamoModel<T extends Item, K extends KeyAttributes<T> = any, I ext
         if (!DynamoModel.isConditionalCheckFailed(err)) {
           throw err;
         }
+        lastErr = err;
 
         await new Promise(resolve => setTimeout(resolve, Math.random() * 100));
       }
     }
 
+    if (lastErr && conditionAttribute === this.params.versionAttribute) {
+      throw lastErr instanceof VersionConflictError ? lastErr : new VersionConflictError(lastErr, this, key as Partial<T>);
+    }
+
     throw new Error('Atomic action failed after max attempts');
   }
+
+  /**
+   * Get the input of a CreateTable command creating the table of this model, including its indices
+   */
+  getCreateTableInput(): CreateTableCommandInput {
+    return getCreateTableInput(this);
+  }
+
+  /**
+   * Get a CloudFormation resource of type AWS::DynamoDB::Table defining the table of this model
+   */
+  getCloudFormationResource(): CloudFormationTableResource {
+    return getCloudFormationResource(this);
+  }
+
+  /**
+   * Get a Terraform JSON configuration with an aws_dynamodb_table resource defining the table of this model
+   * @param [resourceName] Name of the Terraform resource, by default the table name
+   */
+  getTerraformResource(resourceName?: string): TerraformTableResource {
+    return getTerraformResource(this, resourceName);
+  }
+
+  /**
+   * Create the table of this model including its indices, wait until it's active and enable TTL if the model has a
+   * TTL attribute. Nothing is done if the table already exists.
+   * @returns whether the table was created
+   */
+  async createTable(): Promise<boolean> {
+    try {
+      await this.command(new CreateTableCommand(getCreateTableInput(this)));
+    } catch (err) {
+      if (isDynamoError(err, 'ResourceInUse')) {
+        return false;
+      }
+      throw err;
+    }
+
+    for (let poll = 0; ; poll++) {
+      const {Table: table} = await this.command(new DescribeTableCommand({TableName: this.tableName}));
+
+      if (table?.TableStatus === 'ACTIVE') {
+        break;
+      } else if (poll >= TABLE_MAX_POLLS) {
+        throw new Error(`Table ${this.tableName} did not become active`);
+      }
+      await delay(TABLE_POLL_INTERVAL);
+    }
+
+    const {ttlAttribute} = this.params.table ?? {};
+
+    if (ttlAttribute) {
+      await this.command(new UpdateTimeToLiveCommand({
+        TableName: this.tableName,
+        TimeToLiveSpecification: {AttributeName: ttlAttribute, Enabled: true}
+      }));
+    }
+
+    return true;
+  }
+
+  /**
+   * Verify that the table of this model matches the model, by describing the table and comparing its key schema, key
+   * attribute types and indices to the keys and indices of the model.
+   * Indices of the table not declared by the model are ignored, since tables may be shared by several models.
+   * @param [options.throwOnMismatch] Whether to throw a TableMismatchError if the table does not match
+   * @returns the differences found
+   */
+  async verifyTable(options: VerifyTableOptions = {}): Promise<TableVerification> {
+    let table;
+
+    try {
+      ({Table: table} = await this.command(new DescribeTableCommand({TableName: this.tableName})));
+    } catch (err) {
+      if (!isDynamoError(err, 'ResourceNotFound')) {
+        throw err;
+      }
+    }
+
+    const verification = verifyTableDescription(this, table);
+
+    if (options.throwOnMismatch && !verification.valid) {
+      throw new TableMismatchError([verification]);
+    }
+
+    return verification;
+  }
+
+  /**
+   * Write all items selected by a query or scan, one page at a time, reporting progress after each page
+   */
+  private async writeWhere<T2 extends T>(
+      params: Pick<ScanParams<T2>, 'pageToken'> & {projection?: string[]},
+      options: BulkWriteOptions,
+      write: (items: Item[], result: BulkWriteResult<T2>) => Promise<void>
+  ): Promise<BulkWriteResult<T2>> {
+    const {dryRun, onProgress} = options;
+    const keyAttributes = this.getKeyAttributes();
+    const result: BulkWriteResult<T2> = {matched: 0, processed: 0, failed: 0, failures: [], keys: dryRun ? [] : undefined};
+    let pageToken = params.pageToken;
+
+    do {
+      const pageParams: any = {...params, pageToken};
+      const {items, nextPageToken} = 'keyConditions' in params ?
+          await this.query<any, any, T2>(pageParams) :
+          await this.scan<any, any, T2>(pageParams);
+
+      result.matched += items.length;
+
+      if (dryRun) {
+        result.keys!.push(...items.map(item => pick(item as Item, keyAttributes) as Partial<T2>));
+      } else if (items.length) {
+        await write(items, result);
+      }
+
+      pageToken = nextPageToken;
+      result.failed = result.failures.length;
+      result.nextPageToken = pageToken;
+
+      await onProgress?.({
+        matched: result.matched,
+        processed: result.processed,
+        failed: result.failed,
+        nextPageToken: pageToken
+      });
+    } while (pageToken);
+
+    return result;
+  }
+
+  private getKeyAttributes(): string[] {
+    return this.params.keyAttributes ?? error(`Model ${this.name} has no key`);
+  }
+
+  /**
+   * Read a page of a scan or query. If pageSize is given, requests are made until the page is filled with that many
+   * items, or there are no more items, or maxPageRequests requests have been made.
+   */
+  private async readPage<T2 extends T, S extends PageParams<T2, any>>(
+      params: S,
+      execute: (params: S) => Promise<{Items?: Item[]; LastEvaluatedKey?: Item}>
+  ): Promise<ScanResult<T2, any>> {
+    const {pageSize, maxPageRequests = DEFAULT_MAX_PAGE_REQUESTS, projection, indexName} = params;
+    const scope = getPageTokenScope(this, params);
+
+    if (pageSize === undefined) {
+      const {Items: items = [], LastEvaluatedKey: lastKey} = await execute(params);
+
+      return {
+        items: this.convertItems(items, projection ?? this.getIndexProjection(indexName)),
+        nextPageToken: formatPageToken(this, lastKey, scope),
+      };
+    }
+
+    if (pageSize < 1 || maxPageRequests < 1) {
+      throw new Error('pageSize and maxPageRequests must be at least 1');
+    }
+
+    // The key of the last returned item is needed to resume after it, so key attributes are added to any projection
+    // and removed afterwards, except for those needed to verify signatures, which are removed once verified
+    const keyAttributes = this.getIndexKeyAttributes(indexName);
+    const signatureAttributes = getSignatureAttributes(this, projection ?? []);
+    const extraAttributes = projection ? keyAttributes.filter(attr => !projection.includes(attr)) : [];
+    const pageParams: S = {...params, projection: projection && [...projection, ...extraAttributes]};
+    const items: Item[] = [];
+    let lastKey: Item | undefined;
+
+    for (let requests = 0; requests < maxPageRequests; requests++) {
+      const {Items: pageItems = [], LastEvaluatedKey: pageLastKey} = await execute(pageParams);
+      const remaining = pageSize - items.length;
+
+      if (pageItems.length >= remaining) {
+        items.push(...pageItems.slice(0, remaining));
+        // Resume right after the last returned item, unless it's the last item of all
+        lastKey = pageItems.length > remaining || pageLastKey ? pick(items[items.length - 1], keyAttributes) : undefined;
+        break;
+      }
+
+      items.push(...pageItems);
+      lastKey = pageLastKey;
+
+      if (!lastKey) {
+        break;
+      }
+      pageParams.pageToken = formatPageToken(this, lastKey, scope);
+    }
+
+    for (const item of items) {
+      extraAttributes.filter(attr => !signatureAttributes.includes(attr)).forEach(attr => delete item[attr]);
+    }
+
+    return {
+      items: this.convertItems(items, projection ?? this.getIndexProjection(indexName)),
+      nextPageToken: formatPageToken(this, lastKey, scope),
+    };
+  }
+
+  /**
+   * Get the attributes identifying an item within an index, i.e., the index key attributes and the table key attributes
+   */
+  private getIndexKeyAttributes(indexName?: string): string[] {
+    const {keyAttributes = [], indices} = this.params;
+    const indexAttributes: string[] = indexName ? indices[indexName] ?? error(`Model ${this.name} has no index ${indexName}`) : [];
+
+    return [...new Set([...indexAttributes, ...keyAttributes])];
+  }
+
+  /**
+   * Get the attributes of items read from an index, or undefined if all attributes are projected into the index
+   */
+  private getIndexProjection(indexName?: string): string[] | undefined {
+    const projection = indexName ? this.params.table?.indices?.[indexName]?.projection : undefined;
+
+    if (!projection || projection === 'all') {
+      return undefined;
+    }
+
+    return [...new Set([...this.getIndexKeyAttributes(indexName), ...projection === 'keys_only' ? [] : projection])];
+  }
+
+  /**
+   * Select the table key or index to query given key conditions, see find()
+   */
+  private selectIndex(keyConditions: Item): string | undefined {
+    const {keyAttributes, indices} = this.params;
+    const attributes = Object.keys(keyConditions);
+    const keys: Array<[string | undefined, string[]]> = [
+      ...keyAttributes ? [[undefined, keyAttributes] as [undefined, string[]]] : [],
+      ...Object.entries<string[]>(indices)
+    ];
+    const fail = (reason: string): never => {
+      const available = keys.map(([name, key]) => `${name ?? 'table key'} [${key.join(', ')}]`).join(', ');
+      throw new IndexSelectionError(this, attributes, `${reason}. Available keys: ${available || 'none'}`);
+    };
+    const matches = keys.filter(([, [hashKey, rangeKey]]) =>
+        attributes.includes(hashKey) && attributes.every(attr => attr === hashKey || attr === rangeKey));
+    const tableMatches = matches.filter(([name]) => name === undefined);
+    const exactMatches = matches.filter(([, key]) => key.length === attributes.length);
+    const [selected, ...others] = tableMatches.length ? tableMatches : exactMatches.length ? exactMatches : matches;
+
+    if (!selected) {
+      return fail('no key matches the attributes');
+    }
+    if (others.length) {
+      fail(`conditions are ambiguous, matching indices ${[selected, ...others].map(([name]) => name).join(', ')}`);
+    }
+
+    const [indexName, [hashKey, rangeKey]] = selected;
+    const getOperator = (value: unknown) => value instanceof Condition ? value.operator : '=';
+
+    if (getOperator(keyConditions[hashKey]) !== '=') {
+      fail(`operator ${getOperator(keyConditions[hashKey])} cannot be used on hash key ${hashKey}, only equality`);
+    }
+    if (rangeKey in keyConditions && !RANGE_KEY_OPERATORS.includes(getOperator(keyConditions[rangeKey]))) {
+      fail(`operator ${getOperator(keyConditions[rangeKey])} cannot be used on range key ${rangeKey}`);
+    }
+
+    return indexName;
+  }
+
+  private async countItems(
+      execute: (startKey?: Item) => Promise<{Count?: number; ScannedCount?: number; LastEvaluatedKey?: Item}>
+  ): Promise<CountResult> {
+    const result: CountResult = {count: 0, scannedCount: 0};
+    let startKey: Item | undefined;
+
+    do {
+      const {Count: count = 0, ScannedCount: scannedCount = 0, LastEvaluatedKey: lastKey} = await execute(startKey);
+
+      result.count += count;
+      result.scannedCount += scannedCount;
+      startKey = lastKey;
+    } while (startKey);
+
+    return result;
+  }
+
+  /**
+   * Execute a write command, converting conditional check failed errors to VersionConflictError if the command
+   * checked the version of the item.
+   */
+  private async versionedCommand<R>(versioned: boolean, key: Item, execute: () => Promise<R>): Promise<R> {
+    try {
+      return await execute();
+    } catch (err) {
+      if (versioned && DynamoModel.isConditionalCheckFailed(err)) {
+        throw new VersionConflictError(err, this, key as Partial<T>);
+      }
+      throw err;
+    }
+  }
 }
 
 /**
  * A model builder
  */
-export class DynamoModelBuilder<T extends Item, K extends KeyAttributes<T> = never, I extends KeyIndices<T> = {}, B extends Item = {}>  {
+export class DynamoModelBuilder<T extends Item, K extends KeyAttributes<T> = never, I extends KeyIndices<T> = {}, B extends Item = {}, C extends CompositeSources = {}>  {
   private readonly params: ModelParams<T, K, I, B> = {
     indices: {} as I,
     creators: [],
@@ -305,24 +998,38 @@ export class DynamoModelBuilder<T extends Item, K extends KeyAttributes<T> = nev
    * Define the key attribute(s) of this model
    * @param keyAttributes One or two attribute names identifying the HASH and RANGE keys of the table
    */
-  withKey<_K extends KeyAttributes<T>>(...keyAttributes: _K): DynamoModelBuilder<T, _K> {
-    const builder = this as unknown as DynamoModelBuilder<T, _K>;
-    builder.params.keyAttributes = keyAttributes;
+  withKey<_K extends KeyAttributes<T>>(...keyAttributes: _K): DynamoModelBuilder<T, CompositeKey<_K, C>, I, B, C> {
+    const builder = this as unknown as DynamoModelBuilder<T, CompositeKey<_K, C>, I, B, C>;
+    builder.params.keyAttributes = keyAttributes as CompositeKey<_K, C>;
 
     return builder;
   }
 
   /**
-   * Add an index to this model
+   * Add an index to this model, optionally with the attributes projected into it, which are also used in table
+   * definitions. Items read from an index which doesn't project all attributes are typed as only containing the
+   * projected attributes.
    * @param name Name of the index
-   * @param indexAttributes One or two attribute names identifying the HASH and RANGE keys of the index
+   * @param indexAttributes One or two attribute names identifying the HASH and RANGE keys of the index, optionally
+   * followed by index options
    */
-  withIndex<N extends string, IK extends KeyAttributes<T>>(name: N, ...indexAttributes: IK): DynamoModelBuilder<T, K, I & Record<N, IK>, B> {
-    const builder = this as unknown as DynamoModelBuilder<T, K, I & Record<N, IK>>;
+  withIndex<N extends string, IK extends KeyAttributes<T>>(name: N, ...indexAttributes: IK): DynamoModelBuilder<T, K, I & Record<N, IK>, B, C>;
+  withIndex<N extends string, H extends KeyAttribute<T>, S extends IndexProjectionSpec<T> = 'all'>(
+      name: N, hashKey: H, options: IndexDefinitionOptions<S>
+  ): DynamoModelBuilder<T, K, I & Record<N, ProjectedIndexKey<[H], S>>, B, C>;
+  withIndex<N extends string, H extends KeyAttribute<T>, R extends KeyAttribute<T>, S extends IndexProjectionSpec<T> = 'all'>(
+      name: N, hashKey: H, rangeKey: R, options: IndexDefinitionOptions<S>
+  ): DynamoModelBuilder<T, K, I & Record<N, ProjectedIndexKey<[H, R], S>>, B, C>;
+  withIndex(name: string, ...args: Array<string | IndexDefinitionOptions<IndexProjectionSpec<T>>>): DynamoModelBuilder<T, K, any, B, C> {
+    const options = typeof args[args.length - 1] === 'object' ? args.pop() as IndexDefinitionOptions<IndexProjectionSpec<T>> : {};
 
-    builder.params.indices[name] = indexAttributes as any;
+    this.params.indices[name as keyof I] = args as any;
 
-    return builder;
+    if (options.projection) {
+      this.withTableOptions({indices: {[name]: {projection: options.projection}}});
+    }
+
+    return this;
   }
 
   /**
@@ -332,7 +1039,7 @@ export class DynamoModelBuilder<T extends Item, K extends KeyAttributes<T> = nev
    */
   // Ideally this would be item: WrittenItem<T, _B> but then _B cannot be inferred from the return type
   withCreator<_B>(creator: (item: T) => _B) {
-    const builder = this as unknown as DynamoModelBuilder<Extend<T, _B>, K, I, Extend<B, _B>>;
+    const builder = this as unknown as DynamoModelBuilder<Extend<T, _B>, K, I, Extend<B, _B>, C>;
 
     builder.params.creators.push(creator as any);
 
@@ -380,6 +1087,251 @@ export class DynamoModelBuilder<T extends Item, K extends KeyAttributes<T> = nev
     });
   }
 
+  /**
+   * Validate items of this model using a schema, either built using the built-in Schema DSL or any validator
+   * implementing SchemaValidator, such as a zod schema.
+   * Put items and attributes set to plain values by updates are validated before being written, including within batch
+   * statements and transactions. If validateReads is true, read items are also validated after being converted.
+   * A SchemaValidationError listing the paths of the invalid attributes is thrown if validation fails.
+   *
+   * If the model was created without an item type, the type is inferred from the schema:
+   *
+   * class PersonModel extends DynamoClient.model()
+   *   .withSchema(Schema.object({id: Schema.string(), name: Schema.string()}))
+   *   .withKey('id')
+   *   .class() {}
+   * @param schema Schema to validate items with
+   * @param [options.validateReads] Whether to validate read items, default false
+   */
+  withSchema<S extends T>(
+      schema: SchemaValidator<S>,
+      options: {validateReads?: boolean} = {}
+  ): DynamoModelBuilder<string extends keyof T ? S : T, K, I, B, C> {
+    const builder = this as unknown as DynamoModelBuilder<string extends keyof T ? S : T, K, I, B, C>;
+
+    builder.params.schema = {
+      validator: schema,
+      partialValidator: schema.partial?.(),
+      validateReads: options.validateReads ?? false
+    };
+
+    return builder;
+  }
+
+  /**
+   * Use a codec to convert values of an attribute when writing and reading items, e.g. to store Date objects as
+   * ISO strings using Codecs.date(). Values are encoded in put items, keys, update attributes (also within update
+   * actions) and comparison conditions, and decoded in read items before any converters are called.
+   * @param attribute Name of the attribute
+   * @param codec Codec converting values to and from the values stored in the table
+   */
+  withCodec<A extends StringKeyOf<T>>(attribute: A, codec: AttributeCodec<NonNullable<T[A]>, any>) {
+    this.params.codecs = {...this.params.codecs, [attribute]: codec};
+
+    return this;
+  }
+
+  /**
+   * Compress attributes holding large values, such as JSON documents, to reduce item sizes. Values are stored as
+   * compressed JSON in binary attributes, and decompressed when reading items. Codecs of the attributes must be set
+   * before, and are applied before compressing values. Existing values which are not binary are read as-is, so
+   * attributes can be compressed after items have been written. Compressed attributes cannot be compared in
+   * conditions, and should not be encrypted.
+   * @param attributes Names of the attributes to compress
+   * @param [options]
+   */
+  withCompressedAttributes<A extends StringKeyOf<T>>(attributes: A[], options: CompressionOptions = {}) {
+    const {algorithm = 'gzip'} = options;
+
+    this.params.codecs = attributes.reduce((codecs, attribute) => ({
+      ...codecs,
+      [attribute]: compressionCodec(algorithm, codecs[attribute])
+    }), this.params.codecs ?? {});
+
+    return this;
+  }
+
+  /**
+   * Add a composite attribute, whose value is the values of the source attributes joined by a separator, optionally
+   * preceded by a constant prefix, e.g. 'ORDER#2024-01-01#42'. This is useful for keys of single-table designs.
+   * Composite attributes are set when putting items, and when updating any of their source attributes, in which case
+   * all source attributes must be either updated or part of the key. Keys containing composite attributes may be
+   * given as the source attributes instead, and query key conditions on source attributes are translated to
+   * conditions on the composite attribute, using begins_with unless all source attributes are given. Source attributes
+   * missing from read items, e.g. due to projections, are parsed from the composite attribute.
+   *
+   * Values are formatted as strings after being encoded by any codecs, and parsed source values are decoded by any
+   * codecs, but are otherwise strings.
+   * @param name Name of the composite attribute
+   * @param attributes Names of the source attributes, in order
+   * @param [separator] Separator between values, default '#'
+   * @param [options.prefix] A constant prefix, e.g. the entity type
+   */
+  withCompositeKey<A extends string, S extends KeyAttribute<T>>(
+      name: A,
+      attributes: S[],
+      separator = '#',
+      options: {prefix?: string} = {}
+  ) {
+    const builder = this as unknown as DynamoModelBuilder<
+        Extend<T, Record<A, string>>,
+        CompositeKey<K, C & Record<A, S>>,
+        I,
+        Extend<B, Record<A, string>>,
+        C & Record<A, S>
+    >;
+
+    builder.params.compositeKeys = {...this.params.compositeKeys, [name]: {attributes, separator, prefix: options.prefix}};
+
+    return builder;
+  }
+
+  /**
+   * Identify the items of this model within a table shared by several entity types by a discriminator attribute.
+   * The attribute is set to the given value when putting items, and scans and queries only return items having the
+   * value. See also DynamoTable, which routes items of a shared table to the models of their entity types.
+   * @param attribute Name of the discriminator attribute
+   * @param value The value identifying items of this model
+   */
+  withDiscriminator<A extends string, V extends string>(attribute: A, value: V) {
+    const builder = this as unknown as DynamoModelBuilder<Extend<T, Record<A, V>>, K, I, Extend<B, Record<A, V>>, C>;
+
+    builder.params.discriminator = {attribute, value};
+    builder.params.creators.push(() => ({[attribute]: value}) as any);
+
+    return builder;
+  }
+
+  /**
+   * Use an attribute as the TTL attribute of the table, which holds the time an item expires, after which DynamoDB
+   * deletes the item. The attribute is stored as epoch seconds and read as a Date. Put items and updates may set it to
+   * a Date or a duration from now, such as {days: 30}.
+   *
+   * Since DynamoDB may delete expired items up to 48 hours after they expire, reads exclude expired items: get()
+   * returns undefined, and scans and queries filter them out, unless includeExpired is true. See isTtlDeleteRecord()
+   * to distinguish TTL deletes in stream handlers.
+   * @param attribute Name of the TTL attribute
+   * @param [options.defaultSeconds] Number of seconds until put items without the attribute expire
+   */
+  withTtl<A extends string>(attribute: A, options: {defaultSeconds?: number} = {}) {
+    const builder = this as unknown as DynamoModelBuilder<T & Partial<Record<A, Date>>, K, I, B & Partial<Record<A, Date | TtlDuration>>, C>;
+    const {defaultSeconds} = options;
+
+    builder.params.ttlAttribute = attribute;
+    builder.params.codecs = {...this.params.codecs, [attribute]: ttlCodec()};
+
+    if (defaultSeconds !== undefined) {
+      builder.params.creators.push(item => (item[attribute] === undefined ? {[attribute]: {seconds: defaultSeconds}} : {}) as any);
+    }
+
+    return builder.withTableOptions({ttlAttribute: attribute});
+  }
+
+  /**
+   * Soft-delete items by setting an attribute to the time they were deleted, instead of deleting them:
+   * * delete() conditionally updates the item, which must exist and not already be soft-deleted, and calls triggers
+   *   with the command 'softDelete'. Batch and transaction deletes also soft-delete items.
+   * * get() returns undefined for soft-deleted items, and scans and queries filter them out, unless includeDeleted is
+   *   true
+   * * restore() removes the attribute, and purge() deletes an item permanently
+   *
+   * The attribute is stored as an ISO 8601 string and read as a Date.
+   * @param attribute Name of the soft delete attribute
+   */
+  withSoftDelete<A extends string>(attribute: A) {
+    const builder = this as unknown as DynamoModelBuilder<T & Partial<Record<A, Date>>, K, I, B, C>;
+
+    builder.params.softDeleteAttribute = attribute;
+    builder.params.codecs = {...this.params.codecs, [attribute]: Codecs.date()};
+
+    return builder;
+  }
+
+  /**
+   * Encrypt attributes on the client, before items are written. Values are encoded by their codecs and stored as JSON
+   * encrypted with AES-256-GCM, as binary attributes. Each value is encrypted using its own data key, which is stored
+   * encrypted using the current master key of the key provider. Values are authenticated together with the table,
+   * attribute name and key of their item, so reading a modified value, or a value copied from another attribute or item,
+   * throws a DecryptionError.
+   *
+   * Conditions cannot compare values of encrypted attributes, unless they are encrypted deterministically, see
+   * options.deterministic. Deterministic attributes are authenticated without the item key, and may be key attributes.
+   * They are encrypted using a pinned key rather than the current key, see options.keyId.
+   * Encrypted attributes should not be sources of composite attributes, which would contain their plain values.
+   * @param attributes Names of the attributes to encrypt
+   * @param keyProvider Provider of the master keys, such as an InMemoryKeyProvider in tests
+   * @param [options]
+   */
+  withEncryptedAttributes<A extends StringKeyOf<T>>(attributes: A[], keyProvider: KeyProvider, options: EncryptionOptions = {}) {
+    const {deterministic = false} = options;
+    const keyId = deterministic ? options.keyId ?? keyProvider.getCurrentKey().id : undefined;
+
+    if (keyId !== undefined && !keyProvider.getKey(keyId)) {
+      throw new Error(`Unknown key ${keyId} of deterministic encrypted attributes ${attributes.join(', ')}`);
+    }
+
+    this.params.encryptedAttributes = attributes.reduce((encryptedAttributes, attribute) => ({
+      ...encryptedAttributes,
+      [attribute]: {keyProvider, deterministic, keyId}
+    }), this.params.encryptedAttributes ?? {});
+
+    return deterministic ?
+        this.withTableOptions({attributeTypes: attributes.reduce((types, attribute) => ({...types, [attribute]: 'B'}), {})}) :
+        this;
+  }
+
+  /**
+   * Read items of a model with encrypted attributes whose attributes are not signed, and whose encrypted attributes may
+   * hold plain values, such as items written before attributes were encrypted. Signed attributes are still verified.
+   * Items are encrypted and signed once they are put again, e.g. by reading all items using scanIterator() and putting
+   * them, after which this option should be removed.
+   */
+  withUnsignedItems() {
+    this.params.allowUnsignedItems = true;
+
+    return this;
+  }
+
+  /**
+   * Use an attribute for optimistic locking. The attribute holds a version number which is incremented by each put and
+   * update of an item, and which is checked when writing items, also within transactions:
+   * * put() requires the current version of the item to equal the version of the put item, or the item to not exist
+   *   if the put item has no version
+   * * update() and delete() require the current version of the item to equal expectedVersion, if given
+   *
+   * A VersionConflictError is thrown if the version check fails. atomicAction() uses the version attribute by default.
+   * @param attribute Name of the version attribute
+   */
+  withVersionAttribute<V extends string>(attribute: V) {
+    const builder = this as unknown as DynamoModelBuilder<Extend<T, Record<V, number>>, K, I, Extend<B, Record<V, number>>, C>;
+
+    builder.params.versionAttribute = attribute;
+
+    return builder;
+  }
+
+  /**
+   * Set options for the table of this model, used when generating table definitions and creating tables, such as
+   * key attribute types, index projections, billing mode and TTL attribute.
+   * Options are merged with any options set previously.
+   * @param options
+   */
+  withTableOptions(options: TableOptions) {
+    const {table = {}} = this.params;
+
+    this.params.table = {
+      ...table,
+      ...options,
+      attributeTypes: {...table.attributeTypes, ...options.attributeTypes},
+      indices: Object.entries(options.indices ?? {}).reduce((indices, [indexName, indexOptions]) => ({
+        ...indices,
+        [indexName]: {...indices[indexName], ...indexOptions}
+      }), table.indices ?? {})
+    };
+
+    return this;
+  }
+
   /**
    * Add a trigger to be called after each successful table write operation.
    * @param trigger
@@ -390,6 +1342,24 @@ export class DynamoModelBuilder<T extends Item, K extends KeyAttributes<T> = nev
     return this;
   }
 
+  /**
+   * Create a copy of this builder, which can be extended without affecting this builder or models built by it
+   */
+  copy(): DynamoModelBuilder<T, K, I, B, C> {
+    const builder = new DynamoModelBuilder<T, K, I, B, C>(this.client, this.name, this.tableName);
+    const {indices, creators, updaters, converters, triggers} = this.params;
+
+    Object.assign(builder.params, this.params, {
+      indices: {...indices},
+      creators: [...creators],
+      updaters: [...updaters],
+      converters: converters && [...converters],
+      triggers: [...triggers]
+    });
+
+    return builder;
+  }
+
   /**
    * Build an instance of the model
    * If the builder was created via the static method `DynamoClient.model()`, the options `client`, `name` and `tableName`
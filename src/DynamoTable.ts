@@ -0,0 +1,237 @@
+import {DynamoClient} from './DynamoClient';
+import {DynamoModel, DynamoModelBuilder, ModelOptions} from './DynamoModel';
+import {TableOptions} from './tables';
+import {
+  CollectionGroup,
+  CollectionGroups,
+  CollectionParams,
+  CompositeKey,
+  CompositeSources,
+  EntityItem,
+  EntityModel,
+  EntityModels,
+  Extend,
+  Item,
+  TableIndices,
+  TableKeyAttributes,
+  TableParams,
+  TableCollectionResult,
+  TableQueryParams,
+  TableQueryResult
+} from './types';
+import {error, StringKeyOf} from './utils';
+
+/**
+ * A table shared by several entity types, i.e., a single-table design, where each item is identified as being of an
+ * entity type by a discriminator attribute. Each entity type has its own model, with its own creators, updaters,
+ * converters, triggers and composite key attributes.
+ * Type params:
+ * * D is the name of the discriminator attribute
+ * * K represents the table key definition, which is either a single or a tuple key
+ * * I represents a dictionary of index names to index key definitions
+ * * E represents a dictionary of discriminator values to the models of the entity types
+ */
+export class DynamoTable<D extends string, K extends TableKeyAttributes = any, I extends TableIndices = any, E extends EntityModels = any> {
+  /**
+   * The models of the entity types of this table, by discriminator value
+   */
+  readonly entities: E;
+  private readonly model: DynamoModel<Item>;
+
+  constructor(
+      readonly client: DynamoClient,
+      readonly name: string,
+      readonly tableName: string,
+      readonly params: TableParams<D, K, I>
+  ) {
+    const {keyAttributes, indices, table, entities} = params;
+
+    this.model = new DynamoModel(client, name, tableName, {keyAttributes, indices, table, creators: [], updaters: [], triggers: []});
+    this.entities = Object.entries(entities).reduce((models, [value, builder]) => ({
+      ...models,
+      [value]: this.buildEntity(value, builder)
+    }), {} as E);
+  }
+
+  /**
+   * Convert an item read from the table using the model of its entity type
+   * @param item The raw item
+   * @returns the converted item, or undefined if the discriminator of the item is not the value of any entity type
+   */
+  convertItem(item: Item): EntityItem<E> | undefined {
+    return this.getEntity(item[this.params.discriminator])?.convertItem(item);
+  }
+
+  /**
+   * Perform a query operation with a key condition, typically the partition key of an item collection, and return a
+   * page of items of all entity types, each converted by the model of its entity type. Items whose discriminator is
+   * not the value of any entity type are returned separately as unknownItems.
+   * @param params
+   */
+  async query<N extends StringKeyOf<I> | undefined = undefined>(params: TableQueryParams<N>): Promise<TableQueryResult<E>> {
+    const {items, nextPageToken} = await this.model.query<null, any>(params);
+    const result: TableQueryResult<E> = {items: [], unknownItems: [], nextPageToken};
+
+    for (const item of items) {
+      const converted = this.convertItem(item);
+
+      if (converted) {
+        result.items.push(converted);
+      } else {
+        result.unknownItems.push(item);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Query an item collection and group its items, see DynamoModel.collection(). Groups are given by discriminator
+   * value by default, and items of groups given by discriminator value are converted by the models of their entity
+   * types.
+   * @param params
+   */
+  collection<G extends CollectionGroups, N extends StringKeyOf<I> | undefined = undefined>(
+      params: CollectionParams<Item, G, N>
+  ): Promise<TableCollectionResult<E, G>> {
+    const groups = Object.entries<CollectionGroup>(params.groups).reduce((groups, [name, group]) => ({
+      ...groups,
+      [name]: {...group, model: group.model ?? this.getEntity(group.value)}
+    }), {} as G);
+
+    return this.model.collection<G, any>({discriminator: this.params.discriminator, ...params, groups}) as Promise<TableCollectionResult<E, G>>;
+  }
+
+  /**
+   * Create the table, see DynamoModel.createTable()
+   * @returns true if the table was created, or false if it already existed
+   */
+  createTable(): Promise<boolean> {
+    return this.model.createTable();
+  }
+
+  private getEntity(value: unknown): DynamoModel<any> | undefined {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(this.entities, value) ?
+        this.entities[value] :
+        undefined;
+  }
+
+  private buildEntity(value: string, entity: DynamoModelBuilder<any, any, any, any, any>): DynamoModel<any> {
+    const {keyAttributes, indices, table} = this.params;
+    const copy = entity.copy();
+    let builder: DynamoModelBuilder<any, any, any, any, any> = keyAttributes ? copy.withKey(...keyAttributes) : copy;
+
+    for (const [indexName, indexAttributes] of Object.entries(indices)) {
+      builder = builder.withIndex(indexName, ...indexAttributes);
+    }
+    if (table) {
+      builder = builder.withTableOptions(table);
+    }
+
+    return builder.build({client: this.client, name: value, tableName: this.tableName});
+  }
+}
+
+/**
+ * A builder of tables shared by several entity types
+ */
+export class DynamoTableBuilder<D extends string, K extends TableKeyAttributes = never, I extends TableIndices = {}, E extends EntityModels = {}> {
+  private readonly params: TableParams<D, K, I>;
+
+  constructor(discriminator: D, readonly client?: DynamoClient, readonly name?: string, readonly tableName?: string) {
+    this.params = {discriminator, indices: {} as I, entities: {}};
+  }
+
+  /**
+   * Define the key attribute(s) of this table, which are the key attributes of all entity types
+   * @param keyAttributes One or two attribute names identifying the HASH and RANGE keys of the table
+   */
+  withKey<_K extends TableKeyAttributes>(...keyAttributes: _K): DynamoTableBuilder<D, _K, I, E> {
+    const builder = this as unknown as DynamoTableBuilder<D, _K, I, E>;
+    builder.params.keyAttributes = keyAttributes;
+
+    return builder;
+  }
+
+  /**
+   * Add an index to this table. Entity types whose items don't have the key attributes of the index, i.e., which are
+   * not in a sparse index, don't have the index in their models.
+   * @param name Name of the index
+   * @param indexAttributes One or two attribute names identifying the HASH and RANGE keys of the index
+   */
+  withIndex<N extends string, IK extends TableKeyAttributes>(name: N, ...indexAttributes: IK): DynamoTableBuilder<D, K, I & Record<N, IK>, E> {
+    const builder = this as unknown as DynamoTableBuilder<D, K, I & Record<N, IK>, E>;
+    builder.params.indices = {...this.params.indices, [name]: indexAttributes} as I & Record<N, IK>;
+
+    return builder;
+  }
+
+  /**
+   * Set options for the table, see DynamoModelBuilder.withTableOptions()
+   * @param options
+   */
+  withTableOptions(options: TableOptions) {
+    this.params.table = {...this.params.table, ...options};
+
+    return this;
+  }
+
+  /**
+   * Add an entity type to this table, given a model builder without key, which may define creators, updaters,
+   * converters, triggers and composite attributes such as key attributes of the table. The model of the entity type
+   * gets the key and indices of the table, and the discriminator attribute set to the given value, see
+   * DynamoModelBuilder.withDiscriminator(). The key must be defined before adding entity types. The given builder is
+   * not modified, so it may be shared by several tables or models.
+   *
+   * Usage:
+   * class AppTable extends DynamoClient.table('type')
+   *   .withKey('pk', 'sk')
+   *   .withEntity('user', DynamoClient.model<User>()
+   *     .withCompositeKey('pk', ['userId'], '#', {prefix: 'USER'})
+   *     .withCompositeKey('sk', ['userId'], '#', {prefix: 'PROFILE'}))
+   *   .class() {}
+   * @param value The discriminator value of items of the entity type
+   * @param builder A model builder for the entity type
+   */
+  withEntity<V extends string, T2 extends Record<K[number], unknown>, B2 extends Item, C2 extends CompositeSources>(
+      value: V,
+      builder: DynamoModelBuilder<T2, never, {}, B2, C2>
+  ): DynamoTableBuilder<D, K, I, E & Record<V, EntityModel<Extend<T2, Record<D, V>>, CompositeKey<K, C2>, I, Extend<B2, Record<D, V>>>>> {
+    const tableBuilder = this as unknown as DynamoTableBuilder<D, K, I, E & Record<V, EntityModel<Extend<T2, Record<D, V>>, CompositeKey<K, C2>, I, Extend<B2, Record<D, V>>>>>;
+
+    tableBuilder.params.entities[value] = builder.copy().withDiscriminator(this.params.discriminator, value) as unknown as DynamoModelBuilder<any, any>;
+
+    return tableBuilder;
+  }
+
+  /**
+   * Build an instance of the table, see DynamoModelBuilder.build()
+   */
+  build(options: ModelOptions = {}): DynamoTable<D, K, I, E> {
+    const {
+      client = this.client || error('client not supplied'),
+      name = this.name || error('name not supplied'),
+      tableName = this.tableName || name
+    } = options;
+
+    return new DynamoTable(client, name, tableName, this.params);
+  }
+
+  /**
+   * Create a class for the table, see DynamoModelBuilder.class()
+   */
+  class(options: ModelOptions = {}): abstract new (options?: ModelOptions) => DynamoTable<D, K, I, E> {
+    const builder = {...this, ...options};
+
+    return class extends DynamoTable<D, K, I, E> {
+      constructor(options: ModelOptions = {}) {
+        const {
+          client = builder.client || error('client not supplied'),
+          name = builder.name || error('name not supplied'),
+          tableName = builder.tableName || name
+        } = options;
+        super(client, name, tableName, builder.params);
+      }
+    }
+  }
+}
@@ -1,18 +1,25 @@
-import {TransactionCanceledException} from '@aws-sdk/client-dynamodb';
+import {TransactionCanceledException, TransactWriteItem} from '@aws-sdk/client-dynamodb';
 import {
   TransactGetCommand,
   TransactGetCommandInput,
+  TransactGetCommandOutput,
   TransactWriteCommand,
   TransactWriteCommandInput,
 } from '@aws-sdk/lib-dynamodb';
+import {unmarshall} from '@aws-sdk/util-dynamodb';
+import {decodeItem} from './codecs';
 import {DynamoModel} from './DynamoModel';
 import {DynamoWrapper} from './DynamoWrapper';
+import {decryptItem} from './encryption';
+import {TransactionCancelledError, VersionConflictError} from './errors';
 import {
   createConditionCheckRequest,
   createDeleteRequest,
   createGetRequest,
   createPutRequest,
+  createSoftDeleteRequest,
   createUpdateRequest,
+  getReadItem,
   getReturnedConsumedCapacity,
 } from './requests';
 
@@ -20,41 +27,56 @@ import {
   ConditionCheckParams,
   DeleteParams,
   GetParams,
+  GetResult,
   Item,
   KeyAttributes,
   ProjectionKeys,
   PutParams,
+  ReturnValueOnConditionCheckFailure,
+  TransactionItemParams,
+  TransactionOperation,
   UpdateParams
 } from './types';
-import {parseRequest} from './utils';
+import {parseRequest, pick} from './utils';
+
+// The results of a tuple of get params, as a tuple of the same length with each item projected as requested
+type GetResults<T extends Item, L extends unknown[]> = {
+  [I in keyof L]: L[I] extends {projection: Array<infer P>} ? GetResult<T, P & ProjectionKeys<T>> : GetResult<T>;
+};
+
+function getReturnValuesOnConditionCheckFailure({returnValuesOnConditionCheckFailure}: TransactionItemParams) {
+  const values: Record<ReturnValueOnConditionCheckFailure, 'ALL_OLD' | 'NONE'> = {all_old: 'ALL_OLD', none: 'NONE'};
+
+  return returnValuesOnConditionCheckFailure && values[returnValuesOnConditionCheckFailure];
+}
 
 export class DynamoTransactionProxy extends DynamoWrapper {
   put<T extends Item, K extends KeyAttributes<T>, B extends Item>(
       model: DynamoModel<T, K, any, B>,
-      ...paramsList: Array<PutParams<T, B>>
+      ...paramsList: Array<PutParams<T, B> & TransactionItemParams>
   ): DynamoWriteTransaction {
     return new DynamoWriteTransaction(this.client, this.name).put(model, ...paramsList);
   }
 
   update<T extends Item, K extends KeyAttributes<T>, B extends Item>(
       model: DynamoModel<T, K, any, B>,
-      ...paramsList: Array<UpdateParams<T, K, B>>
+      ...paramsList: Array<UpdateParams<T, K, B> & TransactionItemParams>
   ): DynamoWriteTransaction {
     return new DynamoWriteTransaction(this.client, this.name).update(model, ...paramsList);
   }
 
   delete<T extends Item, K extends KeyAttributes<T>>(
       model: DynamoModel<T, K>,
-      ...paramsList: Array<DeleteParams<T, K>>
+      ...paramsList: Array<DeleteParams<T, K> & TransactionItemParams>
   ): DynamoWriteTransaction {
     return new DynamoWriteTransaction(this.client, this.name).delete(model, ...paramsList);
   }
 
-  get<T extends Item, K extends KeyAttributes<T>, P extends ProjectionKeys<T>>(
+  get<T extends Item, K extends KeyAttributes<T>, L extends Array<GetParams<T, K, ProjectionKeys<T>>>>(
       model: DynamoModel<T, K>,
-      ...paramsList: Array<GetParams<T, K, P>>
-  ): DynamoGetTransaction {
-    return new DynamoGetTransaction(this.client, this.name).get(model, ...paramsList);
+      ...paramsList: L
+  ): DynamoGetTransaction<GetResults<T, L>> {
+    return new DynamoGetTransaction(this.client, this.name).get<T, K, L>(model, ...paramsList);
   }
 }
 
@@ -86,21 +108,39 @@ export abstract class DynamoTransaction extends DynamoWrapper {
   }
 }
 
-export class DynamoGetTransaction extends DynamoTransaction {
+/**
+ * A transaction of get operations.
+ * Type params:
+ * * R represents the results of the transaction, as a tuple with one element per get operation, in the order the
+ *   operations were added. Each element is the (possibly projected) item type of the operation's model, or undefined.
+ */
+export class DynamoGetTransaction<R extends unknown[] = []> extends DynamoTransaction {
   private readonly items: NonNullable<TransactGetCommandInput['TransactItems']> = [];
+  private readonly requests: Array<{model: DynamoModel<any>; projection?: unknown[]; includeExpired?: boolean; includeDeleted?: boolean}> = [];
 
-  get<T extends Item, K extends KeyAttributes<T>, P extends ProjectionKeys<T>>(
+  get<T extends Item, K extends KeyAttributes<T>, L extends Array<GetParams<T, K, ProjectionKeys<T>>>>(
       model: DynamoModel<T, K>,
-      ...paramsList: Array<GetParams<T, K, P>>
-  ): DynamoGetTransaction {
-    this.items.push(...paramsList.map(params => ({Get: createGetRequest(model, params)})));
+      ...paramsList: L
+  ): DynamoGetTransaction<[...R, ...GetResults<T, L>]> {
+    for (const params of paramsList) {
+      this.items.push({Get: createGetRequest(model, params)});
+      const {projection, includeExpired, includeDeleted} = params;
 
-    return this;
+      this.requests.push({model, projection, includeExpired, includeDeleted});
+    }
+
+    return this as any;
   }
 
-  async commit(): Promise<void> {
+  /**
+   * Commit the transaction and return the retrieved items, in the same order as the get operations were added.
+   * Items that do not exist are returned as undefined.
+   */
+  async commit(): Promise<R> {
+    let output: TransactGetCommandOutput;
+
     try {
-      await this.command(new TransactGetCommand({
+      output = await this.command(new TransactGetCommand({
         TransactItems: this.items,
         ReturnConsumedCapacity: getReturnedConsumedCapacity(this)
       }));
@@ -108,58 +148,103 @@ export class DynamoGetTransaction extends DynamoTransaction {
       this.err = err;
       throw err;
     }
+
+    const {Responses: responses = []} = output;
+
+    return this.requests.map((request, i) => {
+      const {model, projection} = request;
+      const item = getReadItem(model, responses[i]?.Item, request);
+
+      return item && model.convertItem(item, projection as any);
+    }) as R;
   }
 }
 
 export class DynamoWriteTransaction extends DynamoTransaction {
   private readonly items: NonNullable<TransactWriteCommandInput['TransactItems']> = [];
-  private readonly modelMap = new Map<string, DynamoModel<any>>();
+  private readonly operations: Array<{model: DynamoModel<any>; operation: TransactionOperation; versioned: boolean}> = [];
+
+  private add(model: DynamoModel<any>, operation: TransactionOperation, item: TransactWriteItem, versioned = false): void {
+    this.items.push(item);
+    this.operations.push({model, operation, versioned});
+  }
 
   put<T extends Item, K extends KeyAttributes<T>, B extends Item>(
       model: DynamoModel<T, K, any, B>,
-      ...paramsList: Array<PutParams<T, B>>
+      ...paramsList: Array<PutParams<T, B> & TransactionItemParams>
   ): DynamoWriteTransaction {
-    this.items.push(...paramsList.map(params => ({
-      Put: createPutRequest(model, params)
-    })));
-    this.modelMap.set(model.tableName, model);
+    for (const params of paramsList) {
+      this.add(model, 'put', {
+        Put: {
+          ...createPutRequest(model, params),
+          ReturnValuesOnConditionCheckFailure: getReturnValuesOnConditionCheckFailure(params)
+        }
+      }, model.params.versionAttribute !== undefined);
+    }
 
     return this;
   }
 
   update<T extends Item, K extends KeyAttributes<T>, B extends Item>(
       model: DynamoModel<T, K, any, B>,
-      ...paramsList: Array<UpdateParams<T, K, B>>
+      ...paramsList: Array<UpdateParams<T, K, B> & TransactionItemParams>
   ): DynamoWriteTransaction {
-    this.items.push(...paramsList.map(params => ({
-      Update: createUpdateRequest(model, params)
-    })));
-    this.modelMap.set(model.tableName, model);
+    for (const params of paramsList) {
+      this.add(model, 'update', {
+        Update: {
+          ...createUpdateRequest(model, params),
+          ReturnValuesOnConditionCheckFailure: getReturnValuesOnConditionCheckFailure(params)
+        }
+      }, params.expectedVersion !== undefined);
+    }
 
     return this;
   }
 
   delete<T extends Item, K extends KeyAttributes<T>>(
       model: DynamoModel<T, K>,
-      ...paramsList: Array<DeleteParams<T, K>>
+      ...paramsList: Array<DeleteParams<T, K> & TransactionItemParams>
   ): DynamoWriteTransaction {
-    this.items.push(...paramsList.map(params => ({
-      Delete: createDeleteRequest(model, params)
-    })));
-    this.modelMap.set(model.tableName, model);
+    for (const params of paramsList) {
+      const returnValues = getReturnValuesOnConditionCheckFailure(params);
+
+      if (model.params.softDeleteAttribute) {
+        this.add(model, 'softDelete', {
+          Update: {...createSoftDeleteRequest(model, params), ReturnValuesOnConditionCheckFailure: returnValues}
+        }, params.expectedVersion !== undefined);
+      } else {
+        this.add(model, 'delete', {
+          Delete: {...createDeleteRequest(model, params), ReturnValuesOnConditionCheckFailure: returnValues}
+        }, params.expectedVersion !== undefined);
+      }
+    }
 
     return this;
   }
 
   condition<T extends Item, K extends KeyAttributes<T>>(
       model: DynamoModel<T, K>,
-      ...paramsList: Array<ConditionCheckParams<T, K>>
+      ...paramsList: Array<ConditionCheckParams<T, K> & TransactionItemParams>
   ): DynamoWriteTransaction {
-    this.items.push(...paramsList.map(params => ({ConditionCheck: createConditionCheckRequest(model, params)})));
+    for (const params of paramsList) {
+      this.add(model, 'condition', {
+        ConditionCheck: {
+          ...createConditionCheckRequest(model, params),
+          ReturnValuesOnConditionCheckFailure: getReturnValuesOnConditionCheckFailure(params)
+        }
+      });
+    }
 
     return this;
   }
 
+  /**
+   * Commit the transaction.
+   * If the transaction is cancelled, e.g. due to failed conditions, a TransactionCancelledError is thrown, containing
+   * the cancellation reason of each operation, with a VersionConflictError for each operation whose version check
+   * failed.
+   * @param [token] Client request token making the transaction idempotent
+   */
   async commit(token?: string): Promise<void> {
     try {
       await this.command(new TransactWriteCommand({
@@ -168,15 +253,46 @@ export class DynamoWriteTransaction extends DynamoTransaction {
         ReturnConsumedCapacity: getReturnedConsumedCapacity(this)
       }));
     } catch (err) {
-      this.err = err;
-      throw err;
+      this.err = DynamoTransaction.isTransactionCancelled(err) ? this.createCancelledError(err) : err;
+      throw this.err;
     }
 
-    this.items.forEach(item => {
-      const {tableName, key, command} = parseRequest(item)
-      const model = this.modelMap.get(tableName!);
+    this.items.forEach((item, i) => {
+      const {model, operation} = this.operations[i];
 
-      model?.params.triggers.forEach(trigger => trigger(key, command, model));
+      if (operation !== 'condition') {
+        const decodedKey = {...parseRequest(item).key};
+
+        decryptItem(model, decodedKey);
+        decodeItem(model, decodedKey);
+        model.params.triggers.forEach(trigger => trigger(decodedKey, operation, model));
+      }
+    });
+  }
+
+  private createCancelledError(err: TransactionCanceledException): TransactionCancelledError {
+    const unmarshallOptions = this.client.dc.config.translateConfig?.unmarshallOptions;
+    const reasons = this.items.map((item, i) => {
+      const {model, operation, versioned} = this.operations[i];
+      const {Code: code = 'None', Message: message, Item: rawItem} = err.CancellationReasons?.[i] ?? {};
+      const key = item.Put ?
+          pick(item.Put.Item ?? {}, model.params.keyAttributes) :
+          {...(item.Update ?? item.Delete ?? item.ConditionCheck)?.Key};
+
+      decryptItem(model, key);
+      decodeItem(model, key);
+
+      return {
+        model,
+        operation,
+        key,
+        code,
+        message,
+        item: rawItem && model.convertItem(unmarshall(rawItem, unmarshallOptions)),
+        versionConflict: versioned && code === 'ConditionalCheckFailed' ? new VersionConflictError(err, model, key) : undefined
+      };
     });
+
+    return new TransactionCancelledError(err, reasons);
   }
-}
\ No newline at end of file
+}
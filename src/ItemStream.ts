@@ -0,0 +1,184 @@
+/**
+ * An async iterator of items with chainable combinators, returned by scanIterator() and queryIterator().
+ * Items are fetched lazily, one page at a time, as they are consumed, so e.g. take() stops fetching pages once it has
+ * returned enough items. Note that a stream can only be iterated once.
+ *
+ * Usage:
+ * const names = await persons.scanIterator()
+ *   .filter(item => item.age >= 18)
+ *   .map(item => item.name)
+ *   .take(10)
+ *   .toArray();
+ */
+export class ItemStream<T> implements AsyncGenerator<T, void, undefined> {
+  constructor(private readonly source: AsyncGenerator<T, void, undefined>) {
+  }
+
+  next(): Promise<IteratorResult<T, void>> {
+    return this.source.next();
+  }
+
+  return(): Promise<IteratorResult<T, void>> {
+    return this.source.return();
+  }
+
+  throw(err: unknown): Promise<IteratorResult<T, void>> {
+    return this.source.throw(err);
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * Map each item using a function, which may be async
+   */
+  map<R>(fn: (item: T) => R | Promise<R>): ItemStream<R> {
+    const source = this;
+
+    return new ItemStream((async function* () {
+      for await (const item of source) {
+        yield await fn(item);
+      }
+    })());
+  }
+
+  /**
+   * Get a stream of the items for which a function, which may be async, returns true
+   */
+  filter<S extends T>(fn: (item: T) => item is S): ItemStream<S>;
+  filter(fn: (item: T) => boolean | Promise<boolean>): ItemStream<T>;
+  filter(fn: (item: T) => boolean | Promise<boolean>): ItemStream<T> {
+    const source = this;
+
+    return new ItemStream((async function* () {
+      for await (const item of source) {
+        if (await fn(item)) {
+          yield item;
+        }
+      }
+    })());
+  }
+
+  /**
+   * Get a stream of at most the given number of items. No more items are read once that number has been returned.
+   */
+  take(count: number): ItemStream<T> {
+    const source = this;
+
+    return new ItemStream((async function* () {
+      let taken = 0;
+
+      if (count <= 0) {
+        await source.return();
+        return;
+      }
+
+      for await (const item of source) {
+        yield item;
+
+        // Stop before reading the next item, which could require fetching another page
+        if (++taken >= count) {
+          break;
+        }
+      }
+    })());
+  }
+
+  /**
+   * Get a stream of arrays of the given number of items, except the last array which may have fewer items. This is
+   * useful to e.g. write the items using batch statements.
+   */
+  chunk(size: number): ItemStream<T[]> {
+    if (size < 1) {
+      throw new Error('Chunk size must be at least 1');
+    }
+
+    const source = this;
+
+    return new ItemStream((async function* () {
+      let chunk: T[] = [];
+
+      for await (const item of source) {
+        chunk.push(item);
+
+        if (chunk.length === size) {
+          yield chunk;
+          chunk = [];
+        }
+      }
+
+      if (chunk.length) {
+        yield chunk;
+      }
+    })());
+  }
+
+  /**
+   * Read all items into an array
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Read the first item, if any, without reading any further items
+   */
+  async first(): Promise<T | undefined> {
+    for await (const item of this) {
+      return item;
+    }
+  }
+
+  /**
+   * Reduce all items to a single value using a function, which may be async
+   */
+  async reduce<R>(fn: (result: R, item: T) => R | Promise<R>, initialValue: R): Promise<R> {
+    let result = initialValue;
+
+    for await (const item of this) {
+      result = await fn(result, item);
+    }
+    return result;
+  }
+
+  /**
+   * Call an async function for each item, with at most the given number of calls running concurrently. If any call
+   * fails, no more items are read and the error is thrown once the running calls have completed.
+   */
+  async forEachConcurrent(concurrency: number, fn: (item: T) => Promise<unknown>): Promise<void> {
+    let failed = false;
+    let error: unknown;
+
+    const worker = async () => {
+      while (!failed) {
+        const result = await this.next();
+
+        if (result.done) {
+          return;
+        }
+
+        try {
+          await fn(result.value);
+        } catch (err) {
+          if (!failed) {
+            failed = true;
+            error = err;
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({length: Math.max(concurrency, 1)}, worker));
+
+    if (failed) {
+      await this.return();
+      throw error;
+    }
+  }
+}
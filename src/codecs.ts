@@ -0,0 +1,231 @@
+import {CompositeCondition, Condition, ConditionSet, SetValue, UpdateAction, UpdateAttributes} from 'dynamodb-expressions';
+import {DynamoModel} from './DynamoModel';
+import {KeyAttributeType} from './tables';
+import {Item} from './types';
+
+/**
+ * A codec converting values of an attribute to and from the values stored in the table, e.g. to store Date objects as
+ * ISO strings.
+ */
+export interface AttributeCodec<V, S = unknown> {
+  encode(value: V): S;
+  decode(value: S): V;
+  /**
+   * The DynamoDB type of stored values, used to infer key attribute types of tables
+   */
+  attributeType?: KeyAttributeType;
+}
+
+/**
+ * Codecs of attributes by attribute name
+ */
+export type AttributeCodecs = Record<string, AttributeCodec<any, any>>;
+
+/**
+ * Built-in attribute codecs
+ */
+export const Codecs = {
+  /**
+   * Store Date objects as ISO 8601 strings, which preserves their sort order
+   */
+  date(): AttributeCodec<Date, string> {
+    return {
+      encode: value => value.toISOString(),
+      decode: value => new Date(value),
+      attributeType: 'S'
+    };
+  },
+
+  /**
+   * Store bigint values as strings
+   */
+  bigint(): AttributeCodec<bigint, string> {
+    return {
+      encode: value => value.toString(),
+      decode: value => BigInt(value),
+      attributeType: 'S'
+    };
+  },
+};
+
+// Operators whose operands are values of the attribute itself
+const ENCODED_OPERATORS = ['=', '<>', '<', '<=', '>', '>=', 'between'];
+
+// Operators whose operands are conditions or values of the attribute itself
+const COMPOSITE_OPERATORS = ['not', 'and', 'or'];
+
+// Types of update actions built by dynamodb-expressions
+const ACTION_TYPES = ['SET', 'REMOVE', 'ADD', 'DELETE'];
+
+type ActionOperand = {
+  operand: unknown;
+  type: 'name' | 'value';
+  prefix?: string;
+};
+
+function encodeValue(value: unknown, codec: AttributeCodec<any>) {
+  return value === undefined || value === null ? value : codec.encode(value);
+}
+
+function encodeCondition(value: unknown, codec: AttributeCodec<any>): unknown {
+  if (value === undefined) {
+    return value;
+  }
+
+  const condition = Condition.from(value);
+  const {operator, operands} = condition;
+
+  if (ENCODED_OPERATORS.includes(operator)) {
+    return Condition.from({operator, operands: operands.map(operand => encodeValue(operand, codec))});
+  } else if (operator === 'in') {
+    return Condition.in((operands[0] as unknown[]).map(operand => encodeValue(operand, codec)));
+  } else if (COMPOSITE_OPERATORS.includes(operator)) {
+    return Condition.from({operator, operands: operands.map(operand => encodeCondition(operand, codec))});
+  }
+  return condition;
+}
+
+/**
+ * Get the type of an update action and the operands it adds to its expression, besides the name of the attribute, by
+ * building it using a builder recording them. The UpdateAction and SetValue classes do not expose their values, so
+ * this relies on how dynamodb-expressions builds actions, which is verified to fail loudly if it changes.
+ */
+function getActionOperands(model: DynamoModel<any>, name: string, action: UpdateAction<unknown>): {type: string; operands: ActionOperand[]} {
+  const operands: ActionOperand[] = [];
+  const {type} = action.build(name, {
+    addOperand: (operand, type, prefix) => {
+      operands.push({operand, type, prefix});
+      return '';
+    }
+  });
+  const [first] = operands;
+
+  if (!ACTION_TYPES.includes(type) || first?.operand !== name || first.type !== 'name') {
+    throw new Error(`Cannot encode the update action of attribute ${name} of ${model.name}, which was built in an unknown way`);
+  }
+  return {type, operands: operands.slice(1)};
+}
+
+/**
+ * Encode the values of an update action, creating an equivalent action from the encoded values. Set values whose
+ * operands are nested set values cannot be encoded.
+ */
+function encodeUpdateAction(model: DynamoModel<any>, name: string, action: UpdateAction<unknown>, codec: AttributeCodec<any>): UpdateAction<unknown> {
+  const {type, operands} = getActionOperands(model, name, action);
+  const values = operands.map(({operand, type}) => type === 'value' ? encodeValue(operand, codec) : operand);
+  // Operands of arithmetic and list_append() are names of attributes if they are strings, unless prefixed with ':'
+  const setOperands: any[] = operands.map(({type}, i) => type === 'value' && typeof values[i] === 'string' ? `:${values[i]}` : values[i]);
+  const prefixes = operands.map(({prefix}) => prefix).join();
+
+  switch (type) {
+    case 'ADD':
+      return UpdateAction.add(values[0] as number);
+    case 'DELETE':
+      return UpdateAction.delete(values[0] as Set<unknown>);
+    case 'REMOVE':
+      return action;
+  }
+
+  switch (prefixes) {
+    case 'set':
+      return UpdateAction.set(values[0]);
+    case ',ifnotexists':
+      return UpdateAction.set(SetValue.ifNotExists(values[0] as string, values[1]));
+    case 'add0,add1':
+      return UpdateAction.set(SetValue.add(setOperands[0], setOperands[1]));
+    case 'sub0,sub1':
+      return UpdateAction.set(SetValue.subtract(setOperands[0], setOperands[1]));
+    case 'append0,append1':
+      return UpdateAction.set(SetValue.append(setOperands[0], setOperands[1]));
+    default:
+      throw new Error(`Cannot encode the nested set values of attribute ${name} of ${model.name}`);
+  }
+}
+
+/**
+ * Encode the attributes of an item or key using the codecs of the model, or the given codecs. The item is returned
+ * as-is if there are no codecs.
+ */
+export function encodeItem<T extends Item>(model: DynamoModel<any>, item: T, codecs = model.params.codecs): T {
+  if (!codecs) {
+    return item;
+  }
+
+  const encoded: Item = {...item};
+
+  for (const [name, codec] of Object.entries(codecs)) {
+    if (name in encoded) {
+      encoded[name] = encodeValue(encoded[name], codec);
+    }
+  }
+  return encoded as T;
+}
+
+/**
+ * Decode the attributes of a read item in place using the codecs of the model, or the given codecs
+ */
+export function decodeItem(model: DynamoModel<any>, item: Item, codecs = model.params.codecs) {
+  if (codecs) {
+    for (const [name, codec] of Object.entries(codecs)) {
+      if (item[name] !== undefined && item[name] !== null) {
+        item[name] = codec.decode(item[name]);
+      }
+    }
+  }
+}
+
+/**
+ * Encode the values of update attributes using the codecs of the model, or the given codecs, including values of
+ * update actions and set values
+ */
+export function encodeUpdateAttributes<T>(
+    model: DynamoModel<any>,
+    attributes: UpdateAttributes<T>,
+    codecs = model.params.codecs
+): UpdateAttributes<T> {
+  if (!codecs) {
+    return attributes;
+  }
+
+  const encoded: Item = {...attributes};
+
+  for (const [name, codec] of Object.entries(codecs)) {
+    const value = encoded[name];
+
+    if (value instanceof UpdateAction || value instanceof SetValue) {
+      encoded[name] = encodeUpdateAction(model, name, UpdateAction.from(value), codec);
+    } else if (name in encoded) {
+      encoded[name] = encodeValue(value, codec);
+    }
+  }
+  return encoded as UpdateAttributes<T>;
+}
+
+/**
+ * Encode the values of conditions using the codecs of the model, or the given codecs. Values of functions such as
+ * begins_with() are not encoded.
+ */
+export function encodeConditions<T>(model: DynamoModel<any>, conditions: ConditionSet<T>, codecs?: AttributeCodecs): ConditionSet<T>;
+export function encodeConditions<T>(model: DynamoModel<any>, conditions?: ConditionSet<T>, codecs?: AttributeCodecs): ConditionSet<T> | undefined;
+export function encodeConditions<T>(
+    model: DynamoModel<any>,
+    conditions?: ConditionSet<T>,
+    codecs = model.params.codecs
+): ConditionSet<T> | undefined {
+  if (!codecs || !conditions) {
+    return conditions;
+  }
+
+  if (conditions instanceof CompositeCondition) {
+    return new CompositeCondition(conditions.operator, conditions.operands.map(operand => encodeConditions(model, operand, codecs)));
+  }
+
+  const encoded: Item = {...conditions};
+
+  for (const [name, codec] of Object.entries(codecs)) {
+    if (name in encoded) {
+      encoded[name] = encodeCondition(encoded[name], codec);
+    }
+  }
+  return encoded as ConditionSet<T>;
+}
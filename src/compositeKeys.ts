@@ -0,0 +1,214 @@
+import {CompositeCondition, Condition, ConditionSet, SetValue, UpdateAction} from 'dynamodb-expressions';
+import {decodeItem, encodeItem} from './codecs';
+import {DynamoModel} from './DynamoModel';
+import {CompositeKeyDefinition, Item} from './types';
+import {pick} from './utils';
+
+/**
+ * Format the value of a composite attribute from the encoded values of its source attributes, or return undefined if
+ * any source attribute is missing
+ */
+function formatComposite(model: DynamoModel<any>, {attributes, separator, prefix}: CompositeKeyDefinition, item: Item) {
+  const values = encodeItem(model, pick(item, attributes));
+
+  if (attributes.some(attr => values[attr] === undefined || values[attr] === null)) {
+    return undefined;
+  }
+
+  return [...prefix !== undefined ? [prefix] : [], ...attributes.map(attr => String(values[attr]))].join(separator);
+}
+
+/**
+ * Parse the value of a composite attribute into the stored values of its source attributes. As source values may
+ * contain the separator, the last source attribute gets any remaining parts.
+ */
+function parseComposite({attributes, separator, prefix}: CompositeKeyDefinition, value: unknown): Item | undefined {
+  const start = prefix !== undefined ? `${prefix}${separator}` : '';
+
+  if (typeof value !== 'string' || !value.startsWith(start)) {
+    return undefined;
+  }
+
+  const parts = value.slice(start.length).split(separator);
+
+  if (parts.length < attributes.length) {
+    return undefined;
+  }
+
+  return attributes.reduce((values, attr, i) => ({
+    ...values,
+    [attr]: i < attributes.length - 1 ? parts[i] : parts.slice(i).join(separator)
+  }), {});
+}
+
+/**
+ * Mark a composite value as a literal for expressions, which would otherwise parse a value containing # as an
+ * attribute path
+ */
+function literal(value: string) {
+  return `:${value}`;
+}
+
+/**
+ * Set the composite attributes of an item in place, for all composite attributes whose source attributes are present
+ */
+export function addCompositeAttributes<T extends Item>(model: DynamoModel<any>, item: T): T {
+  const {compositeKeys} = model.params;
+
+  for (const [name, definition] of Object.entries(compositeKeys ?? {})) {
+    const value = formatComposite(model, definition, item);
+
+    if (value !== undefined) {
+      (item as Item)[name] = value;
+    }
+  }
+  return item;
+}
+
+/**
+ * Set source attributes missing from a read item in place by parsing its composite attributes. The parsed values are
+ * stored values, which are then decoded along with the rest of the item.
+ */
+export function parseCompositeAttributes(model: DynamoModel<any>, item: Item) {
+  const {compositeKeys} = model.params;
+
+  for (const [name, definition] of Object.entries(compositeKeys ?? {})) {
+    const values = item[name] !== undefined ? parseComposite(definition, item[name]) : undefined;
+
+    for (const [attr, value] of Object.entries(values ?? {})) {
+      if (item[attr] === undefined) {
+        item[attr] = value;
+      }
+    }
+  }
+}
+
+/**
+ * Get the key attributes of a key, which may be given as the source attributes of composite key attributes
+ */
+export function resolveKey(model: DynamoModel<any>, key: Item): Item {
+  const {compositeKeys} = model.params;
+  const keyAttributes: string[] = model.params.keyAttributes ?? [];
+
+  if (!compositeKeys || keyAttributes.every(attr => key[attr] !== undefined)) {
+    return key;
+  }
+
+  return pick(addCompositeAttributes(model, {...key}), keyAttributes);
+}
+
+/**
+ * Get the composite attributes to set by an update, for all composite attributes having any source attribute set by
+ * the update. Throws if the composite attribute cannot be computed, i.e., if a source attribute is updated by an
+ * update action, or if any other source attribute is neither updated nor part of the key.
+ */
+export function getUpdatedCompositeAttributes(model: DynamoModel<any>, key: Item, attributes: Item): Item {
+  const {compositeKeys} = model.params;
+  const keyAttributes: string[] = model.params.keyAttributes ?? [];
+  const composites: Item = {};
+
+  if (!compositeKeys) {
+    return composites;
+  }
+
+  // Source attributes of composite key attributes are available from the key
+  const resolvedKey = resolveKey(model, key);
+  const keySources: Item = {};
+
+  for (const attr of keyAttributes) {
+    Object.assign(keySources, compositeKeys[attr] && parseComposite(compositeKeys[attr], resolvedKey[attr]));
+  }
+  decodeItem(model, keySources);
+
+  const values = {...keySources, ...key, ...attributes};
+
+  for (const [name, definition] of Object.entries(compositeKeys)) {
+    const updated = definition.attributes.filter(attr => attr in attributes);
+
+    if (!updated.length) {
+      continue;
+    }
+    if (keyAttributes.includes(name)) {
+      throw new Error(`Cannot update ${updated.join(', ')} of ${model.name}, which make up the key attribute ${name}`);
+    }
+
+    for (const attr of updated) {
+      if (attributes[attr] instanceof UpdateAction || attributes[attr] instanceof SetValue) {
+        throw new Error(`Cannot update ${attr} of ${model.name} using an update action, since it makes up ${name}`);
+      }
+    }
+
+    const value = formatComposite(model, definition, values);
+
+    if (value === undefined) {
+      const missing = definition.attributes.filter(attr => values[attr] === undefined || values[attr] === null);
+
+      throw new Error(`Cannot update ${updated.join(', ')} of ${model.name} without ${missing.join(', ')}, which also make up ${name}`);
+    }
+    composites[name] = literal(value);
+  }
+  return composites;
+}
+
+/**
+ * Replace key conditions on source attributes of composite attributes with conditions on the composite attributes.
+ * Source attributes must be given in order, with equality conditions on all but the last given attribute, which may
+ * also have a begins_with condition. Unless all source attributes are given, the composite attribute must begin
+ * with the given values.
+ * @param model
+ * @param keyConditions
+ * @param [keyAttributes] The key attributes of the queried table or index, to only resolve composite attributes which
+ * are part of the key, or undefined to resolve all composite attributes
+ */
+export function resolveKeyConditions<T>(
+    model: DynamoModel<any>,
+    keyConditions: ConditionSet<T>,
+    keyAttributes?: string[]
+): ConditionSet<T> {
+  const {compositeKeys} = model.params;
+
+  if (!compositeKeys || keyConditions instanceof CompositeCondition) {
+    return keyConditions;
+  }
+
+  const resolved: Item = {...keyConditions};
+
+  for (const [name, {attributes, separator, prefix}] of Object.entries(compositeKeys)) {
+    if ((keyAttributes && !keyAttributes.includes(name)) || !attributes.some(attr => attr in resolved)) {
+      continue;
+    }
+
+    const parts = prefix !== undefined ? [prefix] : [];
+    let complete = true;
+    let partial: string | undefined;
+
+    for (const attr of attributes) {
+      if (!(attr in resolved) || partial !== undefined) {
+        complete = false;
+        break;
+      }
+
+      const value = resolved[attr];
+      delete resolved[attr];
+
+      if (value instanceof Condition && value.operator === 'begins_with') {
+        partial = String(value.operands[0]);
+      } else if (value instanceof Condition && value.operator !== '=') {
+        throw new Error(`Key condition on ${attr} of ${model.name} must be an equality or begins_with condition, since it makes up ${name}`);
+      } else {
+        parts.push(String(encodeItem(model, {[attr]: value instanceof Condition ? value.operands[0] : value})[attr]));
+      }
+    }
+
+    const unordered = attributes.find(attr => attr in resolved);
+
+    if (unordered) {
+      throw new Error(`Key condition on ${unordered} of ${model.name} requires equality conditions on the preceding attributes of ${name}`);
+    }
+
+    resolved[name] = complete && partial === undefined ?
+        literal(parts.join(separator)) :
+        Condition.beginsWith(literal([...parts, partial ?? ''].join(separator)));
+  }
+  return resolved as ConditionSet<T>;
+}
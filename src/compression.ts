@@ -0,0 +1,37 @@
+import {brotliCompressSync, brotliDecompressSync, gunzipSync, gzipSync} from 'zlib';
+import {AttributeCodec} from './codecs';
+
+export type CompressionAlgorithm = 'gzip' | 'brotli';
+
+/**
+ * Options of compressed attributes
+ */
+export interface CompressionOptions {
+  /**
+   * The compression algorithm, default 'gzip'. Brotli usually compresses better, but is slower.
+   */
+  algorithm?: CompressionAlgorithm;
+}
+
+const COMPRESSORS: Record<CompressionAlgorithm, {compress(data: Buffer): Buffer; decompress(data: Uint8Array): Buffer}> = {
+  gzip: {compress: data => gzipSync(data), decompress: data => gunzipSync(data)},
+  brotli: {compress: data => brotliCompressSync(data), decompress: data => brotliDecompressSync(data)}
+};
+
+/**
+ * A codec storing values as compressed JSON in binary attributes, after encoding them using the given codec, if any.
+ * Stored values which are not binary, e.g. written before the attribute was compressed, are read as-is.
+ */
+export function compressionCodec(algorithm: CompressionAlgorithm, codec?: AttributeCodec<any>): AttributeCodec<any, unknown> {
+  const {compress, decompress} = COMPRESSORS[algorithm];
+
+  return {
+    encode: value => new Uint8Array(compress(Buffer.from(JSON.stringify(codec ? codec.encode(value) : value)))),
+    decode: value => {
+      const decoded = value instanceof Uint8Array ? JSON.parse(decompress(value).toString()) : value;
+
+      return codec ? codec.decode(decoded) : decoded;
+    },
+    attributeType: 'B'
+  };
+}
@@ -0,0 +1,559 @@
+import {createCipheriv, createDecipheriv, createHmac, randomBytes, timingSafeEqual} from 'crypto';
+import {buildUpdateExpression, ConditionSet, UpdateAction, UpdateAttributes} from 'dynamodb-expressions';
+import {AttributeCodecs, decodeItem, encodeConditions, encodeItem, encodeUpdateAttributes} from './codecs';
+import {DynamoModel} from './DynamoModel';
+import {DecryptionError, SignatureError, UnsignableUpdateError} from './errors';
+import {ExpressionAttributes, ExpressionContext, getAttributeType, parseUpdate, Path} from './expressions';
+import {Item} from './types';
+import {error} from './utils';
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const WRAPPED_KEY_LENGTH = IV_LENGTH + KEY_LENGTH + AUTH_TAG_LENGTH;
+const SIGNATURE_LENGTH = 16;
+
+// The first byte of an encrypted value, identifying how it was encrypted
+const RANDOMIZED = 1;
+const DETERMINISTIC = 2;
+
+/**
+ * The prefix of the reserved attributes holding the signatures of the attributes of items of models with encrypted
+ * attributes, e.g. __signature_name holds the signature of attribute name
+ */
+export const SIGNATURE_PREFIX = '__signature_';
+
+/**
+ * A 256-bit master key used to encrypt attributes
+ */
+export interface EncryptionKey {
+  /**
+   * ID of the key, which is stored with each value encrypted using the key. At most 255 bytes.
+   */
+  id: string;
+  key: Uint8Array;
+}
+
+/**
+ * A provider of the master keys used to encrypt attributes. Since requests are created synchronously, keys must be
+ * available synchronously, e.g. by decrypting them using a key management service when the application starts.
+ */
+export interface KeyProvider {
+  /**
+   * Get the key used to encrypt new values
+   */
+  getCurrentKey(): EncryptionKey;
+  /**
+   * Get a key by ID to decrypt values encrypted using it, or undefined if the key is unknown
+   */
+  getKey(id: string): EncryptionKey | undefined;
+}
+
+/**
+ * Options of encrypted attributes
+ */
+export interface EncryptionOptions {
+  /**
+   * Whether to encrypt equal values of an attribute to equal ciphertexts, so that the attribute can be used in equality
+   * conditions, including key conditions. This reveals which items have equal values. Default false.
+   */
+  deterministic?: boolean;
+  /**
+   * ID of the key used to encrypt values of deterministic attributes, by default the current key when the model is
+   * built. Equal values are only encrypted to equal ciphertexts using the same key, so deterministic attributes are not
+   * encrypted using the current key, and the key should be given explicitly to keep using it after keys are rotated.
+   */
+  keyId?: string;
+}
+
+/**
+ * An attribute encrypted using the keys of a key provider
+ */
+export interface EncryptedAttribute {
+  keyProvider: KeyProvider;
+  deterministic: boolean;
+  /**
+   * ID of the key used to encrypt values of a deterministic attribute
+   */
+  keyId?: string;
+}
+
+/**
+ * A key provider holding keys in memory, e.g. for tests
+ */
+export class InMemoryKeyProvider implements KeyProvider {
+  private readonly keys = new Map<string, EncryptionKey>();
+  private currentKey!: EncryptionKey;
+
+  /**
+   * @param [keys] Keys, of which the last one is the current key. By default, a random key is generated.
+   */
+  constructor(keys: EncryptionKey[] = []) {
+    if (keys.length === 0) {
+      this.addKey();
+    }
+    keys.forEach(key => this.addKey(key));
+  }
+
+  /**
+   * Add a key and make it the current key, e.g. to rotate keys. Values encrypted using previous keys can still be
+   * decrypted.
+   * @param [key] The key to add, by default a random key
+   */
+  addKey(key: EncryptionKey = {id: randomBytes(8).toString('hex'), key: randomBytes(KEY_LENGTH)}): EncryptionKey {
+    if (key.key.length !== KEY_LENGTH) {
+      throw new Error(`Key ${key.id} is not a 256-bit key`);
+    }
+    this.keys.set(key.id, key);
+    this.currentKey = key;
+
+    return key;
+  }
+
+  getCurrentKey(): EncryptionKey {
+    return this.currentKey;
+  }
+
+  getKey(id: string): EncryptionKey | undefined {
+    return this.keys.get(id);
+  }
+}
+
+function encrypt(key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array, aad: Uint8Array): Buffer {
+  const cipher = createCipheriv('aes-256-gcm', key, iv).setAAD(aad);
+
+  return Buffer.concat([iv, cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+function decrypt(key: Uint8Array, data: Buffer, aad: Uint8Array): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_LENGTH)).setAAD(aad);
+  decipher.setAuthTag(data.subarray(data.length - AUTH_TAG_LENGTH));
+
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH, data.length - AUTH_TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Derive a key from a master key for the given purpose, e.g. the data key of deterministically encrypted values of an
+ * attribute, which is the same for all its values
+ */
+function deriveKey(key: Uint8Array, purpose: 'deterministic' | 'signature', context: string): Buffer {
+  return createHmac('sha256', key).update(`dynamodb-ts-model:${purpose}:${context}`).digest();
+}
+
+/**
+ * Encrypt a value as JSON. Randomized values are encrypted using a random data key, which is encrypted using the current
+ * master key and stored with the value, i.e., envelope encryption. Deterministic values are encrypted using a data key
+ * derived from the pinned master key of the attribute, with an IV derived from the value. The context, which identifies the attribute and for
+ * randomized values also the item, is authenticated, so values moved to other attributes or items fail to decrypt.
+ */
+function encryptValue({keyProvider, deterministic, keyId: pinnedKeyId}: EncryptedAttribute, context: string, value: unknown): Uint8Array {
+  const {id, key} = deterministic ?
+      keyProvider.getKey(pinnedKeyId!) ?? error(`Unknown key ${pinnedKeyId} of deterministic encrypted attribute`) :
+      keyProvider.getCurrentKey();
+  const keyId = Buffer.from(id);
+
+  if (keyId.length > 255) {
+    throw new Error(`Key ID ${id} is longer than 255 bytes`);
+  }
+
+  const header = Buffer.concat([Buffer.from([deterministic ? DETERMINISTIC : RANDOMIZED, keyId.length]), keyId]);
+  const aad = Buffer.concat([header, Buffer.from(context)]);
+  const plaintext = Buffer.from(JSON.stringify(value));
+  let body: Buffer;
+
+  if (deterministic) {
+    const dataKey = deriveKey(key, 'deterministic', context);
+    const iv = createHmac('sha256', dataKey).update(plaintext).digest().subarray(0, IV_LENGTH);
+
+    body = encrypt(dataKey, iv, plaintext, aad);
+  } else {
+    const dataKey = randomBytes(KEY_LENGTH);
+
+    body = Buffer.concat([encrypt(key, randomBytes(IV_LENGTH), dataKey, header), encrypt(dataKey, randomBytes(IV_LENGTH), plaintext, aad)]);
+  }
+
+  return new Uint8Array(Buffer.concat([header, body]));
+}
+
+/**
+ * Decrypt a value encrypted by encryptValue(), throwing a DecryptionError if it fails. Values which are not binary are
+ * returned as-is if the model allows unsigned items, which may have been written before the attribute was encrypted.
+ */
+function decryptValue(model: DynamoModel<any>, attribute: string, options: EncryptedAttribute, context: string, value: unknown): unknown {
+  if (!(value instanceof Uint8Array) && model.params.allowUnsignedItems) {
+    return value;
+  }
+  if (!(value instanceof Uint8Array) || value.length < 2) {
+    throw new DecryptionError(model, attribute, 'malformed value');
+  }
+
+  const data = Buffer.from(value.buffer, value.byteOffset, value.length);
+  const header = data.subarray(0, 2 + data[1]);
+  const id = header.subarray(2).toString();
+  const key = options.keyProvider.getKey(id)?.key;
+
+  if (data[0] !== (options.deterministic ? DETERMINISTIC : RANDOMIZED)) {
+    throw new DecryptionError(model, attribute, 'malformed value');
+  }
+  if (!key) {
+    throw new DecryptionError(model, attribute, `unknown key ${id}`);
+  }
+
+  let plaintext: Buffer;
+
+  try {
+    const aad = Buffer.concat([header, Buffer.from(context)]);
+    const body = data.subarray(header.length);
+
+    plaintext = options.deterministic ?
+        decrypt(deriveKey(key, 'deterministic', context), body, aad) :
+        decrypt(decrypt(key, body.subarray(0, WRAPPED_KEY_LENGTH), header), body.subarray(WRAPPED_KEY_LENGTH), aad);
+  } catch (err) {
+    throw new DecryptionError(model, attribute, 'authentication failed');
+  }
+
+  return JSON.parse(plaintext.toString());
+}
+
+/**
+ * Get the stored key of an item, or undefined if it lacks any key attribute
+ */
+function getStoredKey(model: DynamoModel<any>, item: Item): Item | undefined {
+  const keyAttributes: string[] = model.params.keyAttributes ?? error(`Model ${model.name} has no key`);
+
+  if (keyAttributes.every(attr => item[attr] !== undefined)) {
+    return keyAttributes.reduce((key, attr) => ({...key, [attr]: item[attr]}), {});
+  }
+}
+
+/**
+ * Get the values of the stored key of an item, with binary values as base64, to authenticate values with their item
+ */
+function getKeyValues(model: DynamoModel<any>, key: Item): unknown[] {
+  const keyAttributes: string[] = model.params.keyAttributes ?? [];
+
+  return keyAttributes.map(attr => key[attr] instanceof Uint8Array ? Buffer.from(key[attr]).toString('base64') : key[attr]);
+}
+
+/**
+ * Get codecs encrypting the deterministic encrypted attributes of a model, or if the stored key of an item is given, the
+ * randomized encrypted attributes of the item
+ */
+function getEncryptionCodecs(model: DynamoModel<any>, key?: Item): AttributeCodecs {
+  const {encryptedAttributes = {}} = model.params;
+  const keyAttributes: string[] = model.params.keyAttributes ?? [];
+  const keyValues = key && getKeyValues(model, key);
+  const codecs: AttributeCodecs = {};
+
+  for (const [attribute, options] of Object.entries(encryptedAttributes)) {
+    if (options.deterministic !== !keyValues) {
+      continue;
+    }
+    if (!options.deterministic && keyAttributes.includes(attribute)) {
+      throw new Error(`Key attribute ${attribute} of ${model.name} must be encrypted deterministically`);
+    }
+
+    const context = JSON.stringify([model.tableName, attribute, ...keyValues ?? []]);
+
+    codecs[attribute] = {
+      encode: value => encryptValue(options, context, value),
+      decode: value => decryptValue(model, attribute, options, context, value)
+    };
+  }
+  return codecs;
+}
+
+/**
+ * Encrypt the encrypted attributes of an encoded item. The item is returned as-is if the model has no encrypted
+ * attributes.
+ */
+export function encryptItem<T extends Item>(model: DynamoModel<any>, item: T): T {
+  if (!model.params.encryptedAttributes) {
+    return item;
+  }
+
+  const encrypted = encodeItem(model, item, getEncryptionCodecs(model));
+
+  return encodeItem(model, encrypted, getEncryptionCodecs(model, getStoredKey(model, encrypted) ?? error(`${model.name} item has no key`)));
+}
+
+/**
+ * Encrypt the deterministic encrypted attributes of an encoded key
+ */
+export function encryptKey(model: DynamoModel<any>, key: Item): Item {
+  return model.params.encryptedAttributes ? encodeItem(model, key, getEncryptionCodecs(model)) : key;
+}
+
+/**
+ * Encrypt the values of encoded update attributes of an item, given its stored key
+ */
+export function encryptUpdateAttributes<T>(model: DynamoModel<any>, key: Item, attributes: UpdateAttributes<T>): UpdateAttributes<T> {
+  if (!model.params.encryptedAttributes) {
+    return attributes;
+  }
+
+  return encodeUpdateAttributes(model, encodeUpdateAttributes(model, attributes, getEncryptionCodecs(model)), getEncryptionCodecs(model, key));
+}
+
+/**
+ * Encrypt the values of encoded conditions on deterministic encrypted attributes. Conditions on randomized encrypted
+ * attributes can only check whether they exist.
+ */
+export function encryptConditions<T>(model: DynamoModel<any>, conditions: ConditionSet<T>): ConditionSet<T> {
+  return model.params.encryptedAttributes ? encodeConditions(model, conditions, getEncryptionCodecs(model)) : conditions;
+}
+
+/**
+ * Decrypt the encrypted attributes of a read item in place, before decoding it. Throws a DecryptionError if a value
+ * cannot be decrypted, and if the item has randomized encrypted attributes but lacks key attributes, since the values
+ * are authenticated with the key of their item.
+ */
+export function decryptItem(model: DynamoModel<any>, item: Item) {
+  const {encryptedAttributes} = model.params;
+
+  if (!encryptedAttributes) {
+    return;
+  }
+
+  const [randomized] = Object.keys(encryptedAttributes).filter(attribute =>
+      !encryptedAttributes[attribute].deterministic && item[attribute] !== undefined && item[attribute] !== null);
+
+  if (randomized) {
+    const key = getStoredKey(model, item);
+
+    if (!key) {
+      throw new DecryptionError(model, randomized, 'the key attributes of the item were not read');
+    }
+    decodeItem(model, item, getEncryptionCodecs(model, key));
+  }
+  decodeItem(model, item, getEncryptionCodecs(model));
+}
+
+/**
+ * Get a stored value in a canonical form, which is the same for equal values, regardless of the order of their map
+ * entries and set elements
+ */
+function canonicalize(value: unknown): unknown {
+  const type = getAttributeType(value);
+
+  switch (type) {
+    case 'B':
+      return {B: Buffer.from(value as Uint8Array).toString('base64')};
+    case 'SS':
+    case 'NS':
+    case 'BS':
+      return {[type]: [...value as Set<unknown>].map(element => JSON.stringify(canonicalize(element))).sort()};
+    case 'L':
+      return (value as unknown[]).map(canonicalize);
+    case 'M':
+      return Object.keys(value as Item).filter(k => (value as Item)[k] !== undefined).sort().map(k => [k, canonicalize((value as Item)[k])]);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Compute the signature of a stored attribute value, using a key derived from the given master key. The signature
+ * authenticates the value together with the table, attribute name and key of its item.
+ */
+function computeSignature(model: DynamoModel<any>, key: Uint8Array, storedKey: Item, attribute: string, value: unknown): Buffer {
+  return createHmac('sha256', deriveKey(key, 'signature', model.tableName))
+      .update(JSON.stringify([attribute, ...getKeyValues(model, storedKey), canonicalize(value)]))
+      .digest()
+      .subarray(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Sign a stored attribute value using the current master key of the first key provider of the model. The ID of the
+ * key is stored with the signature.
+ */
+function signValue(model: DynamoModel<any>, storedKey: Item, attribute: string, value: unknown): Uint8Array {
+  const [{keyProvider}] = Object.values(model.params.encryptedAttributes!);
+  const {id, key} = keyProvider.getCurrentKey();
+  const keyId = Buffer.from(id);
+
+  return new Uint8Array(Buffer.concat([Buffer.from([keyId.length]), keyId, computeSignature(model, key, storedKey, attribute, value)]));
+}
+
+/**
+ * Verify the signature of a stored attribute value, throwing a SignatureError if it is invalid
+ */
+function verifyValue(model: DynamoModel<any>, storedKey: Item, attribute: string, value: unknown, signature: unknown) {
+  if (!(signature instanceof Uint8Array) || signature.length < 1) {
+    throw new SignatureError(model, attribute, 'malformed signature');
+  }
+
+  const data = Buffer.from(signature.buffer, signature.byteOffset, signature.length);
+  const id = data.subarray(1, 1 + data[0]).toString();
+  const mac = data.subarray(1 + data[0]);
+  const [{keyProvider}] = Object.values(model.params.encryptedAttributes!);
+  const key = keyProvider.getKey(id)?.key;
+
+  if (!key) {
+    throw new SignatureError(model, attribute, `unknown key ${id}`);
+  }
+  if (mac.length !== SIGNATURE_LENGTH || !timingSafeEqual(mac, computeSignature(model, key, storedKey, attribute, value))) {
+    throw new SignatureError(model, attribute, 'the value was modified');
+  }
+}
+
+/**
+ * Get the name of the attribute holding the signature of an attribute
+ */
+function getSignatureAttribute(attribute: string): string {
+  return `${SIGNATURE_PREFIX}${attribute}`;
+}
+
+/**
+ * Get the name of a signed attribute written by an update, or undefined if the attribute is not signed, i.e., the
+ * version attribute of the model. Nested attributes cannot be signed, since their signature depends on their parent.
+ */
+function getSignedAttribute(model: DynamoModel<any>, path: Path): string | undefined {
+  const [attribute] = path;
+
+  if (path.length > 1) {
+    throw new UnsignableUpdateError(model, path.join('.'), 'nested attributes cannot be updated');
+  }
+  return attribute !== model.params.versionAttribute ? String(attribute) : undefined;
+}
+
+/**
+ * Get the attributes which must be read along with a projection to verify the signatures of items, i.e., the key
+ * attributes and the signature attributes of the projected and key attributes, or an empty array if the model has no
+ * encrypted attributes
+ */
+export function getSignatureAttributes(model: DynamoModel<any>, projection: unknown[]): string[] {
+  if (!model.params.encryptedAttributes) {
+    return [];
+  }
+
+  const keyAttributes: string[] = model.params.keyAttributes ?? [];
+  const attributes = [...new Set([...projection as string[], ...keyAttributes])];
+
+  return [...keyAttributes, ...attributes.map(getSignatureAttribute)];
+}
+
+/**
+ * Sign the attributes of an encoded and encrypted item, adding their signature attributes. The version attribute, which
+ * is incremented by updates, is not signed. The item is returned as-is if the model has no encrypted attributes.
+ */
+export function signItem<T extends Item>(model: DynamoModel<any>, item: T): T {
+  if (!model.params.encryptedAttributes) {
+    return item;
+  }
+
+  const storedKey = getStoredKey(model, item) ?? error(`${model.name} item has no key`);
+  const signatures: Item = {};
+
+  for (const [attribute, value] of Object.entries(item)) {
+    if (value !== undefined && attribute !== model.params.versionAttribute) {
+      signatures[getSignatureAttribute(attribute)] = signValue(model, storedKey, attribute, value);
+    }
+  }
+  return {...item, ...signatures};
+}
+
+/**
+ * Sign the values of encoded and encrypted update attributes of an item, given its stored key, by setting or removing
+ * their signature attributes. The signatures of the key attributes are set as well, in case the update creates the
+ * item. Since the values written by update actions other than setting or removing values are not known, such actions
+ * throw an UnsignableUpdateError, except on the version attribute.
+ */
+export function signUpdateAttributes<T>(model: DynamoModel<any>, key: Item, attributes: UpdateAttributes<T>): UpdateAttributes<T> {
+  if (!model.params.encryptedAttributes) {
+    return attributes;
+  }
+
+  // Parse the built update to obtain the values written by each action
+  const attr: ExpressionAttributes = {};
+  const expression = buildUpdateExpression(attributes, attr);
+  const update = expression ? parseUpdate(expression, new ExpressionContext(attr)) : undefined;
+  const signatures: Item = {};
+
+  for (const [attribute, value] of Object.entries(key)) {
+    signatures[getSignatureAttribute(attribute)] = signValue(model, key, attribute, value);
+  }
+
+  for (const {path, value} of update?.set ?? []) {
+    const attribute = getSignedAttribute(model, path);
+
+    if (attribute === undefined) {
+      continue;
+    }
+    if (value.type !== 'operand' || value.operand.type !== 'value') {
+      throw new UnsignableUpdateError(model, attribute, 'the attribute is not set to a value');
+    }
+    signatures[getSignatureAttribute(attribute)] = signValue(model, key, attribute, value.operand.value);
+  }
+
+  for (const path of update?.remove ?? []) {
+    const attribute = getSignedAttribute(model, path);
+
+    if (attribute !== undefined) {
+      signatures[getSignatureAttribute(attribute)] = UpdateAction.remove();
+    }
+  }
+
+  for (const {path} of [...update?.add ?? [], ...update?.delete ?? []]) {
+    const attribute = getSignedAttribute(model, path);
+
+    if (attribute !== undefined) {
+      throw new UnsignableUpdateError(model, attribute, 'the attribute is not set to a value');
+    }
+  }
+  return {...attributes, ...signatures};
+}
+
+/**
+ * Verify the signatures of the attributes of a read item, once it was decrypted, and remove the signature attributes,
+ * as well as key attributes which were only read to verify the item. Throws a SignatureError if the item is not signed,
+ * if an attribute was modified or added, or if a signed attribute in the projection of the item was removed. If the
+ * model allows unsigned items, attributes which are not signed are accepted, see withUnsignedItems().
+ * @param model
+ * @param storedItem The item as stored, before it was decrypted
+ * @param item The decrypted item
+ * @param [projection] The attributes included in the item, if not the full item
+ */
+export function verifyItem(model: DynamoModel<any>, storedItem: Item, item: Item, projection?: unknown[]) {
+  if (!model.params.encryptedAttributes) {
+    return;
+  }
+
+  const {versionAttribute, allowUnsignedItems} = model.params;
+  const keyAttributes: string[] = model.params.keyAttributes ?? [];
+  const storedKey = getStoredKey(model, storedItem);
+  const isSignature = (attribute: string) => attribute.startsWith(SIGNATURE_PREFIX);
+  const attributes = Object.keys(storedItem).filter(attribute => !isSignature(attribute));
+  const signedAttributes = Object.keys(storedItem).filter(isSignature).map(attribute => attribute.substring(SIGNATURE_PREFIX.length));
+
+  if (!storedKey) {
+    throw new SignatureError(model, keyAttributes.find(attr => storedItem[attr] === undefined)!, 'the key attributes of the item were not read');
+  }
+  if (signedAttributes.length === 0 && !allowUnsignedItems) {
+    throw new SignatureError(model, keyAttributes[0], 'the item is not signed');
+  }
+
+  for (const attribute of attributes) {
+    const signature = storedItem[getSignatureAttribute(attribute)];
+
+    if (attribute === versionAttribute || (signature === undefined && allowUnsignedItems)) {
+      continue;
+    }
+    if (signature === undefined) {
+      throw new SignatureError(model, attribute, 'the attribute is not signed');
+    }
+    verifyValue(model, storedKey, attribute, storedItem[attribute], signature);
+  }
+
+  for (const attribute of signedAttributes) {
+    if (storedItem[attribute] === undefined && (!projection || projection.includes(attribute))) {
+      throw new SignatureError(model, attribute, 'the attribute was removed');
+    }
+  }
+
+  Object.keys(item).filter(isSignature).forEach(attr => delete item[attr]);
+
+  if (projection) {
+    Object.keys(storedKey).filter(attr => !projection.includes(attr)).forEach(attr => delete item[attr]);
+  }
+}
@@ -5,9 +5,16 @@ import {
   ItemCollectionSizeLimitExceededException,
   ProvisionedThroughputExceededException,
   RequestLimitExceeded,
+  ResourceInUseException,
   ResourceNotFoundException,
+  TransactionCanceledException,
   TransactionConflictException
 } from '@aws-sdk/client-dynamodb';
+import {DynamoModel} from './DynamoModel';
+import {AttributeSize, MAX_ITEM_SIZE} from './itemSize';
+import {formatSchemaPath, SchemaIssue} from './schema';
+import {TableVerification} from './tables';
+import {Item, TransactionOperation} from './types';
 
 type DynamoErrors = {
   AccessDenied: DynamoDBServiceException;
@@ -16,8 +23,10 @@ type DynamoErrors = {
   ItemCollectionSizeLimitExceeded: ItemCollectionSizeLimitExceededException;
   ProvisionedThroughputExceeded: ProvisionedThroughputExceededException;
   RequestLimitExceeded: RequestLimitExceeded;
+  ResourceInUse: ResourceInUseException;
   ResourceNotFound: ResourceNotFoundException;
   ThrottlingError: DynamoDBServiceException;
+  TransactionCanceled: TransactionCanceledException;
   TransactionConflict: TransactionConflictException;
   ValidationError: DynamoDBServiceException;
 };
@@ -29,8 +38,10 @@ const DynamoErrorNames: { [P in keyof DynamoErrors]: DynamoErrors[P]['name'] } =
   ItemCollectionSizeLimitExceeded: 'ItemCollectionSizeLimitExceededException',
   ProvisionedThroughputExceeded: 'ProvisionedThroughputExceededException',
   RequestLimitExceeded: 'RequestLimitExceeded',
+  ResourceInUse: 'ResourceInUseException',
   ResourceNotFound: 'ResourceNotFoundException',
   ThrottlingError: 'ThrottlingException',
+  TransactionCanceled: 'TransactionCanceledException',
   TransactionConflict: 'TransactionConflictException',
   ValidationError: 'ValidationException'
 };
@@ -41,3 +52,243 @@ const DynamoErrorNames: { [P in keyof DynamoErrors]: DynamoErrors[P]['name'] } =
 export function isDynamoError<K extends keyof DynamoErrors>(err: any, name: K): err is DynamoErrors[K] {
   return err instanceof DynamoDBServiceException && err.name === DynamoErrorNames[name];
 }
+
+/**
+ * The reason for a single operation of a cancelled transaction
+ */
+export interface TransactionCancellationReason<T extends Item = Item> {
+  /**
+   * The model of the operation
+   */
+  model: DynamoModel<T>;
+  /**
+   * The type of operation
+   */
+  operation: TransactionOperation;
+  /**
+   * The key of the item of the operation
+   */
+  key: Partial<T>;
+  /**
+   * The cancellation reason code, e.g. 'ConditionalCheckFailed', or 'None' if the operation did not cause the
+   * cancellation
+   */
+  code: string;
+  /**
+   * The cancellation reason message
+   */
+  message?: string;
+  /**
+   * The current item, if the operation failed its conditions and it requested it using
+   * returnValuesOnConditionCheckFailure. The item is converted using the converters of the model.
+   */
+  item?: T;
+  /**
+   * The version conflict, if the operation failed its conditions and checked the version of its item, see
+   * DynamoModelBuilder.withVersionAttribute()
+   */
+  versionConflict?: VersionConflictError<T>;
+}
+
+/**
+ * A TransactionCanceledException thrown by a write transaction, containing the cancellation reason of each operation
+ * mapped to its model, operation type and key.
+ */
+export class TransactionCancelledError extends TransactionCanceledException {
+  constructor(err: TransactionCanceledException, readonly reasons: TransactionCancellationReason[]) {
+    super({
+      $metadata: err.$metadata,
+      message: err.message,
+      Message: err.Message,
+      CancellationReasons: err.CancellationReasons
+    } as any);
+    // The SDK exception constructor sets its own prototype, so restore ours to make instanceof work
+    Object.setPrototypeOf(this, TransactionCancelledError.prototype);
+  }
+
+  /**
+   * The reasons of the operations which caused the transaction to be cancelled
+   */
+  get failedReasons(): TransactionCancellationReason[] {
+    return this.reasons.filter(reason => reason.code !== 'None');
+  }
+
+  /**
+   * The version conflicts of the operations which checked the versions of their items
+   */
+  get versionConflicts(): VersionConflictError[] {
+    return this.reasons
+        .map(({versionConflict}) => versionConflict)
+        .filter((versionConflict): versionConflict is VersionConflictError => versionConflict !== undefined);
+  }
+}
+
+/**
+ * A ConditionalCheckFailedException thrown when writing an item of a model with a version attribute, if the item
+ * did not have the expected version, i.e., it was modified concurrently.
+ */
+export class VersionConflictError<T extends Item = Item> extends ConditionalCheckFailedException {
+  constructor(err: DynamoDBServiceException, readonly model: DynamoModel<T>, readonly key: Partial<T>) {
+    super({
+      $metadata: err.$metadata,
+      message: `Version conflict for ${model.name} ${JSON.stringify(key)}`
+    } as any);
+    Object.setPrototypeOf(this, VersionConflictError.prototype);
+  }
+}
+
+/**
+ * Thrown when an item written to or read from a model with a schema fails validation
+ */
+export class SchemaValidationError<T extends Item = Item> extends Error {
+  constructor(readonly model: DynamoModel<T>, readonly issues: SchemaIssue[]) {
+    super(`Invalid ${model.name} item: ${issues.map(({path, message}) => `${formatSchemaPath(path) || '(item)'}: ${message}`).join(', ')}`);
+    this.name = 'SchemaValidationError';
+    Object.setPrototypeOf(this, SchemaValidationError.prototype);
+  }
+
+  /**
+   * The paths of the invalid attributes, e.g. 'address.lines[0]'
+   */
+  get paths(): string[] {
+    return this.issues.map(({path}) => formatSchemaPath(path));
+  }
+}
+
+/**
+ * A statement of a batch which DynamoDB did not process
+ */
+export interface BatchUnprocessedItem<T extends Item = Item> {
+  /**
+   * The model of the statement
+   */
+  model: DynamoModel<T>;
+  /**
+   * The type of write command, or undefined for get statements
+   */
+  command?: 'put' | 'delete' | 'softDelete';
+  /**
+   * The key of the item of the statement
+   */
+  key: Partial<T>;
+}
+
+/**
+ * A write statement of a batch which failed its condition, i.e., a put of a versioned item whose version conflicted,
+ * or a soft delete of an item which was missing or already soft-deleted
+ */
+export interface BatchFailedItem<T extends Item = Item> extends BatchUnprocessedItem<T> {
+  /**
+   * The error of the statement, which is a VersionConflictError if the version of the item conflicted
+   */
+  error: ConditionalCheckFailedException;
+}
+
+/**
+ * Thrown by a batch statement when some of its statements are still unprocessed after the max number of attempts.
+ * Statements which failed their conditions are also listed.
+ */
+export class BatchUnprocessedItemsError extends Error {
+  constructor(readonly unprocessedItems: BatchUnprocessedItem[], readonly failedItems: BatchFailedItem[] = []) {
+    super(`Batch statement has ${unprocessedItems.length} unprocessed items after max attempts`);
+    this.name = 'BatchUnprocessedItemsError';
+    Object.setPrototypeOf(this, BatchUnprocessedItemsError.prototype);
+  }
+}
+
+/**
+ * Thrown by a batch write statement when some of its statements failed their conditions, once all other statements
+ * were processed
+ */
+export class BatchFailedItemsError extends Error {
+  constructor(readonly failedItems: BatchFailedItem[]) {
+    super(`Batch statement has ${failedItems.length} failed items: ${failedItems.map(({error}) => error.message).join(', ')}`);
+    this.name = 'BatchFailedItemsError';
+    Object.setPrototypeOf(this, BatchFailedItemsError.prototype);
+  }
+}
+
+/**
+ * Thrown when verifying tables if the table of a model does not match the model
+ */
+export class TableMismatchError extends Error {
+  constructor(readonly verifications: TableVerification[]) {
+    super(verifications.map(({model, tableName, differences}) =>
+        `Table ${tableName} does not match model ${model.name}: ${differences.map(d => d.message).join(', ')}`).join('; '));
+    this.name = 'TableMismatchError';
+    Object.setPrototypeOf(this, TableMismatchError.prototype);
+  }
+}
+
+/**
+ * Thrown when a scan or query is given a page token which is malformed, or which was not produced by the same scan or
+ * query if the client signs page tokens
+ */
+export class InvalidPageTokenError extends Error {
+  constructor(readonly reason: string) {
+    super(`Invalid page token: ${reason}`);
+    this.name = 'InvalidPageTokenError';
+    Object.setPrototypeOf(this, InvalidPageTokenError.prototype);
+  }
+}
+
+/**
+ * Thrown by find() when the key conditions don't match exactly one key of the model, or use an operator which is not
+ * supported on the matching key
+ */
+export class IndexSelectionError<T extends Item = Item> extends Error {
+  constructor(readonly model: DynamoModel<T>, readonly attributes: string[], readonly reason: string) {
+    super(`Cannot select index of ${model.name} for key conditions on [${attributes.join(', ')}]: ${reason}`);
+    this.name = 'IndexSelectionError';
+    Object.setPrototypeOf(this, IndexSelectionError.prototype);
+  }
+}
+
+/**
+ * Thrown when reading an encrypted attribute which cannot be decrypted, e.g. since its value was modified or copied
+ * from another item or attribute, or since its key is unknown
+ */
+export class DecryptionError<T extends Item = Item> extends Error {
+  constructor(readonly model: DynamoModel<T>, readonly attribute: string, readonly reason: string) {
+    super(`Cannot decrypt attribute ${attribute} of ${model.name} item: ${reason}`);
+    this.name = 'DecryptionError';
+    Object.setPrototypeOf(this, DecryptionError.prototype);
+  }
+}
+
+/**
+ * Thrown when reading an item of a model with encrypted attributes whose signature is invalid, e.g. since an attribute
+ * was modified, added or removed by another writer, or copied from another item
+ */
+export class SignatureError<T extends Item = Item> extends Error {
+  constructor(readonly model: DynamoModel<T>, readonly attribute: string, readonly reason: string) {
+    super(`Invalid signature of attribute ${attribute} of ${model.name} item: ${reason}`);
+    this.name = 'SignatureError';
+    Object.setPrototypeOf(this, SignatureError.prototype);
+  }
+}
+
+/**
+ * Thrown before updating an item of a model with encrypted attributes using an update action whose written value is
+ * not known, so that the signature of the attribute cannot be updated, e.g. adding to a number or updating a nested
+ * attribute
+ */
+export class UnsignableUpdateError<T extends Item = Item> extends Error {
+  constructor(readonly model: DynamoModel<T>, readonly attribute: string, readonly reason: string) {
+    super(`Cannot sign the update of attribute ${attribute} of ${model.name} item: ${reason}`);
+    this.name = 'UnsignableUpdateError';
+    Object.setPrototypeOf(this, UnsignableUpdateError.prototype);
+  }
+}
+
+/**
+ * Thrown before putting an item whose size exceeds the maximum item size of DynamoDB
+ */
+export class ItemTooLargeError<T extends Item = Item> extends Error {
+  constructor(readonly model: DynamoModel<T>, readonly size: number, readonly largestAttributes: AttributeSize[]) {
+    super(`${model.name} item of ${size} bytes exceeds the maximum item size of ${MAX_ITEM_SIZE} bytes, largest attributes: ` +
+        largestAttributes.map(({name, size}) => `${name} (${size} bytes)`).join(', '));
+    this.name = 'ItemTooLargeError';
+    Object.setPrototypeOf(this, ItemTooLargeError.prototype);
+  }
+}
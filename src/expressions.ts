@@ -0,0 +1,953 @@
+import {Item} from './types';
+
+/**
+ * Parsing and evaluation of DynamoDB expressions (condition, key condition, filter, update and projection
+ * expressions), used by DynamoMemoryClient to emulate DynamoDB semantics, and to sign the values written by updates.
+ * See https://docs.aws.amazon.com/amazondynamodb/latest/developerguide/Expressions.html
+ */
+
+export type ExpressionAttributes = {
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, any>;
+};
+
+export type AttributeType = 'S' | 'SS' | 'N' | 'NS' | 'B' | 'BS' | 'BOOL' | 'NULL' | 'L' | 'M';
+
+export type Path = Array<string | number>;
+
+export type Comparator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+type ConditionFunction = 'attribute_exists' | 'attribute_not_exists' | 'attribute_type' | 'begins_with' | 'contains';
+
+export type Operand =
+    {type: 'path'; path: Path} |
+    {type: 'value'; value: unknown} |
+    {type: 'size'; path: Path};
+
+export type ConditionNode =
+    {type: 'and' | 'or'; operands: [ConditionNode, ConditionNode]} |
+    {type: 'not'; operand: ConditionNode} |
+    {type: 'comparison'; comparator: Comparator; operands: [Operand, Operand]} |
+    {type: 'between'; operands: [Operand, Operand, Operand]} |
+    {type: 'in'; operands: Operand[]} |
+    {type: 'function'; name: ConditionFunction; operands: Operand[]};
+
+type SetValueNode =
+    {type: 'operand'; operand: Operand} |
+    {type: '+' | '-'; operands: [SetValueNode, SetValueNode]} |
+    {type: 'if_not_exists'; path: Path; operand: SetValueNode} |
+    {type: 'list_append'; operands: [SetValueNode, SetValueNode]};
+
+export type UpdateNode = {
+  set: Array<{path: Path; value: SetValueNode}>;
+  remove: Path[];
+  add: Array<{path: Path; value: Operand}>;
+  delete: Array<{path: Path; value: Operand}>;
+};
+
+type Token = {
+  type: 'name' | 'value' | 'identifier' | 'number' | 'symbol';
+  text: string;
+};
+
+const TOKEN_REGEX = /\s*(?:(#[A-Za-z0-9_]+)|(:[A-Za-z0-9_]+)|([A-Za-z_][A-Za-z0-9_]*)|(\d+)|(<>|<=|>=|[=<>()[\],.+-]))/y;
+const TOKEN_TYPES: Array<Token['type']> = ['name', 'value', 'identifier', 'number', 'symbol'];
+const CONDITION_FUNCTIONS = ['attribute_exists', 'attribute_not_exists', 'attribute_type', 'begins_with', 'contains'];
+const COMPARATORS = ['=', '<>', '<', '<=', '>', '>='];
+const UPDATE_CLAUSES = ['SET', 'REMOVE', 'ADD', 'DELETE'];
+
+/**
+ * An error in an expression or in the values it operates on, corresponding to a DynamoDB ValidationException
+ */
+export class ExpressionError extends Error {
+  name = 'ExpressionError';
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_REGEX.lastIndex = 0;
+
+  while (TOKEN_REGEX.lastIndex < expression.length) {
+    if (!expression.substring(TOKEN_REGEX.lastIndex).trim()) {
+      break;
+    }
+    const start = TOKEN_REGEX.lastIndex;
+    const match = TOKEN_REGEX.exec(expression);
+
+    if (!match) {
+      throw new ExpressionError(`Invalid expression: Syntax error; token: "${expression.substring(start).trim()}"`);
+    }
+    const index = match.slice(1).findIndex(group => group !== undefined);
+
+    tokens.push({type: TOKEN_TYPES[index], text: match[index + 1]});
+  }
+
+  return tokens;
+}
+
+/**
+ * Tracks which expression attribute names and values are referenced by the expressions of a request, since DynamoDB
+ * rejects requests with undefined as well as unused names and values.
+ */
+export class ExpressionContext {
+  private readonly usedNames = new Set<string>();
+  private readonly usedValues = new Set<string>();
+
+  constructor(private readonly attributes: ExpressionAttributes = {}) {
+  }
+
+  resolveName(name: string): string {
+    const resolved = this.attributes.ExpressionAttributeNames?.[name];
+
+    if (resolved === undefined) {
+      throw new ExpressionError(
+          `Invalid expression: An expression attribute name used in the document path is not defined; attribute name: ${name}`);
+    }
+    this.usedNames.add(name);
+
+    return resolved;
+  }
+
+  resolveValue(name: string): unknown {
+    const values = this.attributes.ExpressionAttributeValues ?? {};
+
+    if (!(name in values)) {
+      throw new ExpressionError(
+          `Invalid expression: An expression attribute value used in expression is not defined; attribute value: ${name}`);
+    }
+    this.usedValues.add(name);
+
+    return values[name];
+  }
+
+  /**
+   * Verify that all supplied expression attribute names and values were used
+   */
+  verify(): void {
+    const unusedNames = Object.keys(this.attributes.ExpressionAttributeNames ?? {}).filter(n => !this.usedNames.has(n));
+    const unusedValues = Object.keys(this.attributes.ExpressionAttributeValues ?? {}).filter(v => !this.usedValues.has(v));
+
+    if (unusedNames.length) {
+      throw new ExpressionError(`Value provided in ExpressionAttributeNames unused in expressions: keys: {${unusedNames.join(', ')}}`);
+    }
+    if (unusedValues.length) {
+      throw new ExpressionError(`Value provided in ExpressionAttributeValues unused in expressions: keys: {${unusedValues.join(', ')}}`);
+    }
+  }
+}
+
+class Parser {
+  private readonly tokens: Token[];
+  private pos = 0;
+
+  constructor(private readonly expression: string, private readonly context: ExpressionContext) {
+    this.tokens = tokenize(expression);
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos++];
+
+    if (!token) {
+      throw new ExpressionError(`Invalid expression: Syntax error; token: <EOF>, expression: ${this.expression}`);
+    }
+    return token;
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+
+    return token?.type === 'identifier' && token.text.toUpperCase() === keyword;
+  }
+
+  private isSymbol(symbol: string): boolean {
+    const token = this.peek();
+
+    return token?.type === 'symbol' && token.text === symbol;
+  }
+
+  private expect(symbol: string): void {
+    const token = this.next();
+
+    if (token.type !== 'symbol' || token.text !== symbol) {
+      this.unexpected(token);
+    }
+  }
+
+  private unexpected(token: Token | undefined): never {
+    throw new ExpressionError(
+        `Invalid expression: Syntax error; token: "${token?.text ?? '<EOF>'}", expression: ${this.expression}`);
+  }
+
+  private end(): void {
+    if (this.pos < this.tokens.length) {
+      this.unexpected(this.peek());
+    }
+  }
+
+  private list<R>(parse: () => R): R[] {
+    const result = [parse()];
+
+    while (this.isSymbol(',')) {
+      this.next();
+      result.push(parse());
+    }
+
+    return result;
+  }
+
+  parsePath(): Path {
+    const path: Path = [this.parsePathElement()];
+
+    for (;;) {
+      if (this.isSymbol('.')) {
+        this.next();
+        path.push(this.parsePathElement());
+      } else if (this.isSymbol('[')) {
+        this.next();
+        const token = this.next();
+
+        if (token.type !== 'number') {
+          this.unexpected(token);
+        }
+        path.push(Number(token.text));
+        this.expect(']');
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private parsePathElement(): string {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'name':
+        return this.context.resolveName(token.text);
+      case 'identifier':
+        return token.text;
+      default:
+        return this.unexpected(token);
+    }
+  }
+
+  private parseOperand(): Operand {
+    const token = this.peek();
+
+    if (token?.type === 'value') {
+      this.next();
+      return {type: 'value', value: this.context.resolveValue(token.text)};
+    }
+
+    if (token?.type === 'identifier' && token.text === 'size' && this.peek(1)?.text === '(') {
+      this.next();
+      this.expect('(');
+      const path = this.parsePath();
+      this.expect(')');
+
+      return {type: 'size', path};
+    }
+
+    return {type: 'path', path: this.parsePath()};
+  }
+
+  parseCondition(): ConditionNode {
+    let node = this.parseAnd();
+
+    while (this.isKeyword('OR')) {
+      this.next();
+      node = {type: 'or', operands: [node, this.parseAnd()]};
+    }
+
+    return node;
+  }
+
+  private parseAnd(): ConditionNode {
+    let node = this.parseNot();
+
+    while (this.isKeyword('AND')) {
+      this.next();
+      node = {type: 'and', operands: [node, this.parseNot()]};
+    }
+
+    return node;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.isKeyword('NOT')) {
+      this.next();
+      return {type: 'not', operand: this.parseNot()};
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek();
+
+    if (this.isSymbol('(')) {
+      this.next();
+      const node = this.parseCondition();
+      this.expect(')');
+
+      return node;
+    }
+
+    if (token?.type === 'identifier' && CONDITION_FUNCTIONS.includes(token.text) && this.peek(1)?.text === '(') {
+      this.next();
+      this.expect('(');
+      const operands = this.list(() => this.parseOperand());
+      this.expect(')');
+
+      return {type: 'function', name: token.text as ConditionFunction, operands};
+    }
+
+    const operand = this.parseOperand();
+
+    if (this.isKeyword('BETWEEN')) {
+      this.next();
+      const min = this.parseOperand();
+
+      if (!this.isKeyword('AND')) {
+        this.unexpected(this.peek());
+      }
+      this.next();
+
+      return {type: 'between', operands: [operand, min, this.parseOperand()]};
+    }
+
+    if (this.isKeyword('IN')) {
+      this.next();
+      this.expect('(');
+      const operands = this.list(() => this.parseOperand());
+      this.expect(')');
+
+      return {type: 'in', operands: [operand, ...operands]};
+    }
+
+    const comparator = this.next();
+
+    if (comparator.type !== 'symbol' || !COMPARATORS.includes(comparator.text)) {
+      this.unexpected(comparator);
+    }
+
+    return {type: 'comparison', comparator: comparator.text as Comparator, operands: [operand, this.parseOperand()]};
+  }
+
+  private parseSetValue(): SetValueNode {
+    const left = this.parseSetOperand();
+
+    if (this.isSymbol('+') || this.isSymbol('-')) {
+      const type = this.next().text as '+' | '-';
+
+      return {type, operands: [left, this.parseSetOperand()]};
+    }
+
+    return left;
+  }
+
+  private parseSetOperand(): SetValueNode {
+    const token = this.peek();
+
+    if (token?.type === 'identifier' && this.peek(1)?.text === '(') {
+      if (token.text === 'if_not_exists') {
+        this.next();
+        this.expect('(');
+        const path = this.parsePath();
+        this.expect(',');
+        const operand = this.parseSetValue();
+        this.expect(')');
+
+        return {type: 'if_not_exists', path, operand};
+      }
+      if (token.text === 'list_append') {
+        this.next();
+        this.expect('(');
+        const first = this.parseSetValue();
+        this.expect(',');
+        const second = this.parseSetValue();
+        this.expect(')');
+
+        return {type: 'list_append', operands: [first, second]};
+      }
+    }
+
+    return {type: 'operand', operand: this.parseOperand()};
+  }
+
+  parseUpdate(): UpdateNode {
+    const update: UpdateNode = {set: [], remove: [], add: [], delete: []};
+    const clauses = new Set<string>();
+
+    while (this.peek()) {
+      const clause = this.next();
+      const type = clause.text.toUpperCase();
+
+      if (clause.type !== 'identifier' || !UPDATE_CLAUSES.includes(type)) {
+        this.unexpected(clause);
+      }
+      if (clauses.has(type)) {
+        throw new ExpressionError(`Invalid UpdateExpression: The "${type}" section can only be used once in an update expression;`);
+      }
+      clauses.add(type);
+
+      switch (type) {
+        case 'SET':
+          update.set.push(...this.list(() => {
+            const path = this.parsePath();
+            this.expect('=');
+
+            return {path, value: this.parseSetValue()};
+          }));
+          break;
+
+        case 'REMOVE':
+          update.remove.push(...this.list(() => this.parsePath()));
+          break;
+
+        case 'ADD':
+        case 'DELETE':
+          update[type === 'ADD' ? 'add' : 'delete'].push(...this.list(() => ({
+            path: this.parsePath(),
+            value: this.parseOperand()
+          })));
+          break;
+      }
+    }
+
+    return update;
+  }
+
+  parseProjection(): Path[] {
+    return this.list(() => this.parsePath());
+  }
+
+  static parse<R>(expression: string, context: ExpressionContext, parse: (parser: Parser) => R): R {
+    const parser = new Parser(expression, context);
+    const result = parse(parser);
+
+    parser.end();
+
+    return result;
+  }
+}
+
+export function parseCondition(expression: string, context: ExpressionContext): ConditionNode {
+  return Parser.parse(expression, context, parser => parser.parseCondition());
+}
+
+export function parseUpdate(expression: string, context: ExpressionContext): UpdateNode {
+  const update = Parser.parse(expression, context, parser => parser.parseUpdate());
+  const paths = [
+    ...update.set.map(a => a.path),
+    ...update.remove,
+    ...update.add.map(a => a.path),
+    ...update.delete.map(a => a.path)
+  ];
+
+  for (let i = 0; i < paths.length; i++) {
+    for (let j = i + 1; j < paths.length; j++) {
+      const [a, b] = paths[i].length < paths[j].length ? [paths[i], paths[j]] : [paths[j], paths[i]];
+
+      if (a.every((element, index) => element === b[index])) {
+        throw new ExpressionError(
+            `Invalid UpdateExpression: Two document paths overlap with each other; must remove or rewrite one of these paths; path one: [${paths[i].join(', ')}], path two: [${paths[j].join(', ')}]`);
+      }
+    }
+  }
+
+  return update;
+}
+
+export function parseProjection(expression: string, context: ExpressionContext): Path[] {
+  return Parser.parse(expression, context, parser => parser.parseProjection());
+}
+
+function isBinary(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
+
+/**
+ * Get the DynamoDB type of a document client value
+ */
+export function getAttributeType(value: unknown): AttributeType | undefined {
+  if (value === undefined) {
+    return undefined;
+  } else if (value === null) {
+    return 'NULL';
+  } else if (typeof value === 'string') {
+    return 'S';
+  } else if (typeof value === 'number' || typeof value === 'bigint') {
+    return 'N';
+  } else if (typeof value === 'boolean') {
+    return 'BOOL';
+  } else if (isBinary(value)) {
+    return 'B';
+  } else if (value instanceof Set) {
+    const [first] = value;
+
+    return `${getAttributeType(first)}S` as AttributeType;
+  } else if (Array.isArray(value)) {
+    return 'L';
+  }
+
+  return 'M';
+}
+
+/**
+ * Compare two scalar values of the same type (S, N or B) the same way DynamoDB does, i.e., numbers by value and
+ * strings and binaries by their UTF-8 bytes.
+ * @return a negative number, zero or a positive number, or undefined if the values are not comparable
+ */
+export function compareValues(a: unknown, b: unknown): number | undefined {
+  const type = getAttributeType(a);
+
+  if (type !== getAttributeType(b)) {
+    return undefined;
+  }
+
+  switch (type) {
+    case 'N':
+      return Number(a) - Number(b);
+    case 'S':
+      return Buffer.compare(Buffer.from(a as string), Buffer.from(b as string));
+    case 'B':
+      return Buffer.compare(Buffer.from(a as Uint8Array), Buffer.from(b as Uint8Array));
+  }
+}
+
+/**
+ * Check if two document client values are equal
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  const type = getAttributeType(a);
+
+  if (type !== getAttributeType(b)) {
+    return false;
+  }
+
+  switch (type) {
+    case 'S':
+    case 'N':
+    case 'B':
+      return compareValues(a, b) === 0;
+    case 'SS':
+    case 'NS':
+    case 'BS': {
+      const s1 = [...a as Set<unknown>];
+      const s2 = [...b as Set<unknown>];
+
+      return s1.length === s2.length && s1.every(x => s2.some(y => valuesEqual(x, y)));
+    }
+    case 'L': {
+      const l1 = a as unknown[];
+      const l2 = b as unknown[];
+
+      return l1.length === l2.length && l1.every((x, i) => valuesEqual(x, l2[i]));
+    }
+    case 'M': {
+      const m1 = a as Item;
+      const m2 = b as Item;
+      const keys = Object.keys(m1);
+
+      return keys.length === Object.keys(m2).length && keys.every(k => k in m2 && valuesEqual(m1[k], m2[k]));
+    }
+    default:
+      return a === b;
+  }
+}
+
+/**
+ * Get the value at the given path of an item, or undefined if it does not exist
+ */
+export function getPath(item: unknown, path: Path): unknown {
+  let value: any = item;
+
+  for (const element of path) {
+    if (typeof element === 'number' ? !Array.isArray(value) : getAttributeType(value) !== 'M') {
+      return undefined;
+    }
+    value = value[element];
+  }
+
+  return value;
+}
+
+function getSize(value: unknown): number | undefined {
+  switch (getAttributeType(value)) {
+    case 'S':
+      return (value as string).length;
+    case 'B':
+      return (value as Uint8Array).length;
+    case 'SS':
+    case 'NS':
+    case 'BS':
+      return (value as Set<unknown>).size;
+    case 'L':
+      return (value as unknown[]).length;
+    case 'M':
+      return Object.keys(value as Item).length;
+  }
+}
+
+function evaluateOperand(operand: Operand, item: Item): unknown {
+  switch (operand.type) {
+    case 'path':
+      return getPath(item, operand.path);
+    case 'value':
+      return operand.value;
+    case 'size':
+      return getSize(getPath(item, operand.path));
+  }
+}
+
+function compare(comparator: Comparator, a: unknown, b: unknown): boolean {
+  if (a === undefined || b === undefined) {
+    return comparator === '<>' && (a !== undefined || b !== undefined);
+  }
+
+  switch (comparator) {
+    case '=':
+      return valuesEqual(a, b);
+    case '<>':
+      return !valuesEqual(a, b);
+  }
+
+  const result = compareValues(a, b);
+
+  if (result === undefined) {
+    return false;
+  }
+
+  switch (comparator) {
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+  }
+}
+
+function evaluateFunction(name: ConditionFunction, operands: Operand[], item: Item): boolean {
+  const [first, second] = operands;
+  const pathOperand = () => {
+    if (first?.type !== 'path') {
+      throw new ExpressionError(`Invalid ConditionExpression: Operator or function requires a document path; operator or function: ${name}`);
+    }
+    return first.path;
+  };
+  const requireOperands = (count: number) => {
+    if (operands.length !== count) {
+      throw new ExpressionError(`Invalid ConditionExpression: Incorrect number of operands for operator or function; operator or function: ${name}, number of operands: ${operands.length}`);
+    }
+  };
+
+  switch (name) {
+    case 'attribute_exists':
+      requireOperands(1);
+      return getPath(item, pathOperand()) !== undefined;
+
+    case 'attribute_not_exists':
+      requireOperands(1);
+      return getPath(item, pathOperand()) === undefined;
+
+    case 'attribute_type':
+      requireOperands(2);
+      return getAttributeType(getPath(item, pathOperand())) === evaluateOperand(second, item);
+
+    case 'begins_with': {
+      requireOperands(2);
+      const value = evaluateOperand(first, item);
+      const prefix = evaluateOperand(second, item);
+
+      if (typeof value === 'string' && typeof prefix === 'string') {
+        return value.startsWith(prefix);
+      }
+      if (isBinary(value) && isBinary(prefix)) {
+        return Buffer.from(value).subarray(0, prefix.length).equals(Buffer.from(prefix));
+      }
+      return false;
+    }
+
+    case 'contains': {
+      requireOperands(2);
+      const value = evaluateOperand(first, item);
+      const operand = evaluateOperand(second, item);
+
+      if (typeof value === 'string') {
+        return typeof operand === 'string' && value.includes(operand);
+      }
+      if (value instanceof Set || Array.isArray(value)) {
+        return [...value].some(element => valuesEqual(element, operand));
+      }
+      return false;
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed condition against an item
+ */
+export function evaluateCondition(node: ConditionNode, item: Item): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluateCondition(node.operands[0], item) && evaluateCondition(node.operands[1], item);
+    case 'or':
+      return evaluateCondition(node.operands[0], item) || evaluateCondition(node.operands[1], item);
+    case 'not':
+      return !evaluateCondition(node.operand, item);
+    case 'comparison': {
+      const [a, b] = node.operands.map(operand => evaluateOperand(operand, item));
+
+      return compare(node.comparator, a, b);
+    }
+    case 'between': {
+      const [value, min, max] = node.operands.map(operand => evaluateOperand(operand, item));
+      const minMax = compareValues(min, max);
+
+      if (minMax !== undefined && minMax > 0) {
+        throw new ExpressionError('Invalid ConditionExpression: The BETWEEN operator requires upper bound to be greater than or equal to lower bound');
+      }
+      return compare('>=', value, min) && compare('<=', value, max);
+    }
+    case 'in': {
+      const [value, ...values] = node.operands.map(operand => evaluateOperand(operand, item));
+
+      return values.some(v => compare('=', value, v));
+    }
+    case 'function':
+      return evaluateFunction(node.name, node.operands, item);
+  }
+}
+
+/**
+ * Get all top-level attribute names referenced by a condition
+ */
+export function getConditionAttributes(node: ConditionNode): string[] {
+  const operandAttributes = (operands: Operand[]) => operands
+      .filter(operand => operand.type !== 'value')
+      .map(operand => String((operand as {path: Path}).path[0]));
+
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return [...getConditionAttributes(node.operands[0]), ...getConditionAttributes(node.operands[1])];
+    case 'not':
+      return getConditionAttributes(node.operand);
+    default:
+      return operandAttributes(node.operands);
+  }
+}
+
+/**
+ * Clone a document client value. Sets, lists and maps are copied recursively.
+ */
+export function cloneValue<V>(value: V): V {
+  if (value instanceof Set) {
+    return new Set(value) as any;
+  } else if (isBinary(value)) {
+    return Uint8Array.from(value) as any;
+  } else if (Array.isArray(value)) {
+    return value.map(cloneValue) as any;
+  } else if (value !== null && typeof value === 'object') {
+    const result: Item = {};
+
+    for (const [k, v] of Object.entries(value)) {
+      result[k] = cloneValue(v);
+    }
+    return result as any;
+  }
+  return value;
+}
+
+function invalidPath(): never {
+  throw new ExpressionError('The document path provided in the update expression is invalid for update');
+}
+
+function setPath(item: Item, path: Path, value: unknown): void {
+  const parent = getPath(item, path.slice(0, -1));
+  const element = path[path.length - 1];
+
+  if (typeof element === 'number') {
+    if (!Array.isArray(parent)) {
+      invalidPath();
+    }
+    parent[Math.min(element, parent.length)] = value;
+  } else {
+    if (getAttributeType(parent) !== 'M') {
+      invalidPath();
+    }
+    (parent as Item)[element] = value;
+  }
+}
+
+function removePath(item: Item, path: Path): void {
+  const parent = getPath(item, path.slice(0, -1));
+  const element = path[path.length - 1];
+
+  if (typeof element === 'number') {
+    if (Array.isArray(parent) && element < parent.length) {
+      parent.splice(element, 1);
+    }
+  } else if (getAttributeType(parent) === 'M') {
+    delete (parent as Item)[element];
+  }
+}
+
+function evaluateSetValue(node: SetValueNode, item: Item): unknown {
+  switch (node.type) {
+    case 'operand': {
+      const value = evaluateOperand(node.operand, item);
+
+      if (value === undefined) {
+        throw new ExpressionError('The provided expression refers to an attribute that does not exist in the item');
+      }
+      return value;
+    }
+    case '+':
+    case '-': {
+      const [a, b] = node.operands.map(operand => evaluateSetValue(operand, item));
+
+      if (typeof a !== 'number' || typeof b !== 'number') {
+        throw new ExpressionError(`An operand in the update expression has an incorrect data type`);
+      }
+      return node.type === '+' ? a + b : a - b;
+    }
+    case 'if_not_exists': {
+      const value = getPath(item, node.path);
+
+      return value !== undefined ? value : evaluateSetValue(node.operand, item);
+    }
+    case 'list_append': {
+      const [a, b] = node.operands.map(operand => evaluateSetValue(operand, item));
+
+      if (!Array.isArray(a) || !Array.isArray(b)) {
+        throw new ExpressionError(`An operand in the update expression has an incorrect data type`);
+      }
+      return [...a, ...b];
+    }
+  }
+}
+
+function compareRemovePaths(a: Path, b: Path): number {
+  // Remove list elements with higher indices first so that removals don't shift the indices of other removals
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return typeof a[i] === 'number' && typeof b[i] === 'number' ? (b[i] as number) - (a[i] as number) : 0;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Apply a parsed update to an item.
+ * All operands are evaluated against the item as it was before the update, like DynamoDB does.
+ * @return the updated item, which is a modified copy of the given item
+ */
+export function applyUpdate(update: UpdateNode, item: Item): Item {
+  const result = cloneValue(item);
+  const setValues = update.set.map(({path, value}) => ({path, value: evaluateSetValue(value, item)}));
+  const addValues = update.add.map(({path, value}) => ({path, value: evaluateOperand(value, item)}));
+  const deleteValues = update.delete.map(({path, value}) => ({path, value: evaluateOperand(value, item)}));
+
+  for (const {path, value} of setValues) {
+    setPath(result, path, cloneValue(value));
+  }
+
+  for (const path of [...update.remove].sort(compareRemovePaths)) {
+    removePath(result, path);
+  }
+
+  for (const {path, value} of addValues) {
+    const existing = getPath(result, path);
+
+    if (typeof value === 'number' && (existing === undefined || typeof existing === 'number')) {
+      setPath(result, path, (existing ?? 0) + value);
+    } else if (value instanceof Set && (existing === undefined || getAttributeType(existing) === getAttributeType(value))) {
+      const set = new Set(existing as Set<unknown> | undefined);
+      value.forEach(v => [...set].some(e => valuesEqual(e, v)) || set.add(v));
+      setPath(result, path, set);
+    } else {
+      throw new ExpressionError('An operand in the update expression has an incorrect data type');
+    }
+  }
+
+  for (const {path, value} of deleteValues) {
+    const existing = getPath(result, path);
+
+    if (!(value instanceof Set) || (existing !== undefined && getAttributeType(existing) !== getAttributeType(value))) {
+      throw new ExpressionError('An operand in the update expression has an incorrect data type');
+    }
+    if (existing instanceof Set) {
+      const set = new Set([...existing].filter(e => ![...value].some(v => valuesEqual(e, v))));
+
+      if (set.size) {
+        setPath(result, path, set);
+      } else {
+        removePath(result, path);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get all top-level attribute names modified by an update
+ */
+export function getUpdateAttributes(update: UpdateNode): string[] {
+  return [
+    ...update.set.map(a => a.path),
+    ...update.remove,
+    ...update.add.map(a => a.path),
+    ...update.delete.map(a => a.path),
+  ].map(path => String(path[0]));
+}
+
+/**
+ * Apply a projection to an item, returning a new item containing only the given paths
+ */
+export function applyProjection(paths: Path[], item: Item): Item {
+  const result: Item = {};
+  const lists = new Set<unknown[]>();
+
+  for (const path of paths) {
+    const value = getPath(item, path);
+
+    if (value === undefined) {
+      continue;
+    }
+
+    let target: any = result;
+
+    path.forEach((element, i) => {
+      if (i === path.length - 1) {
+        target[element] = cloneValue(value);
+      } else {
+        if (target[element] === undefined) {
+          target[element] = typeof path[i + 1] === 'number' ? [] : {};
+        }
+        target = target[element];
+      }
+      if (Array.isArray(target)) {
+        lists.add(target);
+      }
+    });
+  }
+
+  // Projected list elements are returned in order, without gaps
+  for (const list of lists) {
+    const elements = list.filter(element => element !== undefined);
+
+    list.length = 0;
+    list.push(...elements);
+  }
+
+  return result;
+}
@@ -3,8 +3,36 @@ import {DynamoClient} from './DynamoClient';
 export * from './types';
 export * from './errors';
 export * from './DynamoModel';
+export * from './DynamoTable';
 export * from './DynamoTransaction';
 export * from './DynamoBatch';
+export * from './DynamoMemoryClient';
+export * from './ItemStream';
+export * from './schema';
+export {AttributeCodec, Codecs} from './codecs';
+export {CompressionAlgorithm, CompressionOptions} from './compression';
+export {
+  EncryptedAttribute,
+  EncryptionKey,
+  EncryptionOptions,
+  InMemoryKeyProvider,
+  KeyProvider,
+  SIGNATURE_PREFIX
+} from './encryption';
+export {isTtlDeleteRecord, StreamRecordIdentity} from './ttl';
+export {AttributeSize, getAttributeSizes, getItemSize, MAX_ITEM_SIZE} from './itemSize';
+export {
+  BillingMode,
+  CloudFormationTableResource,
+  IndexOptions,
+  IndexProjection,
+  KeyAttributeType,
+  ProvisionedThroughput,
+  TableDifference,
+  TableOptions,
+  TableVerification,
+  TerraformTableResource
+} from './tables';
 
 export {ConditionAttributes, ConditionSet, Condition, CompositeCondition, UpdateAttributes, UpdateAction, SetValue, Operand} from 'dynamodb-expressions';
 
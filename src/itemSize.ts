@@ -0,0 +1,61 @@
+import {getAttributeType} from './expressions';
+import {Item} from './types';
+
+/**
+ * The maximum size of an item in DynamoDB, in bytes
+ */
+export const MAX_ITEM_SIZE = 400 * 1024;
+
+/**
+ * The size of an attribute of an item, including its name
+ */
+export interface AttributeSize {
+  name: string;
+  size: number;
+}
+
+/**
+ * Get the size of a stored value according to the DynamoDB item size rules
+ */
+export function getValueSize(value: unknown): number {
+  switch (getAttributeType(value)) {
+    case 'S':
+      return Buffer.byteLength(value as string);
+    case 'N': {
+      const digits = String(value).replace(/^-/, '').replace(/e.*$/i, '').replace('.', '').replace(/^0+|0+$/g, '');
+
+      return Math.ceil(digits.length / 2) + 1;
+    }
+    case 'B':
+      return (value as Uint8Array).length;
+    case 'SS':
+    case 'NS':
+    case 'BS':
+      return [...value as Set<unknown>].reduce((size: number, element) => size + getValueSize(element), 0);
+    case 'L':
+      return (value as unknown[]).reduce((size: number, element) => size + 1 + getValueSize(element), 3);
+    case 'M':
+      return Object.entries(value as Item).reduce((size, [k, v]) => size + Buffer.byteLength(k) + 1 + getValueSize(v), 3);
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Get the size of a stored item according to the DynamoDB item size rules, i.e., the sum of the lengths of its
+ * attribute names and the sizes of its values
+ */
+export function getItemSize(item: Item): number {
+  return Object.entries(item).reduce((size, [k, v]) => size + Buffer.byteLength(k) + getValueSize(v), 0);
+}
+
+/**
+ * Get the sizes of the attributes of a stored item, largest first. Undefined attributes, which are not stored, are
+ * excluded.
+ */
+export function getAttributeSizes(item: Item): AttributeSize[] {
+  return Object.entries(item)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => ({name, size: Buffer.byteLength(name) + getValueSize(value)}))
+      .sort((a, b) => b.size - a.size);
+}
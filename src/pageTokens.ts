@@ -0,0 +1,121 @@
+import {createCipheriv, createDecipheriv, createHmac, randomBytes, timingSafeEqual} from 'crypto';
+import {buildConditionExpression, ConditionSet} from 'dynamodb-expressions';
+import {encodeConditions} from './codecs';
+import {DynamoModel} from './DynamoModel';
+import {DynamoWrapper} from './DynamoWrapper';
+import {InvalidPageTokenError} from './errors';
+import {Item} from './types';
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * The parameters of a scan or query which a page token is bound to
+ */
+interface PageTokenScopeParams {
+  indexName?: string;
+  keyConditions?: ConditionSet<any>;
+  segment?: number;
+  totalSegments?: number;
+}
+
+function deriveKey(secret: string | Uint8Array, purpose: string): Buffer {
+  return createHmac('sha256', secret).update(`dynamodb-ts-model:${purpose}`).digest();
+}
+
+function sign(secret: string | Uint8Array, scope: string, body: string): Buffer {
+  return createHmac('sha256', deriveKey(secret, 'sign')).update(scope).update('\n').update(body).digest();
+}
+
+/**
+ * Get the scope of a page token, i.e., a string identifying the model, index, key conditions and segment of the scan or
+ * query which produced it. A signed token is only valid within the same scope.
+ */
+export function getPageTokenScope(model: DynamoModel<any>, params: PageTokenScopeParams): string {
+  const {indexName, keyConditions, segment, totalSegments} = params;
+  const attr = {};
+  const keyConditionExpression = keyConditions && buildConditionExpression(encodeConditions(model, keyConditions), attr);
+
+  return JSON.stringify([model.name, model.tableName, indexName, keyConditionExpression, attr, segment, totalSegments]);
+}
+
+/**
+ * Format the last evaluated key of a page as a page token. If the client has a page token secret, the token is signed
+ * and optionally encrypted, and bound to the given scope.
+ */
+export function formatPageToken({client}: DynamoWrapper, lastKey: Item | undefined, scope: string): string | undefined {
+  if (!lastKey) {
+    return undefined;
+  }
+
+  const {pageTokenSecret: secret, encryptPageTokens} = client.options;
+  const payload = Buffer.from(JSON.stringify(lastKey));
+
+  if (!secret) {
+    return payload.toString('base64');
+  }
+
+  let body = payload;
+
+  if (encryptPageTokens) {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', deriveKey(secret, 'encrypt'), iv);
+
+    body = Buffer.concat([iv, cipher.update(payload), cipher.final(), cipher.getAuthTag()]);
+  }
+
+  const encodedBody = body.toString('base64');
+
+  return `${encodedBody}.${sign(secret, scope, encodedBody).toString('base64')}`;
+}
+
+/**
+ * Parse a page token into the key to start a scan or query from, throwing an InvalidPageTokenError if the token is
+ * malformed, or if the client has a page token secret and the token was not signed using it within the given scope.
+ */
+export function parsePageToken({client}: DynamoWrapper, pageToken: string | undefined, scope: string): Item | undefined {
+  if (pageToken === undefined) {
+    return undefined;
+  }
+
+  const {pageTokenSecret: secret, encryptPageTokens} = client.options;
+  let encodedPayload = pageToken;
+
+  if (secret) {
+    const [encodedBody, signature, ...rest] = pageToken.split('.');
+    const expected = sign(secret, scope, encodedBody);
+    const actual = Buffer.from(signature ?? '', 'base64');
+
+    if (rest.length || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new InvalidPageTokenError('invalid signature');
+    }
+    encodedPayload = encodedBody;
+  }
+
+  let payload = Buffer.from(encodedPayload, 'base64');
+
+  if (secret && encryptPageTokens) {
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', deriveKey(secret, 'encrypt'), payload.subarray(0, IV_LENGTH));
+      decipher.setAuthTag(payload.subarray(payload.length - AUTH_TAG_LENGTH));
+
+      payload = Buffer.concat([decipher.update(payload.subarray(IV_LENGTH, payload.length - AUTH_TAG_LENGTH)), decipher.final()]);
+    } catch (err) {
+      throw new InvalidPageTokenError('decryption failed');
+    }
+  }
+
+  let key: unknown;
+
+  try {
+    key = JSON.parse(payload.toString());
+  } catch (err) {
+    throw new InvalidPageTokenError('malformed token');
+  }
+
+  if (typeof key !== 'object' || key === null || Array.isArray(key)) {
+    throw new InvalidPageTokenError('malformed token');
+  }
+
+  return key as Item;
+}
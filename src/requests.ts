@@ -7,9 +7,33 @@ import {
   ScanCommandInput,
   UpdateCommandInput
 } from '@aws-sdk/lib-dynamodb';
-import {buildConditionExpression, buildUpdateExpression} from 'dynamodb-expressions';
+import {
+  buildConditionExpression,
+  buildUpdateExpression,
+  Condition,
+  ConditionSet,
+  SetValue,
+  UpdateAction,
+  UpdateAttributes
+} from 'dynamodb-expressions';
+import {encodeConditions, encodeItem, encodeUpdateAttributes} from './codecs';
+import {addCompositeAttributes, getUpdatedCompositeAttributes, resolveKey, resolveKeyConditions} from './compositeKeys';
 import {DynamoModel} from './DynamoModel';
 import {DynamoWrapper} from './DynamoWrapper';
+import {
+  encryptConditions,
+  encryptItem,
+  encryptKey,
+  encryptUpdateAttributes,
+  getSignatureAttributes,
+  signItem,
+  signUpdateAttributes
+} from './encryption';
+import {ItemTooLargeError, SchemaValidationError} from './errors';
+import {getAttributeSizes, MAX_ITEM_SIZE} from './itemSize';
+import {getPageTokenScope, parsePageToken} from './pageTokens';
+import {addDeletedCondition, getSoftDeleteAttribute, isDeleted} from './softDelete';
+import {addExpiryCondition, isExpired} from './ttl';
 import {
   ConditionCheckParams,
   DeleteParams,
@@ -24,21 +48,182 @@ import {
   ScanParams,
   UpdateParams,
 } from './types';
-import {parsePageToken} from './utils';
+import {error, pick} from './utils';
 
 export function getReturnedConsumedCapacity({client}: DynamoWrapper) {
   return client.options.enableTableMetrics ? 'INDEXES' : 'NONE';
 }
 
+/**
+ * Validate an item using the schema of the model, if any, throwing a SchemaValidationError if the item is invalid.
+ * If partial is true, the item may contain only some of the attributes of the model.
+ */
+export function validateItem(model: DynamoModel<any>, item: Item, partial = false) {
+  const {schema} = model.params;
+  const validator = partial ? schema?.partialValidator : schema?.validator;
+  const result = validator?.safeParse(item);
+
+  if (result && !result.success) {
+    throw new SchemaValidationError(model, result.error.issues);
+  }
+}
+
+/**
+ * Check the size of an encoded item before it is written, throwing an ItemTooLargeError naming its three largest
+ * attributes if it exceeds the maximum item size
+ */
+function checkItemSize(model: DynamoModel<any>, item: Item) {
+  const sizes = getAttributeSizes(item);
+  const size = sizes.reduce((sum, attribute) => sum + attribute.size, 0);
+
+  if (size > MAX_ITEM_SIZE) {
+    throw new ItemTooLargeError(model, size, sizes.slice(0, 3));
+  }
+}
+
+/**
+ * Obtain the attributes of an update which are set to plain values, i.e., which can be validated
+ */
+function getUpdatedValues(attributes: Item): Item {
+  const values: Item = {};
+
+  for (const [name, value] of Object.entries(attributes)) {
+    if (!/[.[]/.test(name) && !(value instanceof UpdateAction) && !(value instanceof SetValue)) {
+      values[name] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Add a condition on the version attribute of the model, if any, to the given conditions
+ */
+function addVersionCondition<T extends Item>(
+    model: DynamoModel<any>,
+    conditions: ConditionSet<T> | undefined,
+    version: number | undefined
+): ConditionSet<T> | undefined {
+  const {versionAttribute} = model.params;
+
+  if (!versionAttribute) {
+    return conditions;
+  }
+
+  const versionConditions = {
+    [versionAttribute]: version === undefined ? Condition.attributeNotExists() : version
+  } as ConditionSet<T>;
+
+  return conditions ? ConditionSet.and(conditions, versionConditions) : versionConditions;
+}
+
+/**
+ * Add a condition on the discriminator attribute of the model, if any, to the given filter conditions, so that scans
+ * and queries only return items of the entity type of the model
+ */
+function addDiscriminatorCondition<T extends Item>(
+    model: DynamoModel<any>,
+    conditions: ConditionSet<T> | undefined
+): ConditionSet<T> | undefined {
+  const {discriminator} = model.params;
+
+  if (!discriminator) {
+    return conditions;
+  }
+
+  const discriminatorConditions = {[discriminator.attribute]: discriminator.value} as ConditionSet<T>;
+
+  return conditions ? ConditionSet.and(conditions, discriminatorConditions) : discriminatorConditions;
+}
+
+/**
+ * Add the conditions selecting the items read by scans and queries of the model to the given filter conditions, i.e.,
+ * items of the entity type of the model, unless items of all entity types are read, which have neither expired nor
+ * been soft-deleted
+ */
+function addReadConditions<T extends Item>(
+    model: DynamoModel<any>,
+    conditions: ConditionSet<T> | undefined,
+    includeExpired?: boolean,
+    includeDeleted?: boolean,
+    allEntities = false
+): ConditionSet<T> | undefined {
+  const entityConditions = allEntities ? conditions : addDiscriminatorCondition(model, conditions);
+
+  return addDeletedCondition(model, addExpiryCondition(model, entityConditions, includeExpired), includeDeleted);
+}
+
+type ReadParams = {
+  projection?: unknown[];
+  includeExpired?: boolean;
+  includeDeleted?: boolean;
+};
+
+/**
+ * Check whether an item read by a get operation, before being decoded, is excluded from the result, since it has
+ * expired or been soft-deleted
+ */
+function isExcludedItem(model: DynamoModel<any>, item: Item, params: ReadParams): boolean {
+  return (!params.includeExpired && isExpired(model, item)) || (!params.includeDeleted && isDeleted(model, item));
+}
+
+/**
+ * Get the projection of a get operation, adding the TTL and soft delete attributes of the model unless expired or
+ * soft-deleted items are included, since they are needed to exclude items, and the attributes needed to verify the
+ * signature of the item, see getSignatureAttributes()
+ */
+export function getReadProjection(model: DynamoModel<any>, params: ReadParams): string[] | undefined {
+  const {ttlAttribute, softDeleteAttribute} = model.params;
+  const projection = params.projection as string[] | undefined;
+
+  return projection && [...new Set([
+    ...projection,
+    ...ttlAttribute && !params.includeExpired ? [ttlAttribute] : [],
+    ...softDeleteAttribute && !params.includeDeleted ? [softDeleteAttribute] : [],
+    ...getSignatureAttributes(model, projection)
+  ])];
+}
+
+/**
+ * Get an item read by a get operation, before being decoded, or undefined if it is excluded from the result, see
+ * isExcludedItem(). Attributes not in the projection of the get, which were added by getReadProjection(), are removed,
+ * except for the attributes needed to verify the signature of the item, which are removed once it is verified.
+ */
+export function getReadItem(model: DynamoModel<any>, item: Item | undefined, params: ReadParams): Item | undefined {
+  if (item && !isExcludedItem(model, item, params)) {
+    return params.projection ? pick(item, [...params.projection as string[], ...getSignatureAttributes(model, params.projection)]) : item;
+  }
+}
+
+/**
+ * Get the projection expression of a scan or query, adding the attributes needed to verify the signatures of items
+ */
+function getProjectionExpression(model: DynamoModel<any>, projection?: unknown[]): string | undefined {
+  return projection && [...new Set([...projection, ...getSignatureAttributes(model, projection)])].join(', ');
+}
+
+/**
+ * Encode a key using the codecs of the model, encrypting deterministic encrypted key attributes
+ */
+export function encodeKey(model: DynamoModel<any>, key: Item): Item {
+  return encryptKey(model, encodeItem(model, resolveKey(model, key)));
+}
+
+/**
+ * Encode conditions using the codecs of the model, encrypting values of deterministic encrypted attributes
+ */
+function encodeRequestConditions<T>(model: DynamoModel<any>, conditions: ConditionSet<T>): ConditionSet<T> {
+  return encryptConditions(model, encodeConditions(model, conditions));
+}
+
 export function createGetRequest<T extends Item, K extends KeyAttributes<T>, P extends ProjectionKeys<T2>, T2 extends T = T>(
     model: DynamoModel<T>,
     params: GetParams<T2, K, P>
 ): GetCommandInput {
-  const {key, projection, consistency} = params;
+  const {key, consistency} = params;
   return {
     TableName: model.tableName,
-    Key: key,
-    ProjectionExpression: projection?.join(', '),
+    Key: encodeKey(model, key),
+    ProjectionExpression: getReadProjection(model, params)?.join(', '),
     ConsistentRead: consistency === 'strong',
     ReturnConsumedCapacity: getReturnedConsumedCapacity(model),
   };
@@ -55,25 +240,40 @@ export function createScanRequest<T extends Item, P extends ProjectionKeys<T2>,
     pageToken,
     limit,
     projection,
-    consistency
+    consistency,
+    segment,
+    totalSegments,
+    includeExpired,
+    includeDeleted
   } = params;
+  const allFilterConditions = addReadConditions(model, filterConditions, includeExpired, includeDeleted);
 
   return {
     TableName: model.tableName,
     IndexName: indexName,
-    FilterExpression: filterConditions && buildConditionExpression(filterConditions, attr),
-    ExclusiveStartKey: parsePageToken(pageToken),
+    FilterExpression: allFilterConditions && buildConditionExpression(encodeRequestConditions(model, allFilterConditions), attr),
+    ExclusiveStartKey: parsePageToken(model, pageToken, getPageTokenScope(model, params)),
     Limit: limit,
-    ProjectionExpression: projection?.join(', '),
+    ProjectionExpression: getProjectionExpression(model, projection),
     ConsistentRead: consistency === 'strong',
+    Segment: segment,
+    TotalSegments: totalSegments,
     ReturnConsumedCapacity: getReturnedConsumedCapacity(model),
     ...attr,
   };
 }
 
+/**
+ * Create the request of a query of the model
+ * @param model
+ * @param params
+ * @param [allEntities] Whether to read items of all entity types of the table of the model, e.g. for collection
+ * queries, rather than only items of the entity type of the model
+ */
 export function createQueryRequest<T extends Item, P extends ProjectionKeys<T2>, N extends string, I extends keyof T, T2 extends T = T>(
     model: DynamoModel<T>,
-    params: QueryParams<T2, P, N, I>
+    params: QueryParams<T2, P, N, I>,
+    allEntities = false
 ): QueryCommandInput {
   const attr = {};
   const {
@@ -84,17 +284,21 @@ export function createQueryRequest<T extends Item, P extends ProjectionKeys<T2>,
     limit,
     ascending,
     pageToken,
-    consistency
+    consistency,
+    includeExpired,
+    includeDeleted
   } = params;
+  const keyAttributes = indexName ? model.params.indices[indexName] : model.params.keyAttributes;
+  const allFilterConditions = addReadConditions(model, filterConditions, includeExpired, includeDeleted, allEntities);
 
   return {
     TableName: model.tableName,
     IndexName: indexName,
-    KeyConditionExpression: buildConditionExpression(keyConditions, attr),
-    FilterExpression: filterConditions && buildConditionExpression(filterConditions, attr),
-    ExclusiveStartKey: parsePageToken(pageToken),
+    KeyConditionExpression: buildConditionExpression(encodeRequestConditions(model, resolveKeyConditions(model, keyConditions, keyAttributes)), attr),
+    FilterExpression: allFilterConditions && buildConditionExpression(encodeRequestConditions(model, allFilterConditions), attr),
+    ExclusiveStartKey: parsePageToken(model, pageToken, getPageTokenScope(model, params)),
     Limit: limit,
-    ProjectionExpression: projection?.join(', '),
+    ProjectionExpression: getProjectionExpression(model, projection),
     ScanIndexForward: ascending,
     ConsistentRead: consistency === 'strong',
     ReturnConsumedCapacity: getReturnedConsumedCapacity(model),
@@ -109,12 +313,27 @@ export function createPutRequest<T extends Item, B extends Item, T2 extends T =
   const attr = {};
   const {item, conditions} = params;
 
-  const fullItem: Extend<T, B> = Object.assign(item, ...model.params.creators.map(creator => creator(item)));
+  const fullItem: Extend<T, B> = Object.assign({}, item, ...model.params.creators.map(creator => creator(item)));
+  addCompositeAttributes(model, fullItem);
+  validateItem(model, fullItem);
+  const {versionAttribute} = model.params;
+  let allConditions = conditions;
+
+  if (versionAttribute) {
+    // The version of the put item is the expected current version, which is then incremented
+    const version = (fullItem as Item)[versionAttribute];
+
+    allConditions = addVersionCondition(model, conditions, version);
+    (fullItem as Item)[versionAttribute] = (version ?? 0) + 1;
+  }
+
+  const encodedItem = signItem(model, encryptItem(model, encodeItem(model, fullItem)));
+  checkItemSize(model, encodedItem);
 
   return {
     TableName: model.tableName,
-    Item: fullItem,
-    ConditionExpression: conditions && buildConditionExpression(conditions, attr),
+    Item: encodedItem,
+    ConditionExpression: allConditions && buildConditionExpression(encodeRequestConditions(model, allConditions), attr),
     ReturnConsumedCapacity: getReturnedConsumedCapacity(model),
     ...attr,
   };
@@ -127,15 +346,27 @@ export function createUpdateRequest<T extends Item, K extends KeyAttributes<T>,
   // Type mismatch with DynamoDB lib - update items within transactions require UpdateExpression to be present even if
   // it's undefined, it must not be absent
   const attr = {};
-  const {key, attributes, conditions, returnValues = 'all_new'} = params;
-  Object.assign(attributes, ...model.params.updaters.map(updater => updater(attributes)));
+  const {key, conditions, returnValues = 'all_new', expectedVersion} = params;
+  const {versionAttribute} = model.params;
+  const allConditions = expectedVersion === undefined ? conditions : addVersionCondition(model, conditions, expectedVersion);
+  const attributes: Item = Object.assign({}, params.attributes, ...model.params.updaters.map(updater => updater(params.attributes)));
+  const composites = getUpdatedCompositeAttributes(model, key, attributes);
+  validateItem(model, getUpdatedValues(attributes), true);
+
+  if (versionAttribute) {
+    Object.assign(attributes, {[versionAttribute]: UpdateAction.add(1)});
+  }
+
+  const encodedKey = encodeKey(model, key);
+  const encodedAttributes = encryptUpdateAttributes(model, encodedKey, encodeUpdateAttributes(model, attributes));
+  const signedAttributes = signUpdateAttributes(model, encodedKey, {...encodedAttributes, ...composites});
 
   return {
     TableName: model.tableName,
-    Key: key,
+    Key: encodedKey,
     ReturnValues: returnValues === 'all_old' ? 'ALL_OLD' : 'ALL_NEW',
-    UpdateExpression: buildUpdateExpression(attributes, attr),
-    ConditionExpression: conditions && buildConditionExpression(conditions, attr),
+    UpdateExpression: buildUpdateExpression(signedAttributes, attr),
+    ConditionExpression: allConditions && buildConditionExpression(encodeRequestConditions(model, allConditions), attr),
     ReturnConsumedCapacity: getReturnedConsumedCapacity(model),
     ...attr,
   };
@@ -146,18 +377,63 @@ export function createDeleteRequest<T extends Item, K extends KeyAttributes<T>>(
     params: DeleteParams<T, K>
 ): DeleteCommandInput {
   const attr = {};
-  const {key, conditions} = params;
+  const {key, conditions, expectedVersion} = params;
+  const allConditions = expectedVersion === undefined ? conditions : addVersionCondition(model, conditions, expectedVersion);
 
   return {
     TableName: model.tableName,
-    Key: key,
+    Key: encodeKey(model, key),
     ReturnValues: 'ALL_OLD',
-    ConditionExpression: conditions && buildConditionExpression(conditions, attr),
+    ConditionExpression: allConditions && buildConditionExpression(encodeRequestConditions(model, allConditions), attr),
     ReturnConsumedCapacity: getReturnedConsumedCapacity(model),
     ...attr,
   };
 }
 
+/**
+ * Create the update request of a soft delete, setting the soft delete attribute of the model to the current time,
+ * conditioned on the item existing and not already being soft-deleted
+ */
+export function createSoftDeleteRequest<T extends Item, K extends KeyAttributes<T>>(
+    model: DynamoModel<T, K, any>,
+    params: DeleteParams<T, K>
+): ReturnType<typeof createUpdateRequest> {
+  const softDeleteAttribute = getSoftDeleteAttribute(model);
+  const {key, conditions, expectedVersion} = params;
+  const [hashKey] = model.params.keyAttributes ?? error(`Model ${model.name} has no key`);
+  const deleteConditions = {
+    [hashKey]: Condition.attributeExists(),
+    [softDeleteAttribute]: Condition.attributeNotExists()
+  } as ConditionSet<T>;
+
+  return createUpdateRequest<T, K, any>(model, {
+    key,
+    attributes: {[softDeleteAttribute]: new Date()} as UpdateAttributes<T>,
+    conditions: conditions ? ConditionSet.and(conditions, deleteConditions) : deleteConditions,
+    expectedVersion
+  });
+}
+
+/**
+ * Create the update request restoring a soft-deleted item, removing the soft delete attribute of the model,
+ * conditioned on the item being soft-deleted
+ */
+export function createRestoreRequest<T extends Item, K extends KeyAttributes<T>>(
+    model: DynamoModel<T, K, any>,
+    params: DeleteParams<T, K>
+): ReturnType<typeof createUpdateRequest> {
+  const softDeleteAttribute = getSoftDeleteAttribute(model);
+  const {key, conditions, expectedVersion} = params;
+  const restoreConditions = {[softDeleteAttribute]: Condition.attributeExists()} as ConditionSet<T>;
+
+  return createUpdateRequest<T, K, any>(model, {
+    key,
+    attributes: {[softDeleteAttribute]: UpdateAction.remove()} as UpdateAttributes<T>,
+    conditions: conditions ? ConditionSet.and(conditions, restoreConditions) : restoreConditions,
+    expectedVersion
+  });
+}
+
 export function createConditionCheckRequest<T extends Item, K extends KeyAttributes<T>>(
     model: DynamoModel<T, K>,
     params: ConditionCheckParams<T, K>
@@ -167,8 +443,8 @@ export function createConditionCheckRequest<T extends Item, K extends KeyAttribu
 
   return {
     TableName: model.tableName,
-    Key: key,
-    ConditionExpression: conditions && buildConditionExpression(conditions, attr),
+    Key: encodeKey(model, key),
+    ConditionExpression: conditions && buildConditionExpression(encodeRequestConditions(model, conditions), attr),
     ...attr,
   };
 }
\ No newline at end of file
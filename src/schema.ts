@@ -0,0 +1,194 @@
+import {KeyAttributeType} from './tables';
+
+export type SchemaPath = Array<string | number>;
+
+/**
+ * A single schema validation failure
+ */
+export interface SchemaIssue {
+  /**
+   * The path of the invalid attribute, e.g. ['address', 'lines', 0]
+   */
+  path: SchemaPath;
+  message: string;
+}
+
+export type SchemaResult<T> = {success: true; data: T} | {success: false; error: {issues: SchemaIssue[]}};
+
+/**
+ * A validator of values of type T.
+ * Schemas created using the built-in Schema class implement this interface, but it's also compatible with zod schemas
+ * and similar libraries, so those may be used as well.
+ * Note that validators are only used to validate values; any parsed data they return is ignored.
+ */
+export interface SchemaValidator<T> {
+  safeParse(value: unknown): SchemaResult<T>;
+  /**
+   * Return a validator of objects with all properties of T optional, used to validate update attributes and projected
+   * items. If not implemented, those are not validated.
+   */
+  partial?(): SchemaValidator<Partial<T>>;
+}
+
+/**
+ * Obtain the type of values validated by a schema
+ */
+export type InferSchema<S> = S extends SchemaValidator<infer T> ? T : never;
+
+type SchemaShape = Record<string, SchemaValidator<any>>;
+
+type OptionalKeys<S extends SchemaShape> = {[P in keyof S]: undefined extends InferSchema<S[P]> ? P : never}[keyof S];
+
+type ObjectType<S extends SchemaShape> = {
+  [P in keyof ({[P in Exclude<keyof S, OptionalKeys<S>>]: 1} & {[P in OptionalKeys<S>]?: 1})]: InferSchema<S[P]>
+};
+
+type PartialShape<S extends SchemaShape> = {[P in keyof S]: SchemaValidator<InferSchema<S[P]> | undefined>};
+
+type Check = (value: unknown, path: SchemaPath, issues: SchemaIssue[]) => void;
+
+/**
+ * Format an attribute path, e.g. 'address.lines[0]'
+ */
+export function formatSchemaPath(path: SchemaPath): string {
+  return path.reduce<string>((s, p) => typeof p === 'number' ? `${s}[${p}]` : s ? `${s}.${p}` : p, '');
+}
+
+function checkValue(schema: SchemaValidator<unknown>, value: unknown, path: SchemaPath, issues: SchemaIssue[]) {
+  if (schema instanceof Schema) {
+    schema.check(value, path, issues);
+  } else {
+    const result = schema.safeParse(value);
+
+    if (!result.success) {
+      issues.push(...result.error.issues.map(issue => ({...issue, path: [...path, ...issue.path]})));
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Set) &&
+      !(value instanceof Uint8Array);
+}
+
+/**
+ * A schema built using a small built-in DSL, e.g.
+ *
+ * const personSchema = Schema.object({
+ *   id: Schema.string(),
+ *   age: Schema.number().optional(),
+ *   tags: Schema.set(Schema.string()).optional()
+ * });
+ */
+export class Schema<T> implements SchemaValidator<T> {
+  /**
+   * @param check Function checking a value, adding any issues found
+   * @param [attributeType] The DynamoDB type of values of the schema, used to infer key attribute types of tables
+   */
+  protected constructor(readonly check: Check, readonly attributeType?: KeyAttributeType) {
+  }
+
+  safeParse(value: unknown): SchemaResult<T> {
+    const issues: SchemaIssue[] = [];
+
+    this.check(value, [], issues);
+
+    return issues.length ? {success: false, error: {issues}} : {success: true, data: value as T};
+  }
+
+  /**
+   * Obtain a schema which also accepts undefined, i.e., an optional attribute
+   */
+  optional(): Schema<T | undefined> {
+    return new Schema((value, path, issues) => value === undefined || this.check(value, path, issues), this.attributeType);
+  }
+
+  private static type<T>(name: string, test: (value: unknown) => boolean, attributeType?: KeyAttributeType): Schema<T> {
+    return new Schema((value, path, issues) => test(value) || issues.push({path, message: `Expected ${name}`}),
+        attributeType);
+  }
+
+  static string(): Schema<string> {
+    return Schema.type('string', value => typeof value === 'string', 'S');
+  }
+
+  static number(): Schema<number> {
+    return Schema.type('number', value => typeof value === 'number' && isFinite(value), 'N');
+  }
+
+  static boolean(): Schema<boolean> {
+    return Schema.type('boolean', value => typeof value === 'boolean');
+  }
+
+  static binary(): Schema<Uint8Array> {
+    return Schema.type('binary', value => value instanceof Uint8Array, 'B');
+  }
+
+  static any(): Schema<any> {
+    return new Schema(() => undefined);
+  }
+
+  /**
+   * Obtain a schema accepting only the given values
+   */
+  static literal<V extends string | number | boolean | null>(...values: V[]): Schema<V> {
+    const attributeType = values.every(v => typeof v === 'string') ? 'S' :
+        values.every(v => typeof v === 'number') ? 'N' : undefined;
+
+    return Schema.type(values.map(v => JSON.stringify(v)).join(' | '), value => values.includes(value as V),
+        attributeType);
+  }
+
+  static array<T>(items: SchemaValidator<T>): Schema<T[]> {
+    return new Schema((value, path, issues) => Array.isArray(value) ?
+        value.forEach((item, i) => checkValue(items, item, [...path, i], issues)) :
+        issues.push({path, message: 'Expected array'}));
+  }
+
+  static set<T extends string | number | Uint8Array>(items: SchemaValidator<T>): Schema<Set<T>> {
+    return new Schema((value, path, issues) => value instanceof Set ?
+        [...value].forEach((item, i) => checkValue(items, item, [...path, i], issues)) :
+        issues.push({path, message: 'Expected set'}));
+  }
+
+  /**
+   * Obtain a schema for a map with arbitrary keys and values validated by the given schema
+   */
+  static record<T>(values: SchemaValidator<T>): Schema<Record<string, T>> {
+    return new Schema((value, path, issues) => isObject(value) ?
+        Object.entries(value).forEach(([k, v]) => checkValue(values, v, [...path, k], issues)) :
+        issues.push({path, message: 'Expected map'}));
+  }
+
+  /**
+   * Obtain a schema for a map with the given attributes. Attributes not in the shape are allowed.
+   */
+  static object<S extends SchemaShape>(shape: S): ObjectSchema<S> {
+    return new ObjectSchema(shape);
+  }
+
+  static union<S extends Array<SchemaValidator<any>>>(...schemas: S): Schema<InferSchema<S[number]>> {
+    return new Schema((value, path, issues) => schemas.some(schema => schema.safeParse(value).success) ||
+        issues.push({path, message: 'Value does not match any of the union types'}));
+  }
+}
+
+export class ObjectSchema<S extends SchemaShape> extends Schema<ObjectType<S>> {
+  constructor(readonly shape: S) {
+    super((value, path, issues) => isObject(value) ?
+        Object.entries(shape).forEach(([k, schema]) => checkValue(schema, value[k], [...path, k], issues)) :
+        issues.push({path, message: 'Expected map'}));
+  }
+
+  partial(): ObjectSchema<PartialShape<S>> {
+    const shape: SchemaShape = {};
+
+    for (const [k, schema] of Object.entries(this.shape)) {
+      shape[k] = schema instanceof Schema ? schema.optional() : {
+        safeParse: value => value === undefined ? {success: true, data: value} : schema.safeParse(value)
+      };
+    }
+
+    return new ObjectSchema(shape as PartialShape<S>);
+  }
+}
@@ -0,0 +1,41 @@
+import {Condition, ConditionSet} from 'dynamodb-expressions';
+import {DynamoModel} from './DynamoModel';
+import {Item} from './types';
+import {error} from './utils';
+
+/**
+ * Get the soft delete attribute of a model, throwing if the model has none
+ */
+export function getSoftDeleteAttribute(model: DynamoModel<any>): string {
+  return model.params.softDeleteAttribute ?? error(`Model ${model.name} has no soft delete attribute`);
+}
+
+/**
+ * Check whether a read item, before being decoded, has been soft-deleted according to the soft delete attribute of
+ * the model
+ */
+export function isDeleted(model: DynamoModel<any>, item: Item): boolean {
+  const {softDeleteAttribute} = model.params;
+
+  return softDeleteAttribute !== undefined && item[softDeleteAttribute] !== undefined && item[softDeleteAttribute] !== null;
+}
+
+/**
+ * Add a condition excluding soft-deleted items, if the model has a soft delete attribute, to the given filter
+ * conditions
+ */
+export function addDeletedCondition<T extends Item>(
+    model: DynamoModel<any>,
+    conditions: ConditionSet<T> | undefined,
+    includeDeleted = false
+): ConditionSet<T> | undefined {
+  const {softDeleteAttribute} = model.params;
+
+  if (!softDeleteAttribute || includeDeleted) {
+    return conditions;
+  }
+
+  const deletedConditions = {[softDeleteAttribute]: Condition.attributeNotExists()} as ConditionSet<T>;
+
+  return conditions ? ConditionSet.and(conditions, deletedConditions) : deletedConditions;
+}
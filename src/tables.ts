@@ -0,0 +1,440 @@
+import {
+  AttributeDefinition,
+  CreateTableCommandInput,
+  GlobalSecondaryIndex,
+  KeySchemaElement,
+  LocalSecondaryIndex,
+  Projection as IndexProjectionDefinition,
+  TableDescription,
+} from '@aws-sdk/client-dynamodb';
+import {DynamoModel} from './DynamoModel';
+import {getSignatureAttributes} from './encryption';
+import {ObjectSchema, Schema} from './schema';
+import {error} from './utils';
+
+/**
+ * The DynamoDB type of a key attribute
+ */
+export type KeyAttributeType = 'S' | 'N' | 'B';
+
+/**
+ * The attributes projected into an index: all attributes, only the key attributes, or the key attributes and the
+ * listed attributes
+ */
+export type IndexProjection = 'all' | 'keys_only' | string[];
+
+export type BillingMode = 'pay_per_request' | 'provisioned';
+
+export interface ProvisionedThroughput {
+  readCapacity: number;
+  writeCapacity: number;
+}
+
+/**
+ * Options for an index of a model, used when generating table definitions
+ */
+export interface IndexOptions {
+  /**
+   * The attributes projected into the index, default 'all'
+   */
+  projection?: IndexProjection;
+  /**
+   * Whether the index is a local secondary index, default false
+   */
+  local?: boolean;
+  /**
+   * The provisioned throughput of a global secondary index, if the billing mode is 'provisioned'. Defaults to the
+   * throughput of the table.
+   */
+  throughput?: ProvisionedThroughput;
+}
+
+/**
+ * Options for the table of a model, used when generating table definitions
+ */
+export interface TableOptions {
+  /**
+   * Types of key attributes of the table and its indices. Types not declared here are inferred from the codecs or the
+   * schema of the model, or default to 'S'.
+   */
+  attributeTypes?: Record<string, KeyAttributeType>;
+  /**
+   * Index options, as a dictionary of index names to options
+   */
+  indices?: Record<string, IndexOptions>;
+  /**
+   * The billing mode, default 'pay_per_request'
+   */
+  billingMode?: BillingMode;
+  /**
+   * The provisioned throughput of the table, required if the billing mode is 'provisioned'
+   */
+  throughput?: ProvisionedThroughput;
+  /**
+   * Name of an attribute containing expiry times in epoch seconds, enabling TTL for the table
+   */
+  ttlAttribute?: string;
+}
+
+/**
+ * The definition of a table, as a CloudFormation resource of type AWS::DynamoDB::Table
+ */
+export interface CloudFormationTableResource {
+  Type: 'AWS::DynamoDB::Table';
+  Properties: Record<string, unknown>;
+}
+
+/**
+ * The definition of a table, as a Terraform JSON configuration containing an aws_dynamodb_table resource
+ */
+export interface TerraformTableResource {
+  resource: {
+    aws_dynamodb_table: Record<string, Record<string, unknown>>;
+  };
+}
+
+function getKeySchema(keyAttributes: string[]): KeySchemaElement[] {
+  const [hashKey, rangeKey] = keyAttributes;
+
+  return [
+    {AttributeName: hashKey, KeyType: 'HASH'},
+    ...rangeKey ? [{AttributeName: rangeKey, KeyType: 'RANGE' as const}] : []
+  ];
+}
+
+function getKeyAttributeNames(keySchema: KeySchemaElement[]): string[] {
+  return [...keySchema].sort((a, b) => a.KeyType === 'HASH' ? -1 : b.KeyType === 'HASH' ? 1 : 0)
+      .map(element => element.AttributeName!);
+}
+
+/**
+ * Get the definition of the projection of an index. The signature attributes of the projected attributes of items of
+ * models with encrypted attributes are included in indices not projecting all attributes, so that items read from them
+ * can be verified.
+ */
+function getProjection(model: DynamoModel<any>, indexAttributes: string[], projection: IndexProjection = 'all'): IndexProjectionDefinition {
+  if (projection === 'all') {
+    return {ProjectionType: 'ALL'};
+  }
+
+  const attributes = projection === 'keys_only' ? [] : projection;
+  const keyAttributes = [...indexAttributes, ...model.params.keyAttributes ?? []];
+  const signatureAttributes = getSignatureAttributes(model, [...attributes, ...indexAttributes])
+      .filter(attr => !keyAttributes.includes(attr));
+
+  if (projection === 'keys_only' && signatureAttributes.length === 0) {
+    return {ProjectionType: 'KEYS_ONLY'};
+  }
+  return {ProjectionType: 'INCLUDE', NonKeyAttributes: [...attributes, ...signatureAttributes]};
+}
+
+function getThroughput(throughput: ProvisionedThroughput) {
+  return {ReadCapacityUnits: throughput.readCapacity, WriteCapacityUnits: throughput.writeCapacity};
+}
+
+/**
+ * Get the DynamoDB type of an attribute, declared in the table options or inferred from the codecs or schema of the
+ * model
+ */
+function getKeyAttributeType(model: DynamoModel<any>, attribute: string): KeyAttributeType {
+  const {table, codecs, schema} = model.params;
+  const shape = schema?.validator instanceof ObjectSchema ? schema.validator.shape : undefined;
+  const attributeSchema = shape?.[attribute];
+
+  return table?.attributeTypes?.[attribute] ??
+      codecs?.[attribute]?.attributeType ??
+      (attributeSchema instanceof Schema ? attributeSchema.attributeType : undefined) ??
+      'S';
+}
+
+function getModelKeyAttributes(model: DynamoModel<any>): string[] {
+  return model.params.keyAttributes ?? error(`Model ${model.name} has no key`);
+}
+
+/**
+ * Get the input of a CreateTable command creating the table of a model, including its indices.
+ * Note that TTL is not part of the CreateTable command, but is enabled by DynamoClient.createTables().
+ */
+export function getCreateTableInput(model: DynamoModel<any>): CreateTableCommandInput {
+  const {indices = {}, table = {}} = model.params;
+  const {billingMode = 'pay_per_request', throughput} = table;
+  const keyAttributes = getModelKeyAttributes(model);
+  const provisioned = billingMode === 'provisioned';
+  const attributes = new Set(keyAttributes);
+  const globalIndices = [];
+  const localIndices = [];
+
+  if (provisioned && !throughput) {
+    throw new Error(`Model ${model.name} has billing mode 'provisioned' but no throughput`);
+  }
+
+  for (const [indexName, indexAttributes] of Object.entries<string[]>(indices)) {
+    const {projection, local, throughput: indexThroughput = throughput} = table.indices?.[indexName] ?? {};
+    const index = {
+      IndexName: indexName,
+      KeySchema: getKeySchema(indexAttributes),
+      Projection: getProjection(model, indexAttributes, projection),
+    };
+
+    indexAttributes.forEach(attr => attributes.add(attr));
+
+    if (local) {
+      localIndices.push(index);
+    } else {
+      globalIndices.push({...index, ...provisioned ? {ProvisionedThroughput: getThroughput(indexThroughput!)} : {}});
+    }
+  }
+
+  const attributeDefinitions: AttributeDefinition[] = [...attributes].map(attr => ({
+    AttributeName: attr,
+    AttributeType: getKeyAttributeType(model, attr)
+  }));
+
+  return {
+    TableName: model.tableName,
+    AttributeDefinitions: attributeDefinitions,
+    KeySchema: getKeySchema(keyAttributes),
+    GlobalSecondaryIndexes: globalIndices.length ? globalIndices : undefined,
+    LocalSecondaryIndexes: localIndices.length ? localIndices : undefined,
+    BillingMode: provisioned ? 'PROVISIONED' : 'PAY_PER_REQUEST',
+    ProvisionedThroughput: provisioned ? getThroughput(throughput!) : undefined,
+  };
+}
+
+/**
+ * Get a CloudFormation resource of type AWS::DynamoDB::Table defining the table of a model
+ */
+export function getCloudFormationResource(model: DynamoModel<any>): CloudFormationTableResource {
+  const {ttlAttribute} = model.params.table ?? {};
+  const input = getCreateTableInput(model);
+
+  // The CreateTable input maps directly to the resource properties, except for TTL which is only part of the resource
+  const properties: Record<string, unknown> = {
+    ...input,
+    TimeToLiveSpecification: ttlAttribute ? {AttributeName: ttlAttribute, Enabled: true} : undefined
+  };
+
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === undefined) {
+      delete properties[key];
+    }
+  }
+
+  return {
+    Type: 'AWS::DynamoDB::Table',
+    Properties: properties
+  };
+}
+
+/**
+ * Get a Terraform JSON configuration with an aws_dynamodb_table resource defining the table of a model
+ * @param model
+ * @param [resourceName] Name of the Terraform resource, by default the table name with invalid characters replaced
+ */
+export function getTerraformResource(
+    model: DynamoModel<any>,
+    resourceName = model.tableName.replace(/[^a-zA-Z0-9_-]/g, '_')
+): TerraformTableResource {
+  const {ttlAttribute} = model.params.table ?? {};
+  const input = getCreateTableInput(model);
+  const [hashKey, rangeKey] = input.KeySchema!;
+  const provisioned = input.BillingMode === 'PROVISIONED';
+
+  // Local indices share the hash key of the table, so only their range key is given
+  const getIndex = (index: GlobalSecondaryIndex | LocalSecondaryIndex, local: boolean) => {
+    const [indexHashKey, indexRangeKey] = index.KeySchema!;
+    const {ProjectionType: projectionType, NonKeyAttributes: nonKeyAttributes} = index.Projection!;
+    const throughput = 'ProvisionedThroughput' in index ? index.ProvisionedThroughput : undefined;
+
+    return {
+      name: index.IndexName,
+      ...!local ? {hash_key: indexHashKey.AttributeName} : {},
+      ...indexRangeKey ? {range_key: indexRangeKey.AttributeName} : {},
+      projection_type: projectionType,
+      ...nonKeyAttributes ? {non_key_attributes: nonKeyAttributes} : {},
+      ...throughput ? {
+        read_capacity: throughput.ReadCapacityUnits,
+        write_capacity: throughput.WriteCapacityUnits
+      } : {}
+    };
+  };
+
+  const table: Record<string, unknown> = {
+    name: input.TableName,
+    billing_mode: input.BillingMode,
+    hash_key: hashKey.AttributeName,
+    ...rangeKey ? {range_key: rangeKey.AttributeName} : {},
+    ...provisioned ? {
+      read_capacity: input.ProvisionedThroughput!.ReadCapacityUnits,
+      write_capacity: input.ProvisionedThroughput!.WriteCapacityUnits
+    } : {},
+    attribute: input.AttributeDefinitions!.map(({AttributeName: name, AttributeType: type}) => ({name, type})),
+    ...input.GlobalSecondaryIndexes ? {
+      global_secondary_index: input.GlobalSecondaryIndexes.map(index => getIndex(index, false))
+    } : {},
+    ...input.LocalSecondaryIndexes ? {
+      local_secondary_index: input.LocalSecondaryIndexes.map(index => getIndex(index, true))
+    } : {},
+    ...ttlAttribute ? {ttl: {attribute_name: ttlAttribute, enabled: true}} : {},
+  };
+
+  return {
+    resource: {
+      aws_dynamodb_table: {
+        [resourceName]: table
+      }
+    }
+  };
+}
+
+/**
+ * A difference between the table of a model as declared by the model and as described by DynamoDB
+ */
+export interface TableDifference {
+  /**
+   * The kind of difference:
+   * * missingTable - the table does not exist
+   * * keySchema - the key attributes of the table or an index differ
+   * * attributeType - the type of a key attribute differs
+   * * missingIndex - an index of the model does not exist
+   * * indexType - an index is local but declared as global, or vice versa
+   * * indexProjection - the attributes projected into an index differ
+   */
+  type: 'missingTable' | 'keySchema' | 'attributeType' | 'missingIndex' | 'indexType' | 'indexProjection';
+  /**
+   * The name of the index, if the difference concerns an index
+   */
+  indexName?: string;
+  /**
+   * The name of the attribute, if the difference concerns a key attribute
+   */
+  attributeName?: string;
+  /**
+   * The value declared by the model
+   */
+  expected?: unknown;
+  /**
+   * The value of the table
+   */
+  actual?: unknown;
+  message: string;
+}
+
+/**
+ * The result of verifying the table of a model
+ */
+export interface TableVerification {
+  model: DynamoModel<any>;
+  tableName: string;
+  /**
+   * Whether the table matches the model, i.e., there are no differences
+   */
+  valid: boolean;
+  differences: TableDifference[];
+}
+
+function describeProjection(projection: IndexProjectionDefinition = {}): IndexProjection {
+  switch (projection.ProjectionType) {
+    case 'KEYS_ONLY':
+      return 'keys_only';
+    case 'INCLUDE':
+      return [...projection.NonKeyAttributes ?? []].sort();
+    default:
+      return 'all';
+  }
+}
+
+/**
+ * Compare the table of a model to its description returned by a DescribeTable command, or undefined if the table
+ * does not exist
+ */
+export function verifyTableDescription(model: DynamoModel<any>, table: TableDescription | undefined): TableVerification {
+  const differences: TableDifference[] = [];
+  const expected = getCreateTableInput(model);
+  const tableName = model.tableName;
+
+  if (!table) {
+    differences.push({type: 'missingTable', message: `Table ${tableName} does not exist`});
+    return {model, tableName, valid: false, differences};
+  }
+
+  const compareKeySchema = (expectedSchema: KeySchemaElement[], actualSchema: KeySchemaElement[] = [], indexName?: string) => {
+    const expectedKey = getKeyAttributeNames(expectedSchema);
+    const actualKey = getKeyAttributeNames(actualSchema);
+
+    if (expectedKey.join() !== actualKey.join()) {
+      differences.push({
+        type: 'keySchema',
+        indexName,
+        expected: expectedKey,
+        actual: actualKey,
+        message: `${indexName ? `Index ${indexName}` : `Table ${tableName}`} has key [${actualKey.join(', ')}], expected [${expectedKey.join(', ')}]`
+      });
+    }
+  };
+
+  compareKeySchema(expected.KeySchema!, table.KeySchema);
+
+  for (const {AttributeName: attributeName, AttributeType: expectedType} of expected.AttributeDefinitions!) {
+    const actualType = table.AttributeDefinitions?.find(d => d.AttributeName === attributeName)?.AttributeType;
+
+    // Attributes not defined by the table belong to missing indices or keys, which are reported as such
+    if (actualType && actualType !== expectedType) {
+      differences.push({
+        type: 'attributeType',
+        attributeName,
+        expected: expectedType,
+        actual: actualType,
+        message: `Attribute ${attributeName} has type ${actualType}, expected ${expectedType}`
+      });
+    }
+  }
+
+  const expectedIndices = [
+    ...(expected.GlobalSecondaryIndexes ?? []).map(index => ({index, local: false})),
+    ...(expected.LocalSecondaryIndexes ?? []).map(index => ({index, local: true}))
+  ];
+  const actualIndices = [
+    ...(table.GlobalSecondaryIndexes ?? []).map(index => ({index, local: false})),
+    ...(table.LocalSecondaryIndexes ?? []).map(index => ({index, local: true}))
+  ];
+
+  for (const {index, local} of expectedIndices) {
+    const indexName = index.IndexName!;
+    const actual = actualIndices.find(({index: i}) => i.IndexName === indexName);
+
+    if (!actual) {
+      differences.push({type: 'missingIndex', indexName, message: `Index ${indexName} does not exist`});
+      continue;
+    }
+
+    const indexType = (isLocal: boolean) => isLocal ? 'local' : 'global';
+
+    if (actual.local !== local) {
+      differences.push({
+        type: 'indexType',
+        indexName,
+        expected: indexType(local),
+        actual: indexType(actual.local),
+        message: `Index ${indexName} is ${indexType(actual.local)}, expected ${indexType(local)}`
+      });
+    }
+
+    compareKeySchema(index.KeySchema!, actual.index.KeySchema, indexName);
+
+    const expectedProjection = describeProjection(index.Projection);
+    const actualProjection = describeProjection(actual.index.Projection);
+
+    if (JSON.stringify(expectedProjection) !== JSON.stringify(actualProjection)) {
+      differences.push({
+        type: 'indexProjection',
+        indexName,
+        expected: expectedProjection,
+        actual: actualProjection,
+        message: `Index ${indexName} projects ${JSON.stringify(actualProjection)}, expected ${JSON.stringify(expectedProjection)}`
+      });
+    }
+  }
+
+  return {model, tableName, valid: !differences.length, differences};
+}
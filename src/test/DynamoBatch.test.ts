@@ -0,0 +1,138 @@
+import DynamoClient, {BatchFailedItemsError, BatchUnprocessedItemsError, VersionConflictError} from '../';
+import {Person, setup} from './models';
+
+describe('DynamoBatch', () => {
+  it('should execute large batches in chunks', async () => {
+    const {client, dc, persons} = setup();
+    const send = jest.spyOn(dc, 'send');
+    const items = Array.from({length: 120}, (_, i) => ({id: `p${i}`, name: 'Alice', age: i}));
+
+    const {items: written} = await client.batch(undefined, {concurrency: 2})
+        .put(persons, ...items.map(item => ({item})))
+        .execute();
+    expect(written.length).toBe(120);
+    expect(send).toHaveBeenCalledTimes(5);
+
+    const {items: read} = await client.batch().get(persons, ...items.map(({id}) => ({key: {id}}))).execute();
+    expect(read.map(({item}) => item).sort((a, b) => a.age - b.age)).toEqual(items);
+    expect(send).toHaveBeenCalledTimes(7);
+  });
+
+  it('should retry unprocessed statements', async () => {
+    const {client, dc, persons, orders} = setup({maxBatchItemsProcessed: 3});
+    const send = jest.spyOn(dc, 'send');
+
+    const commands = [];
+    for await (const command of client.batch(undefined, {retryDelay: 1})
+        .put(persons, ...Array.from({length: 5}, (_, i) => ({item: {id: `p${i}`, name: 'Alice', age: i}})))
+        .put(orders, {item: {customerId: 'c1', orderId: 'o1', total: 10}})
+        .executeIterator()) {
+      commands.push(command);
+    }
+    expect(commands.length).toBe(6);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(dc.getItems('persons').length).toBe(5);
+    expect(dc.getItems('orders').length).toBe(1);
+
+    const {items} = await client.batch(undefined, {retryDelay: 1})
+        .get(persons, {key: {id: 'p0'}}, {key: {id: 'p1'}}, {key: {id: 'p2'}}, {key: {id: 'p3'}})
+        .get(orders, {key: {customerId: 'c1', orderId: 'o1'}})
+        .execute();
+    expect(items.map(({model}) => model.name).sort()).toEqual(['orders', 'persons', 'persons', 'persons', 'persons']);
+  });
+
+  it('should fail after max attempts', async () => {
+    const {client, persons} = setup({maxBatchItemsProcessed: 1});
+
+    const error = await client.batch(undefined, {maxAttempts: 2, retryDelay: 1})
+        .put(persons, {item: {id: '1', name: 'Alice', age: 30}}, {item: {id: '2', name: 'Bob', age: 40}})
+        .delete(persons, {key: {id: '3'}})
+        .execute()
+        .catch(err => err);
+
+    expect(error).toBeInstanceOf(BatchUnprocessedItemsError);
+    expect(error.unprocessedItems).toEqual([{model: persons, command: 'delete', key: {id: '3'}}]);
+  });
+
+  it('should apply projections and converters and return ordered results', async () => {
+    const {client, dc, persons, orders} = setup();
+    const send = jest.spyOn(dc, 'send');
+    class LegacyPersonModel extends DynamoClient.model<Person>()
+        .withKey('id')
+        .withDefaultValues({email: 'unknown'})
+        .class() {}
+    const legacy = new LegacyPersonModel({client, name: 'persons'});
+
+    await client.batch()
+        .put(persons, {item: {id: '1', name: 'Alice', age: 30}}, {item: {id: '2', name: 'Bob', age: 40}})
+        .put(orders, {item: {customerId: 'c1', orderId: 'o1', total: 10}})
+        .execute();
+
+    const {items} = await client.batch()
+        .get(persons, {key: {id: '1'}, projection: ['name'], consistency: 'strong'}, {key: {id: '2'}, projection: ['age']})
+        .execute();
+    expect(items.map(({item}) => item)).toEqual([{name: 'Alice'}, {age: 40}]);
+    // @ts-expect-error id is not projected
+    expect(items[0].item.id).toBeUndefined();
+    expect(send.mock.calls[1][0].input).toMatchObject({
+      RequestItems: {
+        persons: {
+          ProjectionExpression: '#p0, #p1, #p2',
+          ExpressionAttributeNames: {'#p0': 'id', '#p1': 'name', '#p2': 'age'},
+          ConsistentRead: true
+        }
+      }
+    });
+
+    const results = await client.batch()
+        .get(legacy, {key: {id: '2'}}, {key: {id: '3'}})
+        .get(orders, {key: {customerId: 'c1', orderId: 'o1'}, projection: ['total']})
+        .get(legacy, {key: {id: '1'}})
+        .executeOrdered();
+    expect(results.map(({key, item}) => [key, item])).toEqual([
+      [{id: '2'}, {id: '2', name: 'Bob', age: 40, email: 'unknown'}],
+      [{id: '3'}, undefined],
+      [{customerId: 'c1', orderId: 'o1'}, {total: 10}],
+      [{id: '1'}, {id: '1', name: 'Alice', age: 30, email: 'unknown'}],
+    ]);
+  });
+
+  it('should check versions of put items', async () => {
+    const {client, dc, persons} = setup();
+    const documents = DynamoClient.model<{id: string; text: string; version?: number}>()
+        .withKey('id')
+        .withVersionAttribute('version')
+        .build({client, name: 'documents'});
+    dc.createTable(documents);
+
+    await client.batch()
+        .put(documents, {item: {id: 'd1', text: 'Hello'}}, {item: {id: 'd2', text: 'Hi'}})
+        .put(persons, {item: {id: 'p1', name: 'Alice', age: 30}})
+        .execute();
+    expect(await documents.get({key: {id: 'd1'}})).toEqual({id: 'd1', text: 'Hello', version: 1});
+
+    const items: unknown[] = [];
+    const err = await (async () => {
+      for await (const item of client.batch()
+          .put(documents, {item: {id: 'd1', text: 'Stale'}}, {item: {id: 'd2', text: 'Updated', version: 1}})
+          .put(documents, {item: {id: 'd3', text: 'New', version: 2}})
+          .put(persons, {item: {id: 'p2', name: 'Bob', age: 40}})
+          .executeIterator()) {
+        items.push(item);
+      }
+    })().catch(err => err);
+    expect(err).toBeInstanceOf(BatchFailedItemsError);
+    expect(items).toHaveLength(2);
+
+    const {failedItems} = err as BatchFailedItemsError;
+    expect(failedItems.map(({model, command, key}) => ({model, command, key}))).toEqual([
+      {model: documents, command: 'put', key: {id: 'd1'}},
+      {model: documents, command: 'put', key: {id: 'd3'}}
+    ]);
+    expect(failedItems[0].error).toBeInstanceOf(VersionConflictError);
+    expect((failedItems[1].error as VersionConflictError).key).toEqual({id: 'd3'});
+    expect(await documents.get({key: {id: 'd1'}})).toEqual({id: 'd1', text: 'Hello', version: 1});
+    expect(await documents.get({key: {id: 'd2'}})).toEqual({id: 'd2', text: 'Updated', version: 2});
+    expect(await persons.get({key: {id: 'p2'}})).toEqual({id: 'p2', name: 'Bob', age: 40});
+  });
+});
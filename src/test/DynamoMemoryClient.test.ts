@@ -0,0 +1,173 @@
+import {DeleteCommand, PutCommand, UpdateCommand} from '@aws-sdk/lib-dynamodb';
+import {Condition, ConditionSet, SetValue, UpdateAction} from 'dynamodb-expressions';
+
+import DynamoClient, {DynamoMemoryClient, DynamoTransaction, isDynamoError} from '../';
+import {PersonModel, setup} from './models';
+
+describe('DynamoMemoryClient', () => {
+  it('should put, get, update and delete items', async () => {
+    const {persons} = setup();
+
+    await persons.put({item: {id: '1', name: 'Alice', age: 30, scores: [1]}});
+    expect(await persons.get({key: {id: '1'}})).toEqual({id: '1', name: 'Alice', age: 30, scores: [1]});
+    expect(await persons.get({key: {id: '1'}, projection: ['age']})).toEqual({age: 30});
+
+    const {item} = await persons.update({
+      key: {id: '1'},
+      attributes: {
+        age: UpdateAction.add(2),
+        email: UpdateAction.set(SetValue.ifNotExists('email', 'alice@example.com')),
+        scores: UpdateAction.set(SetValue.append('scores', [2])),
+        tags: UpdateAction.add(new Set(['a', 'b'])),
+        name: UpdateAction.remove()
+      }
+    });
+    expect(item).toEqual({id: '1', age: 32, email: 'alice@example.com', scores: [1, 2], tags: new Set(['a', 'b'])});
+
+    await persons.delete({key: {id: '1'}});
+    expect(await persons.get({key: {id: '1'}})).toBeUndefined();
+  });
+
+  it('should return copies of old items', async () => {
+    const {dc, persons} = setup();
+
+    await persons.put({item: {id: '1', name: 'Alice', age: 30, scores: [1]}});
+
+    const {Attributes: put} = await dc.send(new PutCommand({TableName: 'persons', Item: {id: '1', name: 'Alice', age: 31, scores: [1]}, ReturnValues: 'ALL_OLD'}));
+    put!.name = 'Mallory';
+    const {Attributes: updated} = await dc.send(new UpdateCommand({
+      TableName: 'persons',
+      Key: {id: '1'},
+      UpdateExpression: 'SET age = :age',
+      ExpressionAttributeValues: {':age': 32},
+      ReturnValues: 'ALL_OLD'
+    }));
+    updated!.scores.push(2);
+    expect(dc.getItems('persons')).toEqual([{id: '1', name: 'Alice', age: 32, scores: [1]}]);
+
+    const {Attributes: deleted} = await dc.send(new DeleteCommand({TableName: 'persons', Key: {id: '1'}, ReturnValues: 'ALL_OLD'}));
+    expect(deleted).toEqual({id: '1', name: 'Alice', age: 32, scores: [1]});
+  });
+
+  it('should evaluate conditions', async () => {
+    const {persons} = setup();
+
+    await persons.put({item: {id: '1', name: 'Alice', age: 30}, conditions: {id: Condition.attributeNotExists()}});
+
+    const error = await persons.put({item: {id: '1', name: 'Bob', age: 40}, conditions: {id: Condition.attributeNotExists()}})
+        .catch(err => err);
+    expect(isDynamoError(error, 'ConditionalCheckFailed')).toBeTruthy();
+
+    await expect(persons.update({
+      key: {id: '1'},
+      attributes: {name: 'Bob'},
+      conditions: ConditionSet.or({age: Condition.lt(18)}, {name: Condition.beginsWith('B')})
+    })).rejects.toThrow('The conditional request failed');
+
+    await persons.update({key: {id: '1'}, attributes: {name: 'Bob'}, conditions: {age: Condition.between<number>(18, 65)}});
+    expect(await persons.get({key: {id: '1'}})).toEqual({id: '1', name: 'Bob', age: 30});
+  });
+
+  it('should query tables and indices', async () => {
+    const {orders, persons} = setup();
+
+    for (let i = 0; i < 10; i++) {
+      await orders.put({item: {customerId: 'c1', orderId: `o${i}`, total: i * 10}});
+      await persons.put({item: {id: `p${i}`, name: i % 2 ? 'Bob' : 'Alice', age: 20 + i}});
+    }
+    await orders.put({item: {customerId: 'c2', orderId: 'o0', total: 5}});
+
+    const {items, nextPageToken} = await orders.query({
+      keyConditions: {customerId: 'c1', orderId: Condition.ge('o5')},
+      ascending: false,
+      limit: 3
+    });
+    expect(items.map(item => item.orderId)).toEqual(['o9', 'o8', 'o7']);
+    expect(nextPageToken).toBeDefined();
+
+    const all = [];
+    for await (const item of orders.queryIterator({keyConditions: {customerId: 'c1'}, filterConditions: {total: Condition.gt(40)}, limit: 4})) {
+      all.push(item.orderId);
+    }
+    expect(all).toEqual(['o5', 'o6', 'o7', 'o8', 'o9']);
+
+    const {items: bobs} = await persons.query({
+      indexName: 'name-age-index',
+      keyConditions: {name: 'Bob', age: Condition.lt(25)},
+    });
+    expect(bobs.map(item => item.id)).toEqual(['p1', 'p3']);
+
+    const error = await orders.query({keyConditions: {orderId: 'o1'} as any}).catch(err => err);
+    expect(isDynamoError(error, 'ValidationError')).toBeTruthy();
+  });
+
+  it('should scan tables', async () => {
+    const {persons} = setup();
+
+    for (let i = 0; i < 5; i++) {
+      await persons.put({item: {id: `p${i}`, name: 'Alice', age: 20 + i}});
+    }
+
+    const ids = [];
+    for await (const item of persons.scanIterator({filterConditions: {age: Condition.in<number>([21, 23])}, limit: 2})) {
+      ids.push(item.id);
+    }
+    expect(ids).toEqual(['p1', 'p3']);
+  });
+
+  it('should execute batch statements', async () => {
+    const {client, dc, persons, orders} = setup();
+
+    await client.batch()
+        .put(persons, {item: {id: '1', name: 'Alice', age: 30}}, {item: {id: '2', name: 'Bob', age: 40}})
+        .put(orders, {item: {customerId: 'c1', orderId: 'o1', total: 10}})
+        .execute();
+    await client.batch().delete(persons, {key: {id: '2'}}).execute();
+
+    expect(dc.getItems('persons')).toEqual([{id: '1', name: 'Alice', age: 30}]);
+
+    const {items} = await client.batch()
+        .get(persons, {key: {id: '1'}}, {key: {id: '2'}})
+        .get(orders, {key: {customerId: 'c1', orderId: 'o1'}})
+        .execute();
+    expect(items.map(({model, item}) => [model.name, item])).toEqual([
+      ['persons', {id: '1', name: 'Alice', age: 30}],
+      ['orders', {customerId: 'c1', orderId: 'o1', total: 10}],
+    ]);
+
+    await expect(client.batch().put(persons, {item: {id: '1', name: 'A', age: 1}}, {item: {id: '1', name: 'B', age: 2}}).execute())
+        .rejects.toThrow('Provided list of item keys contains duplicates');
+  });
+
+  it('should execute transactions', async () => {
+    const {client, dc, persons, orders} = setup();
+
+    await client.transaction()
+        .put(persons, {item: {id: '1', name: 'Alice', age: 30}})
+        .put(orders, {item: {customerId: '1', orderId: 'o1', total: 10}})
+        .commit();
+
+    const transaction = client.transaction()
+        .update(persons, {key: {id: '1'}, attributes: {age: 31}})
+        .delete(orders, {key: {customerId: '1', orderId: 'o1'}, conditions: {total: Condition.gt(10)}});
+    const error = await transaction.commit().catch(err => err);
+
+    expect(DynamoTransaction.isTransactionCancelled(error)).toBeTruthy();
+    expect(error.CancellationReasons.map((r: any) => r.Code)).toEqual(['None', 'ConditionalCheckFailed']);
+    expect(transaction.conditionalCheckFailed()).toBeTruthy();
+    expect(dc.getItems('persons')).toEqual([{id: '1', name: 'Alice', age: 30}]);
+  });
+
+  it('should report missing tables and consumed capacity', async () => {
+    const {client, persons} = setup();
+    const dc = new DynamoMemoryClient();
+    const other = new PersonModel({client: new DynamoClient(dc), name: 'other'});
+
+    const error = await other.get({key: {id: '1'}}).catch(err => err);
+    expect(isDynamoError(error, 'ResourceNotFound')).toBeTruthy();
+
+    await persons.put({item: {id: '1', name: 'Alice', age: 30}});
+    await persons.get({key: {id: '1'}, consistency: 'strong'});
+    expect(client.getTableMetrics().get('persons')).toEqual({tableName: 'persons', rcu: 1, wcu: 1, cu: 2});
+  });
+});
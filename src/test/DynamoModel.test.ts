@@ -0,0 +1,352 @@
+import DynamoClient, {
+  as,
+  Condition,
+  DynamoMemoryClient,
+  IndexSelectionError,
+  InvalidPageTokenError,
+  isDynamoError,
+  SegmentPageTokens,
+  TransactionCancelledError,
+  VersionConflictError
+} from '../';
+import {Person, PersonModel, setup} from './models';
+
+type Document = {
+  id: string;
+  text: string;
+};
+
+class DocumentModel extends DynamoClient.model<Document>()
+    .withKey('id')
+    .withVersionAttribute('version')
+    .class() {}
+
+function setupDocuments() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const documents = new DocumentModel({client, name: 'documents'});
+
+  dc.createTable(documents);
+
+  return {client, documents};
+}
+
+describe('DynamoModel', () => {
+  it('should check and increment versions', async () => {
+    const {documents} = setupDocuments();
+
+    const {item} = await documents.put({item: {id: '1', text: 'a'}});
+    expect(item.version).toBe(1);
+
+    const conflicting = {id: '1', text: 'b'};
+    const error = await documents.put({item: conflicting}).catch(err => err);
+    expect(conflicting).toEqual({id: '1', text: 'b'});
+    expect(error).toBeInstanceOf(VersionConflictError);
+    expect(isDynamoError(error, 'ConditionalCheckFailed')).toBeTruthy();
+    expect(error.model).toBe(documents);
+    expect(error.key).toEqual({id: '1'});
+
+    await documents.put({item: {...item, text: 'b'}});
+    const attributes = {text: 'c'};
+    const {item: updated} = await documents.update({key: {id: '1'}, attributes, expectedVersion: 2});
+    expect(updated).toEqual({id: '1', text: 'c', version: 3});
+    expect(attributes).toEqual({text: 'c'});
+
+    await expect(documents.update({key: {id: '1'}, attributes: {text: 'd'}, expectedVersion: 2}))
+        .rejects.toBeInstanceOf(VersionConflictError);
+    await expect(documents.delete({key: {id: '1'}, expectedVersion: 1}))
+        .rejects.toBeInstanceOf(VersionConflictError);
+    await documents.delete({key: {id: '1'}, expectedVersion: 3});
+    expect(await documents.get({key: {id: '1'}})).toBeUndefined();
+  });
+
+  it('should check versions in transactions', async () => {
+    const {client, documents} = setupDocuments();
+
+    await documents.put({item: {id: '1', text: 'a'}});
+
+    const error = await client.transaction()
+        .put(documents, {item: {id: '1', text: 'b', version: 0}})
+        .commit()
+        .catch(err => err);
+    expect(error).toBeInstanceOf(TransactionCancelledError);
+    expect(error.failedReasons.map(({key, code}: any) => [key, code])).toEqual([[{id: '1'}, 'ConditionalCheckFailed']]);
+  });
+
+  it('should use the version attribute for atomic actions', async () => {
+    const {documents} = setupDocuments();
+
+    await documents.put({item: {id: '1', text: ''}});
+    await Promise.all(['a', 'b', 'c'].map(text => documents.atomicAction({key: {id: '1'}, maxAttempts: 10},
+        async ({key, item, conditions}) => documents.update({key, attributes: {text: item!.text + text}, conditions}))));
+
+    const item = await documents.get({key: {id: '1'}});
+    expect(item?.text.split('').sort().join('')).toBe('abc');
+    expect(item?.version).toBe(4);
+  });
+
+  it('should scan segments in parallel', async () => {
+    const {persons} = setup();
+    const ids = Array.from({length: 30}, (_, i) => `p${i}`);
+    await Promise.all(ids.map((id, i) => persons.put({item: {id, name: 'n', age: i}})));
+
+    const items = [];
+    for await (const item of persons.parallelScanIterator({
+      totalSegments: 4,
+      concurrency: 2,
+      limit: 3,
+      projection: ['id', 'age'],
+      filterConditions: {age: Condition.lt<number>(20)}
+    })) {
+      items.push(item);
+    }
+    expect(items.map(item => item.age).sort((a, b) => a - b)).toEqual(ids.slice(0, 20).map((_, i) => i));
+    expect(items[0]).toEqual({id: expect.any(String), age: expect.any(Number)});
+
+    // Interrupt a scan and resume it from the last reported page tokens
+    const consumed: string[] = [];
+    let pageTokens: SegmentPageTokens = [];
+    let checkpoint = 0;
+
+    for await (const item of persons.parallelScanIterator({totalSegments: 4, limit: 3, onProgress: tokens => {
+      pageTokens = tokens;
+      checkpoint = consumed.length;
+    }})) {
+      consumed.push(item.id);
+      if (consumed.length === 10) {
+        break;
+      }
+    }
+
+    const resumed = [];
+    for await (const item of persons.parallelScanIterator({totalSegments: 4, pageTokens})) {
+      resumed.push(item.id);
+    }
+    expect([...consumed.slice(0, checkpoint), ...resumed].sort()).toEqual([...ids].sort());
+
+    const scan = jest.spyOn(persons, 'scan').mockRejectedValue(new Error('Scan failed'));
+    await expect(persons.parallelScanIterator({totalSegments: 4}).toArray()).rejects.toThrow('Scan failed');
+    expect(scan).toHaveBeenCalledTimes(4);
+    await expect(persons.parallelScanIterator({totalSegments: 4, concurrency: 0}).toArray())
+        .rejects.toThrow('Expected concurrency of at least 1, got 0');
+  });
+
+  it('should count items of queries and scans', async () => {
+    const {client, persons} = setup();
+    await Promise.all(Array.from({length: 30}, (_, i) => persons.put({item: {id: `p${i}`, name: i % 2 ? 'a' : 'b', age: i}})));
+    client.clearTableMetrics();
+
+    expect(await persons.count({
+      indexName: 'name-age-index',
+      keyConditions: {name: 'a', age: Condition.ge<number>(10)},
+      limit: 4
+    })).toEqual({count: 10, scannedCount: 10});
+    expect(await persons.count({keyConditions: {id: 'p1'}})).toEqual({count: 1, scannedCount: 1});
+    expect(await persons.scanCount({filterConditions: {age: Condition.lt<number>(5)}, limit: 7}))
+        .toEqual({count: 5, scannedCount: 30});
+    expect(client.getTableMetrics().get('persons')?.rcu).toBeGreaterThan(0);
+  });
+
+  it('should fill pages with filtered items', async () => {
+    const {persons} = setup();
+    await Promise.all(Array.from({length: 30}, (_, i) => persons.put({item: {id: `p${i}`, name: i % 2 ? 'a' : 'b', age: i}})));
+
+    const ages: number[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const page = await persons.scan({
+        filterConditions: {age: Condition.ge<number>(20)},
+        projection: ['age'],
+        limit: 4,
+        pageSize: 3,
+        pageToken
+      });
+      expect(page.items.length).toBe(page.nextPageToken ? 3 : 1);
+      page.items.forEach(item => expect(Object.keys(item)).toEqual(['age']));
+      ages.push(...page.items.map(item => item.age));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+    expect(ages.sort((a, b) => a - b)).toEqual([20, 21, 22, 23, 24, 25, 26, 27, 28, 29]);
+
+    const {items, nextPageToken} = await persons.query({
+      indexName: 'name-age-index',
+      keyConditions: {name: 'a'},
+      filterConditions: {id: Condition.beginsWith('p1')},
+      limit: 2,
+      pageSize: 5,
+      maxPageRequests: 4
+    });
+    expect(items.map(item => item.age)).toEqual([1, 11, 13, 15]);
+    expect(nextPageToken).toBeDefined();
+  });
+
+  it('should sign and encrypt page tokens', async () => {
+    const {dc, persons: unsigned} = setup();
+    const client = new DynamoClient(dc, {pageTokenSecret: 'secret', encryptPageTokens: true});
+    const persons = new PersonModel({client, name: 'persons'});
+    await Promise.all(['a', 'b', 'c'].map((id, i) => persons.put({item: {id, name: 'n', age: i}})));
+
+    const query = {indexName: 'name-age-index', keyConditions: {name: 'n'}, limit: 1} as const;
+    const {nextPageToken} = await persons.query(query);
+    expect(Buffer.from(nextPageToken!.split('.')[0], 'base64').toString()).not.toContain('"id"');
+    expect((await persons.query({...query, pageToken: nextPageToken})).items).toEqual([{id: 'b', name: 'n', age: 1}]);
+
+    await expect(persons.query({...query, keyConditions: {name: 'm'}, pageToken: nextPageToken}))
+        .rejects.toBeInstanceOf(InvalidPageTokenError);
+    await expect(persons.scan({pageToken: nextPageToken})).rejects.toThrow('Invalid page token: invalid signature');
+    await expect(persons.query({...query, pageToken: `x${nextPageToken}`})).rejects.toBeInstanceOf(InvalidPageTokenError);
+
+    const {nextPageToken: unsignedToken} = await unsigned.scan({limit: 1});
+    await expect(persons.scan({pageToken: unsignedToken})).rejects.toBeInstanceOf(InvalidPageTokenError);
+    await expect(unsigned.scan({pageToken: 'foo'})).rejects.toThrow('Invalid page token: malformed token');
+  });
+
+  it('should delete items selected by a query or scan', async () => {
+    const {dc, persons} = setup();
+    await Promise.all(Array.from({length: 30}, (_, i) => persons.put({item: {id: `p${i}`, name: i < 20 ? 'a' : 'b', age: i}})));
+
+    const dryRun = await persons.deleteWhere({filterConditions: {age: Condition.lt<number>(5)}}, {dryRun: true});
+    expect(dryRun).toMatchObject({matched: 5, processed: 0, failed: 0, failures: []});
+    expect(dryRun.keys!.map(key => key.id).sort()).toEqual(['p0', 'p1', 'p2', 'p3', 'p4']);
+    expect(dc.getItems('persons')).toHaveLength(30);
+
+    const progress: unknown[] = [];
+    const result = await persons.deleteWhere(
+        {indexName: 'name-age-index', keyConditions: {name: 'a'}, limit: 15},
+        {onProgress: p => void progress.push(p)});
+    expect(result).toMatchObject({matched: 20, processed: 20, failed: 0, nextPageToken: undefined});
+    expect(progress[0]).toMatchObject({matched: 15, processed: 15, nextPageToken: expect.any(String)});
+    expect(dc.getItems('persons').map(item => item.age).sort()).toEqual([20, 21, 22, 23, 24, 25, 26, 27, 28, 29]);
+  });
+
+  it('should update items selected by a query or scan', async () => {
+    const {persons} = setup();
+    await Promise.all(Array.from({length: 10}, (_, i) => persons.put({item: {id: `p${i}`, name: 'a', age: i}})));
+
+    const result = await persons.updateWhere(
+        {filterConditions: {age: Condition.ge<number>(5)}},
+        item => ({name: `${item.name}${item.age}`}),
+        {concurrency: 3, conditions: {age: Condition.neq<number>(7)}});
+    expect(result).toMatchObject({matched: 5, processed: 4, failed: 1});
+    expect(result.failures).toEqual([{key: {id: 'p7'}, error: expect.objectContaining({name: 'ConditionalCheckFailedException'})}]);
+    expect(await persons.get({key: {id: 'p5'}})).toEqual({id: 'p5', name: 'a5', age: 5});
+    expect(await persons.get({key: {id: 'p7'}})).toEqual({id: 'p7', name: 'a', age: 7});
+
+    const {documents} = setupDocuments();
+    await documents.put({item: {id: 'd1', text: 'a'}});
+    expect(await documents.updateWhere({keyConditions: {id: 'd1'}}, {text: 'b'})).toMatchObject({processed: 1});
+    expect(await documents.get({key: {id: 'd1'}})).toEqual({id: 'd1', text: 'b', version: 2});
+  });
+
+  it('should select the index to query from key conditions', async () => {
+    const {dc, client, persons} = setup();
+    await Promise.all(Array.from({length: 5}, (_, i) => persons.put({item: {id: `p${i}`, name: 'a', age: i}})));
+
+    const byId = await persons.find({keyConditions: {id: 'p1'}});
+    expect(byId).toEqual({items: [{id: 'p1', name: 'a', age: 1}], nextPageToken: undefined, indexName: undefined});
+
+    const byName = await persons.find({keyConditions: {name: 'a', age: Condition.ge<number>(3)}, projection: ['id']});
+    const indexName: 'name-age-index' = byName.indexName;
+    expect(indexName).toBe('name-age-index');
+    expect(byName.items).toEqual([{id: 'p3'}, {id: 'p4'}]);
+
+    await expect(persons.find({keyConditions: {age: 1}}))
+        .rejects.toThrow('Cannot select index of persons for key conditions on [age]: no key matches the attributes. ' +
+            'Available keys: table key [id], name-age-index [name, age]');
+    await expect(persons.find({keyConditions: {name: Condition.beginsWith('a')}}))
+        .rejects.toThrow('operator begins_with cannot be used on hash key name, only equality');
+    await expect(persons.find({keyConditions: {name: 'a', age: Condition.in<number>([1, 2])}}))
+        .rejects.toBeInstanceOf(IndexSelectionError);
+
+    const contacts = client.model<Person>('contacts')
+        .withKey('id')
+        .withIndex('name-age-index', 'name', 'age')
+        .withIndex('name-email-index', 'name', 'email')
+        .withIndex('name-index', 'name')
+        .build();
+    dc.createTable(contacts);
+    expect((await contacts.find({keyConditions: {name: 'a'}})).indexName).toBe('name-index');
+    await expect(contacts.find({keyConditions: {name: 'a', id: 'p1'}})).rejects.toThrow('no key matches');
+
+    const ambiguous = client.model<Person>('persons')
+        .withKey('id')
+        .withIndex('name-age-index', 'name', 'age')
+        .withIndex('name-email-index', 'name', 'email')
+        .build();
+    await expect(ambiguous.find({keyConditions: {name: 'a'}}))
+        .rejects.toThrow('conditions are ambiguous, matching indices name-age-index, name-email-index');
+  });
+
+  it('should type and convert items read from projected indices', async () => {
+    const dc = new DynamoMemoryClient();
+    const client = new DynamoClient(dc);
+    const projections: unknown[] = [];
+    const products = client.model<{id: string; category: string; price: number; name: string; description: string}>('products')
+        .withKey('id')
+        .withIndex('category-index', 'category', {projection: 'keys_only'})
+        .withIndex('category-price-index', 'category', 'price', {projection: ['name']})
+        .withIndex('name-index', 'name')
+        .withConverter((item, projection) => void projections.push(projection))
+        .build();
+    dc.createTable(products);
+    await products.put({item: {id: 'p1', category: 'c', price: 10, name: 'Product', description: 'A product'}});
+
+    const {items: [keys]} = await products.query({indexName: 'category-index', keyConditions: {category: 'c'}});
+    expect(keys).toEqual({id: 'p1', category: 'c'});
+    // @ts-expect-error name is not projected into the index
+    expect(keys.name).toBeUndefined();
+
+    const [included] = await products.scanIterator({indexName: 'category-price-index'}).toArray();
+    expect(included).toEqual({id: 'p1', category: 'c', price: 10, name: 'Product'});
+    const name: string = included.name;
+    expect(name).toBe('Product');
+    expect(projections.slice(-2)).toEqual([['category', 'id'], ['category', 'price', 'id', 'name']]);
+
+    // @ts-expect-error description is not projected into the index
+    await products.query({indexName: 'category-price-index', keyConditions: {category: 'c'}, projection: ['description']});
+    const {items: [prices]} = await products.query({indexName: 'category-price-index', keyConditions: {category: 'c'}, projection: ['price']});
+    expect(prices).toEqual({price: 10});
+
+    const {items: [full]} = await products.find({keyConditions: {name: 'Product'}});
+    expect(full.description).toBe('A product');
+    expect(products.getCreateTableInput().GlobalSecondaryIndexes!.map(index => index.Projection)).toEqual([
+      {ProjectionType: 'KEYS_ONLY'},
+      {ProjectionType: 'INCLUDE', NonKeyAttributes: ['name']},
+      {ProjectionType: 'ALL'}
+    ]);
+  });
+
+  it('should group items of item collections', async () => {
+    const dc = new DynamoMemoryClient();
+    const client = new DynamoClient(dc);
+    type Profile = {pk: string; sk: string; name: string};
+    type Purchase = {pk: string; sk: string; total: number; discount?: number};
+    const collections = client.model<Profile | Purchase>('collections').withKey('pk', 'sk').build();
+    const send = jest.spyOn(dc, 'send');
+    dc.createTable(collections);
+
+    await collections.put({item: {pk: 'u1', sk: 'PROFILE', name: 'Alice'}});
+    for (let i = 1; i <= 3; i++) {
+      await collections.put({item: {pk: 'u1', sk: `PURCHASE-${i}`, total: i}});
+    }
+    await collections.put({item: {pk: 'u1', sk: 'SETTINGS', name: 'x'}});
+    send.mockClear();
+
+    const {groups: {profile, purchases}, ungroupedItems} = await collections.collection({
+      keyConditions: {pk: 'u1'},
+      consistency: 'strong',
+      groups: {
+        profile: {prefix: 'PROFILE', type: as<Profile>()},
+        purchases: {prefix: 'PURCHASE-', type: as<Purchase>(), limit: 2, converter: item => item.discount ??= 0}
+      }
+    });
+    expect(profile.map(item => item.name)).toEqual(['Alice']);
+    expect(purchases).toEqual([{pk: 'u1', sk: 'PURCHASE-1', total: 1, discount: 0}, {pk: 'u1', sk: 'PURCHASE-2', total: 2, discount: 0}]);
+    expect(ungroupedItems).toEqual([{pk: 'u1', sk: 'SETTINGS', name: 'x'}]);
+    expect(send.mock.calls[0][0].input).toMatchObject({ConsistentRead: true});
+
+    await expect(collections.collection({keyConditions: {pk: 'u1'}, groups: {all: {value: 'x'}}}))
+        .rejects.toThrow('Group all of collections has a discriminator value, but no discriminator attribute is given');
+  });
+});
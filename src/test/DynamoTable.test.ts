@@ -0,0 +1,169 @@
+import {PutCommand} from '@aws-sdk/lib-dynamodb';
+
+import DynamoClient, {Codecs, DynamoMemoryClient} from '../';
+
+type User = {
+  userId: string;
+  name: string;
+  createdAt?: string;
+};
+
+type Order = {
+  userId: string;
+  orderId: string;
+  date: Date;
+  total: number;
+  status: string;
+};
+
+class AppTable extends DynamoClient.table('type')
+    .withKey('pk', 'sk')
+    .withIndex('gsi1', 'gsi1pk', 'sk')
+    .withEntity('user', DynamoClient.model<User>()
+        .withCompositeKey('pk', ['userId'], '#', {prefix: 'USER'})
+        .withCompositeKey('sk', ['userId'], '#', {prefix: 'PROFILE'})
+        .withCreator(() => ({createdAt: '2024-01-01'}))
+        .withDefaultValues({name: 'Unknown'}))
+    .withEntity('order', DynamoClient.model<Order>()
+        .withCodec('date', Codecs.date())
+        .withCompositeKey('pk', ['userId'], '#', {prefix: 'USER'})
+        .withCompositeKey('sk', ['date', 'orderId'], '#', {prefix: 'ORDER'})
+        .withCompositeKey('gsi1pk', ['status']))
+    .class() {}
+
+async function setupApp() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const app = new AppTable({client, name: 'app'});
+
+  await app.createTable();
+
+  return {dc, client, app};
+}
+
+const day = (d: number) => new Date(Date.UTC(2024, 0, d));
+
+describe('DynamoTable', () => {
+  it('should write items of entity types using their models', async () => {
+    const {dc, app} = await setupApp();
+
+    const {item: user} = await app.entities.user.put({item: {userId: 'u1', name: 'Alice'}});
+    expect(user).toEqual({userId: 'u1', name: 'Alice', createdAt: '2024-01-01', type: 'user', pk: 'USER#u1', sk: 'PROFILE#u1'});
+
+    await app.entities.order.put({item: {userId: 'u1', orderId: 'o1', date: day(1), total: 10, status: 'open'}});
+    expect(dc.getItems('app')).toContainEqual({
+      type: 'order',
+      pk: 'USER#u1',
+      sk: 'ORDER#2024-01-01T00:00:00.000Z#o1',
+      gsi1pk: 'open',
+      userId: 'u1',
+      orderId: 'o1',
+      date: '2024-01-01T00:00:00.000Z',
+      total: 10,
+      status: 'open'
+    });
+
+    expect(await app.entities.order.get({key: {userId: 'u1', date: day(1), orderId: 'o1'}}))
+        .toMatchObject({orderId: 'o1', date: day(1)});
+    await app.entities.user.delete({key: {userId: 'u1'}});
+    expect(dc.getItems('app')).toHaveLength(1);
+  });
+
+  it('should query item collections of several entity types', async () => {
+    const {dc, app} = await setupApp();
+
+    await app.entities.user.put({item: {userId: 'u1', name: 'Alice'}});
+    await app.entities.order.put({item: {userId: 'u1', orderId: 'o1', date: day(1), total: 10, status: 'open'}});
+    await app.entities.order.put({item: {userId: 'u1', orderId: 'o2', date: day(2), total: 20, status: 'open'}});
+    await dc.send(new PutCommand({TableName: 'app', Item: {pk: 'USER#u1', sk: 'ZZZ', type: 'legacy'}}));
+    await dc.send(new PutCommand({TableName: 'app', Item: {pk: 'USER#u1', sk: 'ZZZZ'}}));
+
+    const {items, unknownItems} = await app.query({keyConditions: {pk: ':USER#u1'}});
+
+    expect(items).toHaveLength(3);
+    expect(unknownItems).toEqual([{pk: 'USER#u1', sk: 'ZZZ', type: 'legacy'}, {pk: 'USER#u1', sk: 'ZZZZ'}]);
+
+    const dates = items.map(item => item.type === 'order' ? item.date : item.name);
+    expect(dates).toEqual([day(1), day(2), 'Alice']);
+
+    // @ts-expect-error
+    items.map(item => item.total);
+  });
+
+  it('should group item collections by entity type', async () => {
+    const {dc, app} = await setupApp();
+
+    await app.entities.user.put({item: {userId: 'u1', name: 'Alice'}});
+    await app.entities.order.put({item: {userId: 'u1', orderId: 'o1', date: day(1), total: 10, status: 'open'}});
+    await app.entities.order.put({item: {userId: 'u1', orderId: 'o2', date: day(2), total: 20, status: 'open'}});
+    await dc.send(new PutCommand({TableName: 'app', Item: {pk: 'USER#u1', sk: 'ZZZ', type: 'legacy'}}));
+
+    const {groups: {user, orders}, ungroupedItems} = await app.collection({
+      keyConditions: {pk: ':USER#u1'},
+      groups: {
+        user: {value: 'user'},
+        orders: {value: 'order', limit: 1}
+      }
+    });
+    expect(user.map(item => item.name)).toEqual(['Alice']);
+    expect(orders.map(item => item.date)).toEqual([day(1)]);
+    expect(ungroupedItems).toEqual([{pk: 'USER#u1', sk: 'ZZZ', type: 'legacy'}]);
+  });
+
+  it('should group item collections of all entity types using the model of an entity type', async () => {
+    const {app} = await setupApp();
+
+    await app.entities.user.put({item: {userId: 'u1', name: 'Alice'}});
+    await app.entities.order.put({item: {userId: 'u1', orderId: 'o1', date: day(1), total: 10, status: 'open'}});
+
+    const {groups: {user, orders}} = await app.entities.user.collection({
+      keyConditions: {userId: 'u1'},
+      groups: {
+        user: {value: 'user'},
+        orders: {value: 'order', model: app.entities.order}
+      }
+    });
+    expect(user.map(item => item.name)).toEqual(['Alice']);
+    expect(orders.map(item => item.date)).toEqual([day(1)]);
+  });
+
+  it('should only read items of the entity type of a model', async () => {
+    const {app} = await setupApp();
+
+    await app.entities.user.put({item: {userId: 'u1', name: 'Alice'}});
+    await app.entities.order.put({item: {userId: 'u1', orderId: 'o1', date: day(1), total: 10, status: 'open'}});
+
+    const {items: orders} = await app.entities.order.query({keyConditions: {userId: 'u1'}});
+    expect(orders.map(order => order.orderId)).toEqual(['o1']);
+
+    const {items: users} = await app.entities.user.scan();
+    expect(users.map(user => user.name)).toEqual(['Alice']);
+
+    const {items: open} = await app.entities.order.query({indexName: 'gsi1', keyConditions: {status: 'open'}});
+    expect(open.map(order => order.total)).toEqual([10]);
+
+    // @ts-expect-error
+    await app.entities.user.query({indexName: 'gsi1', keyConditions: {status: 'open'}}).catch(() => undefined);
+  });
+
+  it('should not modify the model builders of entity types', async () => {
+    const dc = new DynamoMemoryClient();
+    const client = new DynamoClient(dc);
+    const builder = DynamoClient.model<User>().withCompositeKey('pk', ['userId'], '#', {prefix: 'USER'});
+    const first = DynamoClient.table('type').withKey('pk').withEntity('user', builder).build({client, name: 'first'});
+    const second = DynamoClient.table('kind').withKey('pk').withIndex('gsi1', 'name').withEntity('person', builder).build({client, name: 'second'});
+    const users = builder.withKey('pk').build({client, name: 'users'});
+
+    await first.createTable();
+    await second.createTable();
+    dc.createTable(users);
+    await first.entities.user.put({item: {userId: 'u1', name: 'Alice'}});
+    await second.entities.person.put({item: {userId: 'u1', name: 'Alice'}});
+    await users.put({item: {userId: 'u1', name: 'Alice'}});
+
+    expect(dc.getItems('first')).toEqual([{pk: 'USER#u1', userId: 'u1', name: 'Alice', type: 'user'}]);
+    expect(dc.getItems('second')).toEqual([{pk: 'USER#u1', userId: 'u1', name: 'Alice', kind: 'person'}]);
+    expect(dc.getItems('users')).toEqual([{pk: 'USER#u1', userId: 'u1', name: 'Alice'}]);
+    expect(Object.keys(users.params.indices)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import {Condition} from 'dynamodb-expressions';
+
+import {DynamoTransaction, isDynamoError, TransactionCancelledError, VersionConflictError} from '../';
+import {setup} from './models';
+
+describe('DynamoTransaction', () => {
+  it('should return typed items from get transactions', async () => {
+    const {client, persons, orders} = setup();
+    const converted = client.model<{id: string; name: string; age: number; upperName?: string}>('converted', 'persons')
+        .withKey('id')
+        .withConverter((item: any) => {
+          if (item.name !== undefined) {
+            item.upperName = item.name.toUpperCase();
+          }
+        })
+        .build();
+
+    await persons.put({item: {id: '1', name: 'Alice', age: 30}});
+    await orders.put({item: {customerId: '1', orderId: 'o1', total: 10}});
+
+    const [person, order, missing, projected] = await client.transaction()
+        .get(converted, {key: {id: '1'}})
+        .get(orders, {key: {customerId: '1', orderId: 'o1'}}, {key: {customerId: '1', orderId: 'o2'}})
+        .get(persons, {key: {id: '1'}, projection: ['age']})
+        .commit();
+
+    expect(person).toEqual({id: '1', name: 'Alice', age: 30, upperName: 'ALICE'});
+    expect(order?.total).toBe(10);
+    expect(missing).toBeUndefined();
+    expect(projected).toEqual({age: 30});
+    // @ts-expect-error name is not part of the projection
+    expect(projected?.name).toBeUndefined();
+  });
+
+  it('should map cancellation reasons to models and keys', async () => {
+    const {client, persons, orders} = setup();
+
+    await persons.put({item: {id: '1', name: 'Alice', age: 30}});
+    await orders.put({item: {customerId: '1', orderId: 'o1', total: 10}});
+
+    const transaction = client.transaction()
+        .put(persons, {item: {id: '2', name: 'Bob', age: 40}})
+        .update(persons, {
+          key: {id: '1'},
+          attributes: {age: 31},
+          conditions: {age: Condition.lt(30)},
+          returnValuesOnConditionCheckFailure: 'all_old'
+        })
+        .delete(orders, {key: {customerId: '1', orderId: 'o1'}, conditions: {total: Condition.gt(10)}});
+    const error = await transaction.commit().catch(err => err);
+
+    expect(error).toBeInstanceOf(TransactionCancelledError);
+    expect(isDynamoError(error, 'TransactionCanceled')).toBeTruthy();
+    expect(transaction.conditionalCheckFailed()).toBeTruthy();
+    expect(DynamoTransaction.conditionalCheckFailed(error)).toBeTruthy();
+
+    const {reasons, failedReasons} = error as TransactionCancelledError;
+    expect(reasons.map(({model, operation, key, code}) => ({model, operation, key, code}))).toEqual([
+      {model: persons, operation: 'put', key: {id: '2'}, code: 'None'},
+      {model: persons, operation: 'update', key: {id: '1'}, code: 'ConditionalCheckFailed'},
+      {model: orders, operation: 'delete', key: {customerId: '1', orderId: 'o1'}, code: 'ConditionalCheckFailed'},
+    ]);
+    expect(failedReasons.map(reason => reason.item)).toEqual([{id: '1', name: 'Alice', age: 30}, undefined]);
+  });
+
+  it('should report version conflicts of cancelled transactions', async () => {
+    const {dc, client, persons} = setup();
+    const documents = client.model<{id: string; text: string; version?: number}>('documents')
+        .withKey('id')
+        .withVersionAttribute('version')
+        .build();
+
+    dc.createTable(documents);
+    await documents.put({item: {id: '1', text: 'a'}});
+    await documents.put({item: {id: '2', text: 'a'}});
+
+    const error = await client.transaction()
+        .put(documents, {item: {id: '1', text: 'b'}})
+        .update(documents, {key: {id: '2'}, attributes: {text: 'b'}, expectedVersion: 1})
+        .delete(persons, {key: {id: '1'}, conditions: {id: Condition.attributeExists()}})
+        .commit()
+        .catch(err => err);
+
+    expect(error).toBeInstanceOf(TransactionCancelledError);
+    const {reasons, versionConflicts} = error as TransactionCancelledError;
+    expect(reasons.map(({versionConflict}) => versionConflict)).toEqual([versionConflicts[0], undefined, undefined]);
+    expect(versionConflicts).toHaveLength(1);
+    expect(versionConflicts[0]).toBeInstanceOf(VersionConflictError);
+    expect(versionConflicts[0].model).toBe(documents);
+    expect(versionConflicts[0].key).toEqual({id: '1'});
+  });
+});
@@ -0,0 +1,60 @@
+import {ScanCommand} from '@aws-sdk/lib-dynamodb';
+
+import {setup} from './models';
+
+async function setupPersons() {
+  const {dc, client, persons} = setup();
+  await Promise.all(Array.from({length: 10}, (_, i) => persons.put({item: {id: `p${i}`, name: 'n', age: i}})));
+
+  return {dc, client, persons};
+}
+
+describe('ItemStream', () => {
+  it('should map, filter, take and reduce items', async () => {
+    const {persons} = await setupPersons();
+
+    const ages = await persons.scanIterator()
+        .filter(item => item.age % 2 === 0)
+        .map(async item => item.age)
+        .toArray();
+    expect(ages.sort()).toEqual([0, 2, 4, 6, 8]);
+
+    expect(await persons.queryIterator({keyConditions: {id: 'p3'}}).first()).toEqual({id: 'p3', name: 'n', age: 3});
+    expect(await persons.scanIterator().reduce((sum, item) => sum + item.age, 0)).toBe(45);
+    expect(await persons.scanIterator().take(0).toArray()).toEqual([]);
+
+    const chunks = await persons.scanIterator().map(item => item.id).chunk(4).toArray();
+    expect(chunks.map(chunk => chunk.length)).toEqual([4, 4, 2]);
+  });
+
+  it('should stop fetching pages once enough items are taken', async () => {
+    const {dc, persons} = await setupPersons();
+    const send = jest.spyOn(dc, 'send');
+
+    expect(await persons.scanIterator({limit: 2}).take(4).toArray()).toHaveLength(4);
+    expect(send.mock.calls.filter(([command]) => command instanceof ScanCommand)).toHaveLength(2);
+  });
+
+  it('should feed chunks into concurrent batch writes', async () => {
+    const {dc, client, persons} = await setupPersons();
+    let running = 0;
+    let maxRunning = 0;
+
+    await persons.scanIterator({projection: ['id'], limit: 3})
+        .chunk(3)
+        .forEachConcurrent(2, async keys => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await client.batch().delete(persons, ...keys.map(key => ({key}))).execute();
+          running--;
+        });
+    expect(dc.getItems('persons')).toEqual([]);
+    expect(maxRunning).toBe(2);
+
+    const {persons: otherPersons} = await setupPersons();
+    const stream = otherPersons.scanIterator();
+    await expect(stream.forEachConcurrent(3, async () => {
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    expect(await stream.next()).toEqual({done: true, value: undefined});
+  });
+});
@@ -0,0 +1,109 @@
+import {Condition, SetValue, UpdateAction} from 'dynamodb-expressions';
+
+import DynamoClient, {Codecs, DynamoMemoryClient} from '../';
+
+type Event = {
+  userId: string;
+  at: Date;
+  amount: bigint;
+  seen?: Date;
+};
+
+class EventModel extends DynamoClient.model<Event>()
+    .withKey('userId', 'at')
+    .withCodec('at', Codecs.date())
+    .withCodec('amount', Codecs.bigint())
+    .withCodec('seen', Codecs.date())
+    .class() {}
+
+function setupEvents() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const events = new EventModel({client, name: 'events'});
+
+  dc.createTable(events);
+
+  return {dc, client, events};
+}
+
+const day = (d: number) => new Date(Date.UTC(2024, 0, d));
+
+describe('Codecs', () => {
+  it('should encode written values and decode read items', async () => {
+    const {dc, events} = setupEvents();
+
+    const {item} = await events.put({item: {userId: 'u1', at: day(1), amount: BigInt(10)}});
+    expect(item).toEqual({userId: 'u1', at: day(1), amount: BigInt(10)});
+    expect(dc.getItems('events')).toEqual([{userId: 'u1', at: '2024-01-01T00:00:00.000Z', amount: '10'}]);
+    expect(await events.get({key: {userId: 'u1', at: day(1)}})).toEqual({userId: 'u1', at: day(1), amount: BigInt(10)});
+
+    const {item: updated} = await events.update({
+      key: {userId: 'u1', at: day(1)},
+      attributes: {amount: BigInt(20), seen: UpdateAction.set(SetValue.ifNotExists('seen', day(5)))},
+      conditions: {amount: Condition.in<bigint>([BigInt(5), BigInt(10)]), seen: Condition.not<Date | undefined>(day(9))}
+    });
+    expect(updated).toEqual({userId: 'u1', at: day(1), amount: BigInt(20), seen: day(5)});
+    expect(dc.getItems('events')[0]).toMatchObject({amount: '20', seen: '2024-01-05T00:00:00.000Z'});
+
+    const {item: unchanged} = await events.update({key: {userId: 'u1', at: day(1)}, attributes: {seen: SetValue.ifNotExists('seen', day(6)) as any}});
+    expect(unchanged?.seen).toEqual(day(5));
+    await expect(events.update({
+      key: {userId: 'u1', at: day(1)},
+      attributes: {amount: UpdateAction.set<any>(SetValue.add(SetValue.ifNotExists('amount', 0), 1))}
+    })).rejects.toThrow('Cannot encode the nested set values of attribute amount of events');
+
+    await events.delete({key: {userId: 'u1', at: day(1)}, conditions: {seen: day(5)}});
+    expect(dc.getItems('events')).toEqual([]);
+  });
+
+  it('should encode key and filter conditions, batch statements and transactions', async () => {
+    const {client, events} = setupEvents();
+
+    await client.batch()
+        .put(events, ...[1, 2, 3, 4].map(d => ({item: {userId: 'u1', at: day(d), amount: BigInt(d)}})))
+        .execute();
+
+    const {items} = await events.query({
+      keyConditions: {userId: 'u1', at: Condition.between(day(2), day(4))},
+      filterConditions: {amount: Condition.and<bigint>(Condition.neq(BigInt(3)), Condition.not(Condition.lt(BigInt(2))))}
+    });
+    expect(items.map(({at}) => at)).toEqual([day(2), day(4)]);
+
+    const [result] = await client.batch().get(events, {key: {userId: 'u1', at: day(3)}}).executeOrdered();
+    expect(result).toEqual({model: events, key: {userId: 'u1', at: day(3)}, item: {userId: 'u1', at: day(3), amount: BigInt(3)}});
+
+    const [event] = await client.transaction()
+        .get(events, {key: {userId: 'u1', at: day(1)}})
+        .commit();
+    expect(event?.amount).toBe(BigInt(1));
+
+    await client.transaction()
+        .update(events, {key: {userId: 'u1', at: day(1)}, attributes: {amount: UpdateAction.set(BigInt(5))}, conditions: {at: day(1)}})
+        .commit();
+    expect(await events.get({key: {userId: 'u1', at: day(1)}})).toEqual({userId: 'u1', at: day(1), amount: BigInt(5)});
+  });
+
+  it('should rely on how dynamodb-expressions builds update actions', async () => {
+    const build = (action: UpdateAction<any>) => {
+      const operands: unknown[] = [];
+      const {type} = action.build('a', {addOperand: (...args) => (operands.push(args), '')});
+
+      return [type, ...operands];
+    };
+
+    expect(build(UpdateAction.set(1))).toEqual(['SET', ['a', 'name'], [1, 'value', 'set']]);
+    expect(build(UpdateAction.set(SetValue.ifNotExists('b', 1)))).toEqual(['SET', ['a', 'name'], ['b', 'name'], [1, 'value', 'ifnotexists']]);
+    expect(build(UpdateAction.set(SetValue.add('b', 1)))).toEqual(['SET', ['a', 'name'], ['b', 'name', 'add0'], [1, 'value', 'add1']]);
+    expect(build(UpdateAction.set(SetValue.subtract('b', 1)))).toEqual(['SET', ['a', 'name'], ['b', 'name', 'sub0'], [1, 'value', 'sub1']]);
+    expect(build(UpdateAction.set(SetValue.append('b', [1])))).toEqual(['SET', ['a', 'name'], ['b', 'name', 'append0'], [[1], 'value', 'append1']]);
+    expect(build(UpdateAction.add(1))).toEqual(['ADD', ['a', 'name'], [1, 'value', 'add']]);
+    expect(build(UpdateAction.delete(new Set([1])))).toEqual(['DELETE', ['a', 'name'], [new Set([1]), 'value', 'delete']]);
+    expect(build(UpdateAction.remove())).toEqual(['REMOVE', ['a', 'name']]);
+
+    const {events} = setupEvents();
+    const unknown = Object.assign(Object.create(UpdateAction.prototype), {build: () => ({type: 'UPSERT', expression: ''})});
+
+    await expect(events.update({key: {userId: 'u1', at: day(1)}, attributes: {amount: unknown}}))
+        .rejects.toThrow('Cannot encode the update action of attribute amount of events, which was built in an unknown way');
+  });
+});
@@ -0,0 +1,149 @@
+import {Condition, UpdateAction} from 'dynamodb-expressions';
+
+import DynamoClient, {Codecs, DynamoMemoryClient} from '../';
+
+type Purchase = {
+  userId: string;
+  type: string;
+  date: Date;
+  purchaseId: string;
+  status: string;
+  total: number;
+};
+
+class PurchaseModel extends DynamoClient.model<Purchase>()
+    .withCodec('date', Codecs.date())
+    .withCompositeKey('pk', ['userId'], '#', {prefix: 'USER'})
+    .withCompositeKey('sk', ['type', 'date', 'purchaseId'])
+    .withCompositeKey('gsi1sk', ['status', 'purchaseId'])
+    .withKey('pk', 'sk')
+    .withIndex('status-index', 'pk', 'gsi1sk', {projection: 'keys_only'})
+    .class() {}
+
+function setupPurchases() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const purchases = new PurchaseModel({client, name: 'purchases'});
+
+  dc.createTable(purchases);
+
+  return {dc, client, purchases};
+}
+
+const day = (d: number) => new Date(Date.UTC(2024, 0, d));
+
+const purchase = (purchaseId: string, d: number, status = 'open'): Purchase =>
+    ({userId: 'u1', type: 'ORDER', date: day(d), purchaseId, status, total: d});
+
+describe('Composite keys', () => {
+  it('should compute composite attributes of put items', async () => {
+    const {dc, purchases} = setupPurchases();
+
+    await purchases.put({item: purchase('p1', 1)});
+    expect(dc.getItems('purchases')).toEqual([{
+      pk: 'USER#u1',
+      sk: 'ORDER#2024-01-01T00:00:00.000Z#p1',
+      gsi1sk: 'open#p1',
+      userId: 'u1',
+      type: 'ORDER',
+      date: '2024-01-01T00:00:00.000Z',
+      purchaseId: 'p1',
+      status: 'open',
+      total: 1
+    }]);
+  });
+
+  it('should accept source attributes as keys', async () => {
+    const {dc, purchases} = setupPurchases();
+
+    await purchases.put({item: purchase('p1', 1)});
+    const key = {userId: 'u1', type: 'ORDER', date: day(1), purchaseId: 'p1'};
+
+    expect(await purchases.get({key})).toMatchObject(purchase('p1', 1));
+    expect(await purchases.get({key: {pk: 'USER#u1', sk: 'ORDER#2024-01-01T00:00:00.000Z#p1'}}))
+        .toMatchObject(purchase('p1', 1));
+
+    await purchases.delete({key});
+    expect(dc.getItems('purchases')).toEqual([]);
+
+    // @ts-expect-error
+    await expect(purchases.get({key: {userId: 'u1'}})).rejects.toThrow('The provided key element does not match the schema');
+  });
+
+  it('should query by source attributes', async () => {
+    const {purchases} = setupPurchases();
+
+    for (const item of [purchase('p1', 1), purchase('p2', 2), purchase('p3', 12), {...purchase('r1', 3), type: 'RETURN'}]) {
+      await purchases.put({item});
+    }
+
+    const {items: orders} = await purchases.query({keyConditions: {userId: 'u1', type: 'ORDER'}});
+    expect(orders.map(item => item.purchaseId)).toEqual(['p1', 'p2', 'p3']);
+
+    const {items: all} = await purchases.query({keyConditions: {userId: 'u1'}});
+    expect(all).toHaveLength(4);
+
+    const {items: early} = await purchases.query({
+      keyConditions: {userId: 'u1', type: 'ORDER', date: Condition.beginsWith('2024-01-0')}
+    });
+    expect(early.map(item => item.purchaseId)).toEqual(['p1', 'p2']);
+
+    const {items: exact} = await purchases.query({
+      keyConditions: {userId: 'u1', type: 'ORDER', date: day(2), purchaseId: 'p2'}
+    });
+    expect(exact.map(item => item.purchaseId)).toEqual(['p2']);
+
+    await expect(purchases.query({keyConditions: {userId: 'u1', date: day(2)}}))
+        .rejects.toThrow('requires equality conditions on the preceding attributes of sk');
+    await expect(purchases.query({keyConditions: {userId: 'u1', type: Condition.gt<string>('A')}}))
+        .rejects.toThrow('must be an equality or begins_with condition');
+  });
+
+  it('should parse source attributes from composite attributes of read items', async () => {
+    const {purchases} = setupPurchases();
+
+    await purchases.put({item: purchase('p1', 1, 'shipped')});
+
+    const {items} = await purchases.query({indexName: 'status-index', keyConditions: {userId: 'u1', status: 'shipped'}});
+    expect(items).toEqual([{
+      pk: 'USER#u1',
+      sk: 'ORDER#2024-01-01T00:00:00.000Z#p1',
+      gsi1sk: 'shipped#p1',
+      userId: 'u1',
+      type: 'ORDER',
+      date: day(1),
+      purchaseId: 'p1',
+      status: 'shipped'
+    }]);
+  });
+
+  it('should recompute updated composite attributes', async () => {
+    const {dc, purchases} = setupPurchases();
+    const key = {userId: 'u1', type: 'ORDER', date: day(1), purchaseId: 'p1'};
+
+    await purchases.put({item: purchase('p1', 1)});
+    const {item} = await purchases.update({key, attributes: {status: 'shipped'}});
+    expect(item).toMatchObject({status: 'shipped', gsi1sk: 'shipped#p1'});
+    expect(dc.getItems('purchases')[0]).toMatchObject({gsi1sk: 'shipped#p1'});
+
+    await expect(purchases.update({key, attributes: {purchaseId: 'p2'}}))
+        .rejects.toThrow('Cannot update purchaseId of purchases, which make up the key attribute sk');
+    await expect(purchases.update({key, attributes: {status: UpdateAction.set('closed')}}))
+        .rejects.toThrow('Cannot update status of purchases using an update action');
+  });
+
+  it('should resolve source attributes of batch keys', async () => {
+    const {dc, client, purchases} = setupPurchases();
+
+    await client.batch().put(purchases, {item: purchase('p1', 1)}, {item: purchase('p2', 2)}).execute();
+    const items = await client.batch()
+        .get(purchases,
+            {key: {userId: 'u1', type: 'ORDER', date: day(2), purchaseId: 'p2'}},
+            {key: {userId: 'u1', type: 'ORDER', date: day(1), purchaseId: 'p1'}})
+        .executeOrdered();
+    expect(items.map(({item}) => item?.purchaseId)).toEqual(['p2', 'p1']);
+
+    await client.batch().delete(purchases, {key: {userId: 'u1', type: 'ORDER', date: day(1), purchaseId: 'p1'}}).execute();
+    expect(dc.getItems('purchases').map(item => item.purchaseId)).toEqual(['p2']);
+  });
+});
@@ -0,0 +1,70 @@
+import {PutCommand} from '@aws-sdk/lib-dynamodb';
+import {randomBytes} from 'crypto';
+
+import DynamoClient, {Codecs, DynamoMemoryClient, getItemSize, ItemTooLargeError} from '../';
+
+type Report = {
+  id: string;
+  data?: {rows: Array<{name: string; value: number}>};
+  text?: string;
+  notes?: string;
+  generatedAt?: Date;
+};
+
+function setupReports() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const reports = DynamoClient.model<Report>()
+      .withKey('id')
+      .withCodec('generatedAt', Codecs.date())
+      .withCompressedAttributes(['data', 'generatedAt'])
+      .withCompressedAttributes(['text'], {algorithm: 'brotli'})
+      .build({client, name: 'reports'});
+
+  dc.createTable(reports);
+
+  return {dc, reports};
+}
+
+const rows = Array.from({length: 1000}, (_, i) => ({name: `row ${i}`, value: i % 10}));
+
+describe('Compression', () => {
+  it('should store compressed attributes as binary', async () => {
+    const {dc, reports} = setupReports();
+    const report = {id: 'r1', data: {rows}, text: 'Lorem ipsum '.repeat(1000), generatedAt: new Date(Date.UTC(2024, 0, 1))};
+
+    await reports.put({item: {...report}});
+
+    const [{data, text, generatedAt}] = dc.getItems('reports');
+    expect(data).toBeInstanceOf(Uint8Array);
+    expect(data.length).toBeLessThan(JSON.stringify(rows).length / 4);
+    expect(text.length).toBeLessThan(1000);
+    expect(generatedAt).toBeInstanceOf(Uint8Array);
+    expect(await reports.get({key: {id: 'r1'}})).toEqual(report);
+
+    await reports.update({key: {id: 'r1'}, attributes: {text: 'Updated'}});
+    expect(await reports.get({key: {id: 'r1'}})).toEqual({...report, text: 'Updated'});
+  });
+
+  it('should read values which are not compressed as-is', async () => {
+    const {dc, reports} = setupReports();
+
+    await dc.send(new PutCommand({TableName: 'reports', Item: {id: 'r1', text: 'Plain', generatedAt: '2024-01-01T00:00:00.000Z'}}));
+
+    expect(await reports.get({key: {id: 'r1'}})).toEqual({id: 'r1', text: 'Plain', generatedAt: new Date(Date.UTC(2024, 0, 1))});
+  });
+
+  it('should reject items exceeding the maximum item size before writing them', async () => {
+    const {dc, reports} = setupReports();
+    const notes = randomBytes(320 * 1024).toString('base64');
+    const err = await reports.put({item: {id: 'r1', notes, data: {rows}, text: 'Lorem ipsum '.repeat(1000)}}).catch(err => err);
+
+    expect(err).toBeInstanceOf(ItemTooLargeError);
+    expect(err.largestAttributes.map(({name}: {name: string}) => name)).toEqual(['notes', 'data', 'text']);
+    expect(err.message).toMatch(/^reports item of \d+ bytes exceeds the maximum item size of 409600 bytes, largest attributes: notes \(\d+ bytes\)/);
+    expect(err.size).toBeGreaterThan(400 * 1024);
+    expect(dc.getItems('reports')).toEqual([]);
+
+    expect(getItemSize({s: 'abc', n: 123, b: new Uint8Array(4)})).toBe(4 + 4 + 5);
+  });
+});
@@ -1,7 +1,7 @@
 import {randomBytes} from 'crypto';
 import {Condition, SetValue, UpdateAction} from 'dynamodb-expressions';
 
-import DynamoClient, {isDynamoError} from '../';
+import DynamoClient, {DynamoMemoryClient, isDynamoError} from '../';
 
 type Person = {
   id: string;
@@ -16,7 +16,7 @@ const random = () => randomBytes(32).toString('hex');
 
 describe('Models', () => {
   it('should create model class', async () => {
-    const client = new DynamoClient();
+    const client = new DynamoClient(new DynamoMemoryClient());
 
     class PersonModel extends DynamoClient.model<Person>()
         .withKey('id')
@@ -77,7 +77,7 @@ describe('Models', () => {
   });
 
   it('should identify errors', async () => {
-    const client = new DynamoClient(undefined, {logger: {debug: console.log}});
+    const client = new DynamoClient(new DynamoMemoryClient(), {logger: {debug: console.log}});
 
     class PersonModel extends DynamoClient.model<Person>()
         .withKey('id')
@@ -0,0 +1,213 @@
+import {PutCommand} from '@aws-sdk/lib-dynamodb';
+
+import DynamoClient, {
+  DecryptionError,
+  DynamoMemoryClient,
+  InMemoryKeyProvider,
+  SIGNATURE_PREFIX,
+  SetValue,
+  SignatureError,
+  UnsignableUpdateError,
+  UpdateAction
+} from '../';
+
+type Customer = {
+  id: string;
+  email: string;
+  phone?: string;
+  name: string;
+};
+
+function setupCustomers(allowUnsignedItems = false) {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const keyProvider = new InMemoryKeyProvider();
+  const builder = DynamoClient.model<Customer>()
+      .withKey('id')
+      .withIndex('email-index', 'email')
+      .withIndex('name-index', 'name', {projection: 'keys_only'})
+      .withEncryptedAttributes(['phone'], keyProvider)
+      .withEncryptedAttributes(['email'], keyProvider, {deterministic: true});
+  const customers = (allowUnsignedItems ? builder.withUnsignedItems() : builder).build({client, name: 'customers'});
+
+  dc.createTable(customers);
+
+  return {dc, keyProvider, customers};
+}
+
+function getSignedAttributes(item: Record<string, unknown>): string[] {
+  return Object.keys(item).filter(attr => attr.startsWith(SIGNATURE_PREFIX)).map(attr => attr.substring(SIGNATURE_PREFIX.length)).sort();
+}
+
+describe('Encrypted attributes', () => {
+  it('should encrypt attributes when writing items and decrypt them when reading items', async () => {
+    const {dc, keyProvider, customers} = setupCustomers();
+    const alice = {id: 'c1', email: 'alice@example.com', phone: '555-0100', name: 'Alice'};
+
+    expect(await customers.put({item: {...alice}})).toEqual({item: alice});
+
+    const [stored] = dc.getItems('customers');
+    expect(stored.name).toBe('Alice');
+    expect(stored.email).toBeInstanceOf(Uint8Array);
+    expect(stored.phone).toBeInstanceOf(Uint8Array);
+    expect(Buffer.from(stored.phone).toString()).not.toContain('555-0100');
+    expect(await customers.get({key: {id: 'c1'}})).toEqual(alice);
+
+    keyProvider.addKey();
+    const {item} = await customers.update({key: {id: 'c1'}, attributes: {phone: '555-0199'}});
+    expect(item.phone).toBe('555-0199');
+    expect(await customers.get({key: {id: 'c1'}})).toEqual({...alice, phone: '555-0199'});
+  });
+
+  it('should detect tampered values', async () => {
+    const {dc, customers} = setupCustomers();
+
+    await customers.put({item: {id: 'c1', email: 'alice@example.com', phone: '555-0100', name: 'Alice'}});
+    await customers.put({item: {id: 'c2', email: 'bob@example.com', phone: '555-0200', name: 'Bob'}});
+    const [alice, bob] = dc.getItems('customers');
+
+    await dc.send(new PutCommand({TableName: 'customers', Item: {...bob, phone: alice.phone}}));
+    await expect(customers.get({key: {id: 'c2'}})).rejects.toThrow(DecryptionError);
+
+    const modified = new Uint8Array(alice.phone);
+    modified[modified.length - 1] ^= 1;
+    await dc.send(new PutCommand({TableName: 'customers', Item: {...alice, phone: modified}}));
+    await expect(customers.get({key: {id: 'c1'}})).rejects.toThrow('Cannot decrypt attribute phone of customers item: authentication failed');
+  });
+
+  it('should detect modified, added and removed attributes using the signature of items', async () => {
+    const {dc, customers} = setupCustomers();
+
+    await customers.put({item: {id: 'c1', email: 'alice@example.com', phone: '555-0100', name: 'Alice'}});
+    const [alice] = dc.getItems('customers');
+    expect(getSignedAttributes(alice)).toEqual(['email', 'id', 'name', 'phone']);
+
+    await dc.send(new PutCommand({TableName: 'customers', Item: {...alice, name: 'Mallory'}}));
+    await expect(customers.get({key: {id: 'c1'}})).rejects.toThrow(SignatureError);
+    await expect(customers.scan()).rejects.toThrow('Invalid signature of attribute name of customers item: the value was modified');
+
+    await dc.send(new PutCommand({TableName: 'customers', Item: {...alice, admin: true}}));
+    await expect(customers.get({key: {id: 'c1'}})).rejects.toThrow('Invalid signature of attribute admin of customers item: the attribute is not signed');
+
+    const {phone, ...withoutPhone} = alice;
+    await dc.send(new PutCommand({TableName: 'customers', Item: withoutPhone}));
+    await expect(customers.get({key: {id: 'c1'}})).rejects.toThrow('Invalid signature of attribute phone of customers item: the attribute was removed');
+    expect(await customers.get({key: {id: 'c1'}, projection: ['name']})).toEqual({name: 'Alice'});
+
+    const unsigned = {id: alice.id, email: alice.email, phone: alice.phone, name: alice.name};
+    await dc.send(new PutCommand({TableName: 'customers', Item: unsigned}));
+    await expect(customers.get({key: {id: 'c1'}})).rejects.toThrow('Invalid signature of attribute id of customers item: the item is not signed');
+
+    await customers.put({item: {id: 'c2', email: 'bob@example.com', name: 'Bob'}});
+    const [, bob] = dc.getItems('customers');
+    await dc.send(new PutCommand({TableName: 'customers', Item: {...bob, id: 'c3'}}));
+    await expect(customers.get({key: {id: 'c3'}})).rejects.toThrow(SignatureError);
+  });
+
+  it('should sign updated attributes', async () => {
+    const {dc, customers} = setupCustomers();
+
+    await customers.put({item: {id: 'c1', email: 'alice@example.com', phone: '555-0100', name: 'Alice'}});
+    await customers.update({key: {id: 'c1'}, attributes: {name: 'Alice Smith', phone: UpdateAction.remove()}});
+
+    expect(await customers.get({key: {id: 'c1'}})).toEqual({id: 'c1', email: 'alice@example.com', name: 'Alice Smith'});
+    expect(getSignedAttributes(dc.getItems('customers')[0])).toEqual(['email', 'id', 'name']);
+    expect(await customers.get({key: {id: 'c1'}, projection: ['name']})).toEqual({name: 'Alice Smith'});
+
+    const {items} = await customers.query({keyConditions: {id: 'c1'}, projection: ['email'], pageSize: 1});
+    expect(items).toEqual([{email: 'alice@example.com'}]);
+
+    const {items: keys} = await customers.query({indexName: 'name-index', keyConditions: {name: 'Alice Smith'}});
+    expect(keys).toEqual([{id: 'c1', name: 'Alice Smith'}]);
+    expect(customers.getCreateTableInput().GlobalSecondaryIndexes).toContainEqual(expect.objectContaining({
+      IndexName: 'name-index',
+      Projection: {ProjectionType: 'INCLUDE', NonKeyAttributes: ['__signature_name', '__signature_id']}
+    }));
+  });
+
+  it('should create signed items by updates', async () => {
+    const {dc, customers} = setupCustomers();
+
+    await customers.update({key: {id: 'c1'}, attributes: {email: 'alice@example.com', name: 'Alice'}});
+
+    expect(getSignedAttributes(dc.getItems('customers')[0])).toEqual(['email', 'id', 'name']);
+    expect(await customers.get({key: {id: 'c1'}})).toEqual({id: 'c1', email: 'alice@example.com', name: 'Alice'});
+  });
+
+  it('should reject updates which cannot be signed', async () => {
+    const {dc, customers} = setupCustomers();
+    const counters = DynamoClient.model<{id: string, count: number, version?: number}>()
+        .withKey('id')
+        .withEncryptedAttributes(['id'], new InMemoryKeyProvider(), {deterministic: true})
+        .withVersionAttribute('version')
+        .build({client: new DynamoClient(dc), name: 'counters'});
+    dc.createTable(counters);
+
+    await customers.put({item: {id: 'c1', email: 'alice@example.com', name: 'Alice'}});
+    await expect(customers.update({key: {id: 'c1'}, attributes: {name: UpdateAction.add(1) as any}}))
+        .rejects.toThrow(UnsignableUpdateError);
+    await expect(customers.update({key: {id: 'c1'}, attributes: {name: UpdateAction.set(SetValue.ifNotExists('name', 'Bob'))}}))
+        .rejects.toThrow('Cannot sign the update of attribute name of customers item: the attribute is not set to a value');
+    await expect(customers.update({key: {id: 'c1'}, attributes: {'address.city': 'Springfield'} as any}))
+        .rejects.toThrow('Cannot sign the update of attribute address.city of customers item: nested attributes cannot be updated');
+
+    await counters.put({item: {id: 'n1', count: 1}});
+    await counters.update({key: {id: 'n1'}, attributes: {count: 2}});
+    expect(await counters.get({key: {id: 'n1'}})).toEqual({id: 'n1', count: 2, version: 2});
+  });
+
+  it('should read unsigned items written before attributes were encrypted if allowed', async () => {
+    const {dc, customers} = setupCustomers(true);
+    const alice = {id: 'c1', email: 'alice@example.com', phone: '555-0100', name: 'Alice'};
+
+    await dc.send(new PutCommand({TableName: 'customers', Item: {id: 'c1', phone: '555-0100', name: 'Alice'}}));
+    expect(await customers.get({key: {id: 'c1'}})).toEqual({id: 'c1', phone: '555-0100', name: 'Alice'});
+
+    await customers.update({key: {id: 'c1'}, attributes: {email: alice.email}});
+    expect(await customers.get({key: {id: 'c1'}})).toEqual(alice);
+
+    await customers.put({item: {...alice}});
+    const [stored] = dc.getItems('customers');
+    expect(stored.phone).toBeInstanceOf(Uint8Array);
+    expect(getSignedAttributes(stored)).toEqual(['email', 'id', 'name', 'phone']);
+
+    await dc.send(new PutCommand({TableName: 'customers', Item: {...stored, name: 'Mallory'}}));
+    await expect(customers.get({key: {id: 'c1'}})).rejects.toThrow('Invalid signature of attribute name of customers item: the value was modified');
+  });
+
+  it('should query deterministic encrypted attributes by equality', async () => {
+    const {dc, customers} = setupCustomers();
+
+    await customers.put({item: {id: 'c1', email: 'alice@example.com', name: 'Alice'}});
+    await customers.put({item: {id: 'c2', email: 'bob@example.com', name: 'Bob'}});
+    await customers.put({item: {id: 'c3', email: 'alice@example.com', name: 'Alice Smith'}});
+
+    const [first, , third] = dc.getItems('customers');
+    expect(first.email).toEqual(third.email);
+
+    const {items} = await customers.query({indexName: 'email-index', keyConditions: {email: 'alice@example.com'}});
+    expect(items.map(item => item.name).sort()).toEqual(['Alice', 'Alice Smith']);
+
+    const {items: filtered} = await customers.scan({filterConditions: {email: 'bob@example.com'}});
+    expect(filtered.map(item => item.id)).toEqual(['c2']);
+    expect(customers.getCreateTableInput().AttributeDefinitions).toContainEqual({AttributeName: 'email', AttributeType: 'B'});
+  });
+
+  it('should keep encrypting deterministic attributes using their pinned key after keys are rotated', async () => {
+    const {dc, keyProvider, customers} = setupCustomers();
+
+    await customers.put({item: {id: 'c1', email: 'alice@example.com', name: 'Alice'}});
+    keyProvider.addKey();
+    await customers.put({item: {id: 'c2', email: 'alice@example.com', name: 'Alice Smith'}});
+
+    const [first, second] = dc.getItems('customers');
+    expect(first.email).toEqual(second.email);
+    const {items} = await customers.query({indexName: 'email-index', keyConditions: {email: 'alice@example.com'}});
+    expect(items.map(item => item.id).sort()).toEqual(['c1', 'c2']);
+
+    expect(() => DynamoClient.model<Customer>()
+        .withKey('id')
+        .withEncryptedAttributes(['email'], keyProvider, {deterministic: true, keyId: 'unknown'}))
+        .toThrow('Unknown key unknown of deterministic encrypted attributes email');
+  });
+});
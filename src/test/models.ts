@@ -0,0 +1,39 @@
+import DynamoClient, {DynamoMemoryClient, MemoryClientOptions} from '../';
+
+export type Person = {
+  id: string;
+  name: string;
+  email?: string;
+  age: number;
+  tags?: Set<string>;
+  scores?: number[];
+};
+
+export type Order = {
+  customerId: string;
+  orderId: string;
+  total: number;
+};
+
+export class PersonModel extends DynamoClient.model<Person>()
+    .withKey('id')
+    .withIndex('name-age-index', 'name', 'age')
+    .class() {}
+
+export class OrderModel extends DynamoClient.model<Order>()
+    .withKey('customerId', 'orderId')
+    .class() {}
+
+/**
+ * Create a client backed by an in-memory database containing the persons and orders tables
+ */
+export function setup(options?: MemoryClientOptions) {
+  const dc = new DynamoMemoryClient(options);
+  const client = new DynamoClient(dc, {enableTableMetrics: true});
+  const persons = new PersonModel({client, name: 'persons'});
+  const orders = new OrderModel({client, name: 'orders'});
+
+  dc.createTable(persons, orders);
+
+  return {dc, client, persons, orders};
+}
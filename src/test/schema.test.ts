@@ -0,0 +1,89 @@
+import {PutCommand} from '@aws-sdk/lib-dynamodb';
+
+import DynamoClient, {DynamoMemoryClient, Schema, SchemaValidationError, SchemaValidator} from '../';
+
+const personSchema = Schema.object({
+  id: Schema.string(),
+  name: Schema.string(),
+  age: Schema.number().optional(),
+  role: Schema.literal('admin', 'user'),
+  tags: Schema.set(Schema.string()).optional(),
+  address: Schema.object({
+    lines: Schema.array(Schema.string()),
+    zip: Schema.union(Schema.string(), Schema.number())
+  }).optional()
+});
+
+class PersonModel extends DynamoClient.model()
+    .withSchema(personSchema, {validateReads: true})
+    .withKey('id')
+    .class() {}
+
+function setupPersons() {
+  const dc = new DynamoMemoryClient();
+  const persons = new PersonModel({client: new DynamoClient(dc), name: 'persons'});
+
+  dc.createTable(persons);
+
+  return {dc, persons};
+}
+
+describe('Schema', () => {
+  it('should validate values', () => {
+    expect(personSchema.safeParse({id: '1', name: 'Alice', role: 'admin', address: {lines: ['a'], zip: 123}}))
+        .toEqual({success: true, data: {id: '1', name: 'Alice', role: 'admin', address: {lines: ['a'], zip: 123}}});
+
+    const result = personSchema.safeParse({id: 1, role: 'guest', tags: new Set([1]), address: {lines: ['a', 2]}});
+    expect(result.success ? [] : result.error.issues).toEqual([
+      {path: ['id'], message: 'Expected string'},
+      {path: ['name'], message: 'Expected string'},
+      {path: ['role'], message: 'Expected "admin" | "user"'},
+      {path: ['tags', 0], message: 'Expected string'},
+      {path: ['address', 'lines', 1], message: 'Expected string'},
+      {path: ['address', 'zip'], message: 'Value does not match any of the union types'},
+    ]);
+    expect(personSchema.partial().safeParse({age: 42}).success).toBeTruthy();
+  });
+
+  it('should validate written and read items of models', async () => {
+    const {dc, persons} = setupPersons();
+
+    const {item} = await persons.put({item: {id: '1', name: 'Alice', role: 'user'}});
+    // Item type is inferred from the schema
+    const role: 'admin' | 'user' = item.role;
+    expect(role).toBe('user');
+
+    const error = await persons.put({item: {id: '2', name: 'Bob', role: 'user', address: {lines: [1], zip: '1'}} as any})
+        .catch(err => err);
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.paths).toEqual(['address.lines[0]']);
+    expect(error.message).toBe('Invalid persons item: address.lines[0]: Expected string');
+
+    await expect(persons.update({key: {id: '1'}, attributes: {age: 'old' as any}})).rejects.toThrow('age: Expected number');
+    await persons.update({key: {id: '1'}, attributes: {age: 42}});
+
+    await dc.send(new PutCommand({TableName: 'persons', Item: {id: '1', name: 42, role: 'user', age: 42}}));
+    await expect(persons.get({key: {id: '1'}})).rejects.toThrow('name: Expected string');
+    expect(await persons.get({key: {id: '1'}, projection: ['age']})).toEqual({age: 42});
+  });
+
+  it('should accept pluggable validators', async () => {
+    const validator: SchemaValidator<{id: string; count: number}> = {
+      safeParse: (value: any) => typeof value.count === 'number' ?
+          {success: true, data: value} :
+          {success: false, error: {issues: [{path: ['count'], message: 'Required'}]}}
+    };
+
+    class CounterModel extends DynamoClient.model()
+        .withSchema(validator)
+        .withKey('id')
+        .class() {}
+
+    const dc = new DynamoMemoryClient();
+    const counters = new CounterModel({client: new DynamoClient(dc), name: 'counters'});
+    dc.createTable(counters);
+
+    await counters.put({item: {id: '1', count: 1}});
+    await expect(counters.put({item: {id: '2'} as any})).rejects.toThrow('count: Required');
+  });
+});
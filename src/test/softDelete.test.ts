@@ -0,0 +1,111 @@
+import DynamoClient, {BatchFailedItemsError, DynamoMemoryClient, TriggerCommand} from '../';
+
+type Note = {
+  userId: string;
+  id: string;
+  text: string;
+};
+
+function setupNotes() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const commands: Array<[TriggerCommand, string]> = [];
+  const notes = DynamoClient.model<Note>()
+      .withKey('userId', 'id')
+      .withSoftDelete('deletedAt')
+      .withTrigger((key, command) => commands.push([command, key.id]))
+      .build({client, name: 'notes'});
+
+  dc.createTable(notes);
+
+  return {dc, client, notes, commands};
+}
+
+describe('Soft delete', () => {
+  it('should stamp deleted items instead of deleting them', async () => {
+    const {dc, notes, commands} = setupNotes();
+
+    await notes.put({item: {userId: 'u1', id: 'n1', text: 'Hello'}});
+    await notes.delete({key: {userId: 'u1', id: 'n1'}});
+
+    const [stored] = dc.getItems('notes');
+    expect(stored).toMatchObject({userId: 'u1', id: 'n1', text: 'Hello'});
+    expect(typeof stored.deletedAt).toBe('string');
+    expect(commands).toEqual([['put', 'n1'], ['softDelete', 'n1']]);
+
+    await expect(notes.delete({key: {userId: 'u1', id: 'n1'}})).rejects.toThrow();
+    await expect(notes.delete({key: {userId: 'u1', id: 'n2'}})).rejects.toThrow();
+  });
+
+  it('should exclude soft-deleted items from reads', async () => {
+    const {client, notes} = setupNotes();
+
+    await notes.put({item: {userId: 'u1', id: 'n1', text: 'Deleted'}});
+    await notes.put({item: {userId: 'u1', id: 'n2', text: 'Kept'}});
+    await notes.delete({key: {userId: 'u1', id: 'n1'}});
+
+    expect(await notes.get({key: {userId: 'u1', id: 'n1'}})).toBeUndefined();
+    const deleted = await notes.get({key: {userId: 'u1', id: 'n1'}, includeDeleted: true});
+    expect(deleted?.deletedAt).toBeInstanceOf(Date);
+    expect(await notes.get({key: {userId: 'u1', id: 'n1'}, projection: ['text']})).toBeUndefined();
+    expect(await notes.get({key: {userId: 'u1', id: 'n2'}, projection: ['text']})).toEqual({text: 'Kept'});
+
+    const {items} = await notes.query({keyConditions: {userId: 'u1'}});
+    expect(items.map(item => item.id)).toEqual(['n2']);
+    const {items: all} = await notes.scan({includeDeleted: true});
+    expect(all.map(item => item.id)).toEqual(['n1', 'n2']);
+
+    const {items: batchItems} = await client.batch()
+        .get(notes, {key: {userId: 'u1', id: 'n1'}, projection: ['text']}, {key: {userId: 'u1', id: 'n2'}})
+        .execute();
+    expect(batchItems.map(({item}) => item)).toEqual([{userId: 'u1', id: 'n2', text: 'Kept'}]);
+
+    const [first, second] = await client.transaction()
+        .get(notes, {key: {userId: 'u1', id: 'n1'}, projection: ['text']}, {key: {userId: 'u1', id: 'n2'}, projection: ['text']})
+        .commit();
+    expect([first, second]).toEqual([undefined, {text: 'Kept'}]);
+  });
+
+  it('should restore and purge items', async () => {
+    const {dc, notes, commands} = setupNotes();
+
+    await notes.put({item: {userId: 'u1', id: 'n1', text: 'Hello'}});
+    await notes.delete({key: {userId: 'u1', id: 'n1'}});
+    const {item} = await notes.restore({key: {userId: 'u1', id: 'n1'}});
+
+    expect(item).toEqual({userId: 'u1', id: 'n1', text: 'Hello'});
+    expect(await notes.get({key: {userId: 'u1', id: 'n1'}})).toEqual(item);
+    await expect(notes.restore({key: {userId: 'u1', id: 'n1'}})).rejects.toThrow();
+
+    await notes.purge({key: {userId: 'u1', id: 'n1'}});
+    expect(dc.getItems('notes')).toEqual([]);
+    expect(commands.map(([command]) => command)).toEqual(['put', 'softDelete', 'restore', 'delete']);
+  });
+
+  it('should soft-delete items in transactions and batches', async () => {
+    const {dc, client, notes, commands} = setupNotes();
+
+    await notes.put({item: {userId: 'u1', id: 'n1', text: 'One'}});
+    await notes.put({item: {userId: 'u1', id: 'n2', text: 'Two'}});
+    await notes.put({item: {userId: 'u1', id: 'n3', text: 'Three'}});
+    commands.length = 0;
+
+    await client.transaction().delete(notes, {key: {userId: 'u1', id: 'n1'}}).commit();
+    const err = await client.batch()
+        .delete(notes, {key: {userId: 'u1', id: 'n1'}}, {key: {userId: 'u1', id: 'n2'}}, {key: {userId: 'u1', id: 'n4'}})
+        .execute()
+        .catch(err => err);
+
+    expect(err).toBeInstanceOf(BatchFailedItemsError);
+    expect((err as BatchFailedItemsError).failedItems.map(({command, key, error}) => [command, key.id, error.name])).toEqual([
+      ['softDelete', 'n1', 'ConditionalCheckFailedException'],
+      ['softDelete', 'n4', 'ConditionalCheckFailedException']
+    ]);
+    expect(commands).toEqual([['softDelete', 'n1'], ['softDelete', 'n2']]);
+    expect(dc.getItems('notes')).toHaveLength(3);
+
+    const {processed} = await notes.deleteWhere({keyConditions: {userId: 'u1'}});
+    expect(processed).toBe(1);
+    expect((await notes.scan()).items).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import {DescribeTableCommand, DescribeTimeToLiveCommand, ResourceNotFoundException} from '@aws-sdk/client-dynamodb';
+
+import DynamoClient, {Codecs, DynamoMemoryClient, Schema, SchemaValidator, TableMismatchError} from '../';
+
+type Session = {
+  userId: string;
+  startedAt: Date;
+  deviceId: string;
+  score: number;
+  expiresAt: number;
+};
+
+const date: SchemaValidator<Date> = {
+  safeParse: value => value instanceof Date ?
+      {success: true, data: value} :
+      {success: false, error: {issues: [{path: [], message: 'Expected date'}]}}
+};
+
+class SessionModel extends DynamoClient.model<Session>()
+    .withSchema(Schema.object({
+      userId: Schema.string(),
+      startedAt: date,
+      deviceId: Schema.string(),
+      score: Schema.number(),
+      expiresAt: Schema.number()
+    }))
+    .withKey('userId', 'startedAt')
+    .withIndex('device-index', 'deviceId', 'score')
+    .withIndex('score-index', 'userId', 'score')
+    .withCodec('startedAt', Codecs.date())
+    .withTableOptions({
+      indices: {
+        'device-index': {projection: ['expiresAt']},
+        'score-index': {projection: 'keys_only', local: true}
+      },
+      ttlAttribute: 'expiresAt'
+    })
+    .class() {}
+
+function setupSessions() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const sessions = new SessionModel({client, name: 'sessions'});
+
+  return {dc, client, sessions};
+}
+
+describe('Table definitions', () => {
+  it('should generate CreateTable input with inferred attribute types', () => {
+    const {sessions} = setupSessions();
+
+    expect(sessions.getCreateTableInput()).toEqual({
+      TableName: 'sessions',
+      AttributeDefinitions: [
+        {AttributeName: 'userId', AttributeType: 'S'},
+        {AttributeName: 'startedAt', AttributeType: 'S'},
+        {AttributeName: 'deviceId', AttributeType: 'S'},
+        {AttributeName: 'score', AttributeType: 'N'},
+      ],
+      KeySchema: [{AttributeName: 'userId', KeyType: 'HASH'}, {AttributeName: 'startedAt', KeyType: 'RANGE'}],
+      GlobalSecondaryIndexes: [{
+        IndexName: 'device-index',
+        KeySchema: [{AttributeName: 'deviceId', KeyType: 'HASH'}, {AttributeName: 'score', KeyType: 'RANGE'}],
+        Projection: {ProjectionType: 'INCLUDE', NonKeyAttributes: ['expiresAt']}
+      }],
+      LocalSecondaryIndexes: [{
+        IndexName: 'score-index',
+        KeySchema: [{AttributeName: 'userId', KeyType: 'HASH'}, {AttributeName: 'score', KeyType: 'RANGE'}],
+        Projection: {ProjectionType: 'KEYS_ONLY'}
+      }],
+      BillingMode: 'PAY_PER_REQUEST',
+      ProvisionedThroughput: undefined
+    });
+  });
+
+  it('should generate CloudFormation and Terraform resources', () => {
+    const {client} = setupSessions();
+    const sessions = new SessionModel({client, name: 'sessions', tableName: 'app.sessions'});
+    const cfn = sessions.getCloudFormationResource();
+
+    expect(cfn.Type).toEqual('AWS::DynamoDB::Table');
+    expect(cfn.Properties).toMatchObject({
+      TableName: 'app.sessions',
+      BillingMode: 'PAY_PER_REQUEST',
+      TimeToLiveSpecification: {AttributeName: 'expiresAt', Enabled: true}
+    });
+    expect(cfn.Properties).not.toHaveProperty('ProvisionedThroughput');
+
+    expect(sessions.getTerraformResource()).toEqual({
+      resource: {
+        aws_dynamodb_table: {
+          app_sessions: {
+            name: 'app.sessions',
+            billing_mode: 'PAY_PER_REQUEST',
+            hash_key: 'userId',
+            range_key: 'startedAt',
+            attribute: [
+              {name: 'userId', type: 'S'},
+              {name: 'startedAt', type: 'S'},
+              {name: 'deviceId', type: 'S'},
+              {name: 'score', type: 'N'},
+            ],
+            global_secondary_index: [{
+              name: 'device-index',
+              hash_key: 'deviceId',
+              range_key: 'score',
+              projection_type: 'INCLUDE',
+              non_key_attributes: ['expiresAt']
+            }],
+            local_secondary_index: [{
+              name: 'score-index',
+              range_key: 'score',
+              projection_type: 'KEYS_ONLY'
+            }],
+            ttl: {attribute_name: 'expiresAt', enabled: true}
+          }
+        }
+      }
+    });
+  });
+
+  it('should use declared attribute types and provisioned throughput', () => {
+    const {client} = setupSessions();
+    const counters = client.model<{id: number; count: number}>('counters')
+        .withKey('id')
+        .withTableOptions({
+          attributeTypes: {id: 'N'},
+          billingMode: 'provisioned',
+          throughput: {readCapacity: 5, writeCapacity: 1}
+        })
+        .build();
+
+    expect(counters.getCreateTableInput()).toMatchObject({
+      AttributeDefinitions: [{AttributeName: 'id', AttributeType: 'N'}],
+      BillingMode: 'PROVISIONED',
+      ProvisionedThroughput: {ReadCapacityUnits: 5, WriteCapacityUnits: 1}
+    });
+
+    const invalid = client.model<{id: string}>('invalid').withKey('id').withTableOptions({billingMode: 'provisioned'}).build();
+    expect(() => invalid.getCreateTableInput()).toThrow(`Model invalid has billing mode 'provisioned' but no throughput`);
+  });
+
+  it('should create tables with TTL enabled', async () => {
+    const {dc, client, sessions} = setupSessions();
+    const otherSessions = new SessionModel({client, name: 'otherSessions', tableName: 'sessions'});
+
+    expect(await client.createTables(sessions, otherSessions)).toEqual(['sessions']);
+    expect(await client.createTables(sessions)).toEqual([]);
+
+    const {Table: table} = await dc.send(new DescribeTableCommand({TableName: 'sessions'}));
+    expect(table).toMatchObject({
+      TableStatus: 'ACTIVE',
+      KeySchema: [{AttributeName: 'userId', KeyType: 'HASH'}, {AttributeName: 'startedAt', KeyType: 'RANGE'}],
+      GlobalSecondaryIndexes: [{IndexName: 'device-index', IndexStatus: 'ACTIVE'}],
+    });
+
+    const {TimeToLiveDescription: ttl} = await dc.send(new DescribeTimeToLiveCommand({TableName: 'sessions'}));
+    expect(ttl).toEqual({TimeToLiveStatus: 'ENABLED', AttributeName: 'expiresAt'});
+
+    await sessions.put({item: {userId: 'u1', startedAt: new Date(0), deviceId: 'd1', score: 1, expiresAt: 0}});
+    expect(dc.getItems('sessions')).toHaveLength(1);
+  });
+});
+
+describe('Table verification', () => {
+  it('should report differences between the table and the model', async () => {
+    const {dc, client, sessions} = setupSessions();
+
+    dc.createTable({tableName: 'sessions', keyAttributes: ['userId', 'startedAt'], indices: {'device-index': ['deviceId']}});
+
+    const verification = await sessions.verifyTable();
+    expect(verification.valid).toBe(false);
+    expect(verification.differences).toEqual([
+      expect.objectContaining({type: 'keySchema', indexName: 'device-index', expected: ['deviceId', 'score'], actual: ['deviceId']}),
+      expect.objectContaining({type: 'indexProjection', indexName: 'device-index', expected: ['expiresAt'], actual: 'all'}),
+      expect.objectContaining({type: 'missingIndex', indexName: 'score-index'}),
+    ]);
+
+    await expect(client.verifyTables([sessions], {throwOnMismatch: true}))
+        .rejects.toThrow('Table sessions does not match model sessions: Index device-index has key [deviceId], expected [deviceId, score]');
+
+    dc.deleteTable('sessions');
+    await client.createTables(sessions);
+    expect(await client.verifyTables([sessions], {throwOnMismatch: true})).toEqual([
+      {model: sessions, tableName: 'sessions', valid: true, differences: []}
+    ]);
+  });
+
+  it('should verify a mocked DescribeTable response', async () => {
+    const send = jest.fn();
+    const client = new DynamoClient({send} as any);
+    const sessions = new SessionModel({client, name: 'sessions'});
+    const {AttributeDefinitions, KeySchema, GlobalSecondaryIndexes, LocalSecondaryIndexes} = sessions.getCreateTableInput();
+
+    send.mockResolvedValue({
+      Table: {
+        AttributeDefinitions: AttributeDefinitions!.map(d => d.AttributeName === 'score' ? {...d, AttributeType: 'S'} : d),
+        KeySchema,
+        GlobalSecondaryIndexes: [...GlobalSecondaryIndexes!, ...LocalSecondaryIndexes!]
+      }
+    });
+
+    expect((await sessions.verifyTable()).differences).toEqual([
+      expect.objectContaining({type: 'attributeType', attributeName: 'score', expected: 'N', actual: 'S'}),
+      expect.objectContaining({type: 'indexType', indexName: 'score-index', expected: 'local', actual: 'global'}),
+    ]);
+    expect(send.mock.calls[0][0]).toBeInstanceOf(DescribeTableCommand);
+
+    send.mockRejectedValue(new ResourceNotFoundException({$metadata: {}}));
+    await expect(sessions.verifyTable({throwOnMismatch: true})).rejects.toBeInstanceOf(TableMismatchError);
+  });
+});
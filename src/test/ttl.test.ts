@@ -0,0 +1,84 @@
+import DynamoClient, {DynamoMemoryClient, isTtlDeleteRecord} from '../';
+
+type Session = {
+  id: string;
+  userId: string;
+};
+
+class SessionModel extends DynamoClient.model<Session>()
+    .withKey('userId', 'id')
+    .withTtl('expiresAt', {defaultSeconds: 3600})
+    .class() {}
+
+function setupSessions() {
+  const dc = new DynamoMemoryClient();
+  const client = new DynamoClient(dc);
+  const sessions = new SessionModel({client, name: 'sessions'});
+
+  dc.createTable(sessions);
+
+  return {dc, client, sessions};
+}
+
+const past = new Date(Date.UTC(2020, 0, 1));
+const future = new Date(Date.UTC(2100, 0, 1));
+
+describe('TTL', () => {
+  it('should store expiry times as epoch seconds', async () => {
+    const {dc, sessions} = setupSessions();
+    const now = Math.floor(Date.now() / 1000);
+
+    const {item} = await sessions.put({item: {userId: 'u1', id: 's1'}});
+    expect(item.expiresAt).toBeInstanceOf(Date);
+    const [{expiresAt}] = dc.getItems('sessions');
+    expect(expiresAt).toBeGreaterThanOrEqual(now + 3600);
+    expect(expiresAt).toBeLessThan(now + 3610);
+
+    await sessions.put({item: {userId: 'u1', id: 's2', expiresAt: future}});
+    await sessions.update({key: {userId: 'u1', id: 's1'}, attributes: {expiresAt: {days: 1}}});
+    const [updated, put] = dc.getItems('sessions').map(item => item.expiresAt);
+    expect(updated - now).toBeGreaterThanOrEqual(86400);
+    expect(updated - now).toBeLessThan(86410);
+    expect(put).toBe(Date.UTC(2100, 0, 1) / 1000);
+    expect(await sessions.get({key: {userId: 'u1', id: 's2'}})).toEqual({userId: 'u1', id: 's2', expiresAt: future});
+    expect(sessions.getCreateTableInput()).not.toHaveProperty('TimeToLiveSpecification');
+    expect(sessions.getCloudFormationResource().Properties.TimeToLiveSpecification)
+        .toEqual({AttributeName: 'expiresAt', Enabled: true});
+  });
+
+  it('should exclude expired items from reads', async () => {
+    const {client, sessions} = setupSessions();
+
+    await sessions.put({item: {userId: 'u1', id: 's1', expiresAt: past}});
+    await sessions.put({item: {userId: 'u1', id: 's2', expiresAt: future}});
+
+    expect(await sessions.get({key: {userId: 'u1', id: 's1'}})).toBeUndefined();
+    expect(await sessions.get({key: {userId: 'u1', id: 's1'}, includeExpired: true})).toMatchObject({expiresAt: past});
+    expect(await sessions.get({key: {userId: 'u1', id: 's1'}, projection: ['id']})).toBeUndefined();
+    expect(await sessions.get({key: {userId: 'u1', id: 's2'}, projection: ['id']})).toEqual({id: 's2'});
+
+    const {items} = await sessions.query({keyConditions: {userId: 'u1'}});
+    expect(items.map(item => item.id)).toEqual(['s2']);
+    const {items: all} = await sessions.scan({includeExpired: true});
+    expect(all.map(item => item.id)).toEqual(['s1', 's2']);
+    expect(await sessions.count({keyConditions: {userId: 'u1'}})).toMatchObject({count: 1});
+
+    const {items: batchItems} = await client.batch()
+        .get(sessions, {key: {userId: 'u1', id: 's1'}, projection: ['id']}, {key: {userId: 'u1', id: 's2'}, projection: ['id']})
+        .execute();
+    expect(batchItems.map(({item}) => item)).toEqual([{id: 's2'}]);
+
+    const [expired, current] = await client.transaction()
+        .get(sessions, {key: {userId: 'u1', id: 's1'}, projection: ['id']}, {key: {userId: 'u1', id: 's2'}})
+        .commit();
+    expect([expired, current?.id]).toEqual([undefined, 's2']);
+  });
+
+  it('should identify stream records of TTL deletes', () => {
+    const userIdentity = {type: 'Service', principalId: 'dynamodb.amazonaws.com'};
+
+    expect(isTtlDeleteRecord({eventName: 'REMOVE', userIdentity})).toBe(true);
+    expect(isTtlDeleteRecord({eventName: 'REMOVE'})).toBe(false);
+    expect(isTtlDeleteRecord({eventName: 'MODIFY', userIdentity})).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import {Condition, ConditionSet} from 'dynamodb-expressions';
+import {AttributeCodec} from './codecs';
+import {DynamoModel} from './DynamoModel';
+import {Item, TtlDuration} from './types';
+
+const DURATION_SECONDS: Record<keyof TtlDuration, number> = {
+  seconds: 1,
+  minutes: 60,
+  hours: 60 * 60,
+  days: 24 * 60 * 60
+};
+
+/**
+ * The identity of a DynamoDB stream record, as found in the records passed to Lambda functions
+ */
+export interface StreamRecordIdentity {
+  eventName?: string;
+  userIdentity?: {
+    type?: string;
+    principalId?: string;
+  };
+}
+
+/**
+ * Get the time of a TTL value, which is either a time or a duration from now
+ */
+function getExpiryTime(value: Date | TtlDuration): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+
+  const seconds = Object.entries(value).reduce((sum, [unit, amount]) =>
+      sum + (amount ?? 0) * DURATION_SECONDS[unit as keyof TtlDuration], 0);
+
+  return new Date(Date.now() + seconds * 1000);
+}
+
+/**
+ * A codec storing TTL values, given as times or durations from now, as epoch seconds, and reading them as times
+ */
+export function ttlCodec(): AttributeCodec<Date | TtlDuration, number> {
+  return {
+    encode: value => Math.floor(getExpiryTime(value).getTime() / 1000),
+    decode: value => new Date(value * 1000),
+    attributeType: 'N'
+  };
+}
+
+/**
+ * Check whether a read item, before being decoded, has expired according to the TTL attribute of the model
+ */
+export function isExpired(model: DynamoModel<any>, item: Item): boolean {
+  const {ttlAttribute} = model.params;
+  const expiry = ttlAttribute ? item[ttlAttribute] : undefined;
+
+  return typeof expiry === 'number' && expiry * 1000 <= Date.now();
+}
+
+/**
+ * Add a condition excluding expired items, if the model has a TTL attribute, to the given filter conditions
+ */
+export function addExpiryCondition<T extends Item>(
+    model: DynamoModel<any>,
+    conditions: ConditionSet<T> | undefined,
+    includeExpired = false
+): ConditionSet<T> | undefined {
+  const {ttlAttribute} = model.params;
+
+  if (!ttlAttribute || includeExpired) {
+    return conditions;
+  }
+
+  const expiryConditions = ConditionSet.or(
+      {[ttlAttribute]: Condition.attributeNotExists()} as ConditionSet<T>,
+      {[ttlAttribute]: Condition.gt(new Date())} as ConditionSet<T>
+  );
+
+  return conditions ? ConditionSet.and(conditions, expiryConditions) : expiryConditions;
+}
+
+/**
+ * Check whether a DynamoDB stream record is the removal of an item deleted by TTL, as opposed to an item deleted by
+ * a delete operation. TTL deletes are made by the DynamoDB service principal.
+ * @param record A stream record
+ */
+export function isTtlDeleteRecord(record: StreamRecordIdentity): boolean {
+  const {eventName, userIdentity} = record;
+
+  return eventName === 'REMOVE' && userIdentity?.type === 'Service' && userIdentity.principalId === 'dynamodb.amazonaws.com';
+}
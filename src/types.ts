@@ -1,5 +1,10 @@
-import {ConditionSet, UpdateAttributes} from 'dynamodb-expressions';
-import {DynamoModel} from './DynamoModel';
+import {ConditionSet, ConditionValue, UpdateAttributes} from 'dynamodb-expressions';
+import {AttributeCodec} from './codecs';
+import {BatchOptions} from './DynamoBatch';
+import {DynamoModel, DynamoModelBuilder} from './DynamoModel';
+import {EncryptedAttribute} from './encryption';
+import {SchemaValidator} from './schema';
+import {TableOptions} from './tables';
 import {StringKeyOf} from './utils';
 
 // An item that can be put or updated.
@@ -45,12 +50,90 @@ export type Key<T, K extends KeyAttributes<T>> = K[number];
  */
 export type KeyValue<T, K extends KeyAttributes<T>> = Pick<T, Key<T, K>>;
 
+declare const COMPOSITE_SOURCES: unique symbol;
+
+/**
+ * Source attributes of the composite attributes of a model, as a dictionary of composite attribute names to unions of
+ * source attribute names
+ */
+export type CompositeSources = Record<string, string>;
+
+/**
+ * Key attributes tagged with the source attributes of any composite attributes, which only exists as a type
+ */
+export type CompositeKey<K, C extends CompositeSources> =
+    [K] extends [never] ? never : {} extends C ? K : K & {readonly [COMPOSITE_SOURCES]: C};
+
+type KeySources<T, K extends KeyAttributes<T>> = K extends {readonly [COMPOSITE_SOURCES]: infer C} ?
+    {[A in Key<T, K>]: A extends keyof C ? C[A] : A}[Key<T, K>] :
+    Key<T, K>;
+
+/**
+ * A key value given as input, which for keys with composite attributes may also contain the source attributes
+ * instead of the composite attributes
+ */
+export type KeyInput<T, K extends KeyAttributes<T>> = KeyValue<T, K> | Pick<T, Extract<KeySources<T, K>, keyof T>>;
+
+export interface CompositeKeyDefinition {
+  attributes: string[];
+  separator: string;
+  prefix?: string;
+}
+
 /**
  * Index definitions for a model, as a dictionary of names to key definitions
  */
 export type KeyIndices<T, K extends string = string> = Record<K, KeyAttributes<T>>;
 
-export type TriggerCommand = 'put' | 'update' | 'delete';
+declare const INDEX_PROJECTION: unique symbol;
+
+/**
+ * The attributes projected into an index: all attributes, only the key attributes of the table and index, or the key
+ * attributes and the listed attributes
+ */
+export type IndexProjectionSpec<T> = 'all' | 'keys_only' | Array<KeyAttribute<T>>;
+
+export interface IndexDefinitionOptions<S> {
+  /**
+   * The attributes projected into the index, default 'all'. Items read from the index are typed accordingly.
+   */
+  projection?: S;
+}
+
+/**
+ * Index key attributes tagged with the projection of the index, which only exists as a type
+ */
+export type ProjectedIndexKey<IK, S> = IK & {readonly [INDEX_PROJECTION]: S};
+
+type IsAny<X> = 0 extends (1 & X) ? true : false;
+
+/**
+ * The attributes projected into the index N, or null if all attributes are projected, or if N is not an index
+ */
+export type IndexProjectionKeys<T, K extends KeyAttributes<T>, I extends KeyIndices<T>, N> =
+    IsAny<I> extends true ? null :
+    N extends StringKeyOf<I> ?
+        I[N] extends {readonly [INDEX_PROJECTION]: infer S} ?
+            S extends 'keys_only' ? Key<T, K> | Key<T, I[N]> :
+            S extends Array<infer A> ? Extract<A | Key<T, K> | Key<T, I[N]>, keyof T> :
+            null :
+        null :
+    null;
+
+/**
+ * The attributes which may be requested in a projection when reading from the index N
+ */
+export type IndexProjectionParam<T, K extends KeyAttributes<T>, I extends KeyIndices<T>, N> =
+    [IndexProjectionKeys<T, K, I, N>] extends [null] ? ProjectionKeys<T> : IndexProjectionKeys<T, K, I, N> | null;
+
+/**
+ * The projection of items read from the index N given a requested projection P, which if null is the attributes
+ * projected into the index
+ */
+export type IndexItemProjection<T, K extends KeyAttributes<T>, I extends KeyIndices<T>, N, P> =
+    [P] extends [null] ? IndexProjectionKeys<T, K, I, N> : P;
+
+export type TriggerCommand = 'put' | 'update' | 'delete' | 'softDelete' | 'restore';
 export type Trigger<T extends Item, K extends KeyAttributes<T>> =
     (key: KeyValue<T, K>, command: TriggerCommand, model: DynamoModel<T, K>) => void;
 
@@ -71,6 +154,55 @@ export type ModelParams<T extends Item, K extends KeyAttributes<T>, I extends Ke
   updaters: Array<(attributes: any) => UpdateAttributes<T>>;
   triggers: Array<Trigger<T, K>>;
   converters?: Array<ItemConverter<T>>;
+  versionAttribute?: string;
+  schema?: ModelSchema;
+  codecs?: Record<string, AttributeCodec<any, any>>;
+  compositeKeys?: Record<string, CompositeKeyDefinition>;
+  discriminator?: Discriminator;
+  ttlAttribute?: string;
+  softDeleteAttribute?: string;
+  encryptedAttributes?: Record<string, EncryptedAttribute>;
+  allowUnsignedItems?: boolean;
+  table?: TableOptions;
+};
+
+/**
+ * A duration from now, such as {days: 30}, used to set TTL attributes
+ */
+export interface TtlDuration {
+  seconds?: number;
+  minutes?: number;
+  hours?: number;
+  days?: number;
+}
+
+interface ExpiryParams {
+  /**
+   * Whether to also return items whose TTL has passed but which have not yet been deleted by DynamoDB, if the model
+   * has a TTL attribute, default false
+   */
+  includeExpired?: boolean;
+}
+
+interface DeletedParams {
+  /**
+   * Whether to also return soft-deleted items, if the model has a soft delete attribute, default false
+   */
+  includeDeleted?: boolean;
+}
+
+/**
+ * An attribute identifying the entity type of items stored in a table shared by several entity types
+ */
+export interface Discriminator {
+  attribute: string;
+  value: string;
+}
+
+export type ModelSchema = {
+  validator: SchemaValidator<any>;
+  partialValidator?: SchemaValidator<any>;
+  validateReads: boolean;
 };
 
 export type ConsistencyLevel = 'eventual' | 'strong';
@@ -79,8 +211,8 @@ interface Typable<T> {
   type?: TypeToken<T>;
 }
 
-export interface GetParams<T extends Item, K extends KeyAttributes<T>, P extends ProjectionKeys<T> = null> extends Typable<T> {
-  key: KeyValue<T, K>;
+export interface GetParams<T extends Item, K extends KeyAttributes<T>, P extends ProjectionKeys<T> = null> extends Typable<T>, ExpiryParams, DeletedParams {
+  key: KeyInput<T, K>;
   projection?: P[];
   consistency?: ConsistencyLevel;
 }
@@ -97,46 +229,370 @@ export interface ScanResult<T extends Item, P extends ProjectionKeys<T> = null>
 }
 
 export interface ScanParams<T extends Item, P extends ProjectionKeys<T> = null, N extends string | undefined = string | undefined, F extends ProjectionKeys<T> = null>
-  extends Typable<T> {
+  extends Typable<T>, ExpiryParams, DeletedParams {
   indexName?: N;
   pageToken?: string;
   limit?: number;
   projection?: P[];
   filterConditions?: ConditionSet<Projection<T, F>>;
   consistency?: ConsistencyLevel;
+  /**
+   * Number of matching items to return. If given, requests are made until the page is filled with that many items
+   * passing the filter conditions, or there are no more items, and the next page token resumes right after the last
+   * returned item. Note that limit still applies to each request.
+   */
+  pageSize?: number;
+  /**
+   * Max number of requests made to fill a page if pageSize is given, default 10. If reached, a page with fewer items
+   * is returned.
+   */
+  maxPageRequests?: number;
+  /**
+   * The segment to scan in a parallel scan, from 0 to totalSegments - 1
+   */
+  segment?: number;
+  /**
+   * The number of segments of a parallel scan
+   */
+  totalSegments?: number;
+}
+
+/**
+ * Page tokens of each segment of a parallel scan: a token to resume the segment from, undefined to scan the segment
+ * from the start, or null if the segment is completed
+ */
+export type SegmentPageTokens = Array<string | null | undefined>;
+
+export interface ParallelScanParams<T extends Item, P extends ProjectionKeys<T> = null, N extends string | undefined = string | undefined, F extends ProjectionKeys<T> = null>
+  extends Omit<ScanParams<T, P, N, F>, 'pageToken' | 'segment' | 'totalSegments'> {
+  /**
+   * The number of segments to divide the table into
+   */
+  totalSegments: number;
+  /**
+   * Max number of segments scanned concurrently, default totalSegments
+   */
+  concurrency?: number;
+  /**
+   * Page tokens of each segment to resume an interrupted scan from, as passed to onProgress
+   */
+  pageTokens?: SegmentPageTokens;
+  /**
+   * Called with the page tokens of all segments each time all items of a page have been consumed, waiting for any
+   * returned promise. The tokens may be stored and passed as pageTokens to resume the scan. Since a resumed scan
+   * restarts the pages being consumed when interrupted, some items may be returned again.
+   */
+  onProgress?: (pageTokens: SegmentPageTokens) => void | Promise<void>;
 }
 
 // Filter on query may not include key attributes
 export interface QueryParams<T extends Item, P extends ProjectionKeys<T> = null, N extends string | undefined = string | undefined, I extends keyof T = keyof T>
-    extends ScanParams<T, P, N, Exclude<keyof T, I>> {
+    extends Omit<ScanParams<T, P, N, Exclude<keyof T, I>>, 'segment' | 'totalSegments'> {
   keyConditions: ConditionSet<Pick<T, I>>;
   ascending?: boolean;
 }
 
+/**
+ * Key conditions of find(), as an object of attribute names to values or conditions
+ */
+export type FindKeyConditions<T, A extends keyof T> = {[P in A]: ConditionValue<T[P]>};
+
+export interface FindParams<T extends Item, P extends ProjectionKeys<T> = null, A extends keyof T = keyof T>
+    extends Omit<QueryParams<T, P, undefined, A>, 'indexName' | 'keyConditions'> {
+  keyConditions: FindKeyConditions<T, A>;
+}
+
+export interface FindResult<T extends Item, P extends ProjectionKeys<T> = null, N extends string | undefined = string | undefined>
+    extends ScanResult<T, P> {
+  /**
+   * The name of the chosen index, or undefined if the table key was chosen
+   */
+  indexName: N;
+}
+
+// Whether a key has the attributes A as its hash key and optionally its range key
+type KeyMatches<A, KA extends KeyAttributes<any>> = KA[0] extends A ? [A] extends [KA[number]] ? true : false : false;
+
+type MatchingIndexNames<I extends KeyIndices<any>, A, Exact extends boolean> = {
+  [N in StringKeyOf<I>]: KeyMatches<A, I[N]> extends true ?
+      Exact extends true ? [I[N][number]] extends [A] ? N : never : N :
+      never
+}[StringKeyOf<I>];
+
+type Preferred<X, Y> = [X] extends [never] ? Y : X;
+
+/**
+ * The name of the index chosen by find() for key conditions on the attributes A, or undefined for the table key
+ */
+export type FindIndexName<T, K extends KeyAttributes<T>, I extends KeyIndices<T>, A extends keyof T> =
+    KeyMatches<A, K> extends true ? undefined : Preferred<MatchingIndexNames<I, A, true>, MatchingIndexNames<I, A, false>>;
+
+/**
+ * A group of the items of an item collection, given by a prefix of the range key or a discriminator value
+ */
+export interface CollectionGroup<G extends Item = Item> {
+  /**
+   * Prefix of the range key of items of the group
+   */
+  prefix?: string;
+  /**
+   * Discriminator value of items of the group
+   */
+  value?: string;
+  /**
+   * The type of items of the group, if not the item type of the model
+   */
+  type?: TypeToken<G>;
+  /**
+   * A model converting the raw items of the group instead of the queried model, such as an entity model of a table,
+   * which also gives the type of the items
+   */
+  model?: DynamoModel<G>;
+  /**
+   * A converter for items of the group, called after the items are converted by the model
+   */
+  converter?: ItemConverter<G>;
+  /**
+   * Max number of items of the group to return. Further items of the group are skipped.
+   */
+  limit?: number;
+}
+
+/**
+ * Groups of an item collection, as a dictionary of group names to groups
+ */
+export type CollectionGroups = Record<string, CollectionGroup<any>>;
+
+/**
+ * The type of items of the group C of a collection of a model with item type T
+ */
+export type CollectionGroupItem<T, C> =
+    C extends {model: DynamoModel<infer G>} ? G :
+    C extends {type: TypeToken<infer G>} ? G :
+    T;
+
+export interface CollectionParams<T extends Item, G extends CollectionGroups, N extends string | undefined = string | undefined, I extends keyof T = keyof T>
+    extends Pick<QueryParams<T, null, N, I>, 'indexName' | 'keyConditions' | 'filterConditions' | 'ascending' | 'consistency' | 'includeExpired' | 'includeDeleted'> {
+  /**
+   * Name of the attribute identifying the groups given by discriminator value, by default the discriminator
+   * attribute of the model
+   */
+  discriminator?: string;
+  groups: G;
+}
+
+export interface CollectionResult<T extends Item, G extends CollectionGroups> {
+  /**
+   * The items of each group
+   */
+  groups: {[N in keyof G]: Array<CollectionGroupItem<T, G[N]>>};
+  /**
+   * Items not belonging to any group
+   */
+  ungroupedItems: T[];
+}
+
+/**
+ * The key attributes of a table shared by several entity types
+ */
+export type TableKeyAttributes = [string] | [string, string];
+
+/**
+ * Index definitions of a table shared by several entity types, as a dictionary of names to key definitions
+ */
+export type TableIndices = Record<string, TableKeyAttributes>;
+
+export interface TableParams<D extends string, K extends TableKeyAttributes, I extends TableIndices> {
+  discriminator: D;
+  keyAttributes?: K;
+  indices: I;
+  entities: Record<string, DynamoModelBuilder<any, any, any, any, any>>;
+  table?: TableOptions;
+}
+
+/**
+ * Models of the entity types of a table, as a dictionary of discriminator values to models
+ */
+export type EntityModels = Record<string, DynamoModel<any, any, any, any>>;
+
+/**
+ * Items of any entity type of a table, which are discriminated by the discriminator attribute
+ */
+export type EntityItem<E extends EntityModels> = {[V in keyof E]: ModelItem<E[V]>}[keyof E];
+
+type EntityIndices<T, I> = {[N in keyof I as I[N] extends KeyAttributes<T> ? N : never]: I[N]};
+
+/**
+ * The model of an entity type of a table, having the key of the table and the indices of the table whose key attributes
+ * are attributes of the entity type
+ */
+export type EntityModel<T extends Item, K, I, B extends Item> =
+    K extends KeyAttributes<T> ?
+        EntityIndices<T, I> extends KeyIndices<T> ? DynamoModel<T, K, EntityIndices<T, I>, B> : never :
+        never;
+
+/**
+ * The type of items of the group C of a collection of a table, which for groups given by discriminator value is the
+ * item type of the entity type
+ */
+export type TableCollectionGroupItem<E extends EntityModels, C> =
+    C extends {model: DynamoModel<infer G>} ? G :
+    C extends {type: TypeToken<infer G>} ? G :
+    C extends {value: infer V} ? V extends keyof E ? ModelItem<E[V]> : Item :
+    EntityItem<E>;
+
+export interface TableCollectionResult<E extends EntityModels, G extends CollectionGroups> {
+  /**
+   * The items of each group
+   */
+  groups: {[N in keyof G]: Array<TableCollectionGroupItem<E, G[N]>>};
+  /**
+   * Items not belonging to any group, as stored
+   */
+  ungroupedItems: Item[];
+}
+
+export interface TableQueryParams<N extends string | undefined = string | undefined>
+    extends Omit<QueryParams<Item, null, N>, 'projection' | 'type'> {
+}
+
+export interface TableQueryResult<E extends EntityModels> {
+  /**
+   * The items of known entity types, converted by the models of their entity types
+   */
+  items: Array<EntityItem<E>>;
+  /**
+   * Items whose discriminator is not the value of any entity type of the table, as stored
+   */
+  unknownItems: Item[];
+  nextPageToken?: string;
+}
+
+/**
+ * Parameters of a count-only scan, i.e., scan parameters without projection and page token
+ */
+export type ScanCountParams<T extends Item, N extends string | undefined = string | undefined> =
+    Omit<ScanParams<T, null, N>, 'projection' | 'pageToken'>;
+
+/**
+ * Parameters of a count-only query, i.e., query parameters without projection and page token
+ */
+export type CountParams<T extends Item, N extends string | undefined = string | undefined, I extends keyof T = keyof T> =
+    Omit<QueryParams<T, null, N, I>, 'projection' | 'pageToken'>;
+
+export interface CountResult {
+  /**
+   * The number of matching items, i.e., items evaluated which passed the filter conditions
+   */
+  count: number;
+  /**
+   * The number of items evaluated, before any filter conditions were applied
+   */
+  scannedCount: number;
+}
+
+/**
+ * Parameters selecting the items of a bulk write, either query parameters or scan parameters, without projection
+ */
+export type BulkWriteParams<T extends Item, N extends string | undefined = string | undefined, I extends keyof T = keyof T> =
+    Omit<QueryParams<T, null, N, I>, 'projection'> | Omit<ScanParams<T, null, N>, 'projection'>;
+
+export interface BulkWriteOptions extends BatchOptions {
+  /**
+   * If true, nothing is written, but the keys of all selected items are returned
+   */
+  dryRun?: boolean;
+  /**
+   * Called after the selected items of each page have been written, waiting for any returned promise. The
+   * nextPageToken of the progress may be passed as pageToken to resume an interrupted bulk write.
+   */
+  onProgress?: (progress: BulkWriteProgress) => void | Promise<void>;
+}
+
+export interface BulkUpdateOptions<T extends Item> extends BulkWriteOptions {
+  /**
+   * Conditions each item must fulfill to be updated, in addition to still existing
+   */
+  conditions?: ConditionSet<T>;
+}
+
+export interface BulkWriteProgress {
+  /**
+   * Number of items selected
+   */
+  matched: number;
+  /**
+   * Number of items written
+   */
+  processed: number;
+  /**
+   * Number of items which failed to be written
+   */
+  failed: number;
+  /**
+   * Page token to resume from, or undefined if all pages have been processed
+   */
+  nextPageToken?: string;
+}
+
+export interface BulkWriteFailure<T extends Item> {
+  key: Partial<T>;
+  error: unknown;
+}
+
+export interface BulkWriteResult<T extends Item> extends BulkWriteProgress {
+  failures: Array<BulkWriteFailure<T>>;
+  /**
+   * The keys of the selected items, if dryRun is true
+   */
+  keys?: Array<Partial<T>>;
+}
+
 export interface PutParams<T extends Item, B extends Item> extends Typable<T> {
   item: Optional<T, B>;
   conditions?: ConditionSet<T>;
 }
 
-export interface DeleteParams<T extends Item, K extends KeyAttributes<T>> {
-  key: KeyValue<T, K>;
+export interface DeleteParams<T extends Item, K extends KeyAttributes<T>> extends VersionParams {
+  key: KeyInput<T, K>;
   conditions?: ConditionSet<T>;
 }
 
 export type ReturnValue = 'all_new' | 'all_old';
 
-export interface UpdateParams<T extends Item, K extends KeyAttributes<T>, B extends Item, R extends ReturnValue = 'all_new'> extends Typable<T> {
-  key: KeyValue<T, K>;
+export interface VersionParams {
+  /**
+   * The expected current version of the item, if the model has a version attribute. If given, the operation fails
+   * with a VersionConflictError unless the item has this version.
+   */
+  expectedVersion?: number;
+}
+
+export interface UpdateParams<T extends Item, K extends KeyAttributes<T>, B extends Item, R extends ReturnValue = 'all_new'>
+    extends Typable<T>, VersionParams {
+  key: KeyInput<T, K>;
   attributes: UpdateAttributes<Optional<T, B>>;
   conditions?: ConditionSet<T>;
   returnValues?: R;
 }
 
 export interface ConditionCheckParams<T, K extends KeyAttributes<T>> {
-  key: KeyValue<T, K>;
+  key: KeyInput<T, K>;
   conditions?: ConditionSet<T>;
 }
 
+export type ReturnValueOnConditionCheckFailure = 'all_old' | 'none';
+
+export interface TransactionItemParams {
+  /**
+   * Whether to return the current item if the conditions of this operation fail. If 'all_old', the item is included in
+   * the TransactionCancelledError thrown by the transaction.
+   */
+  returnValuesOnConditionCheckFailure?: ReturnValueOnConditionCheckFailure;
+}
+
+export type TransactionOperation = TriggerCommand | 'condition';
+
 // Convenience types
 /**
  * Obtain a type for the items handled by a model
@@ -2,14 +2,6 @@ import {Item, TriggerCommand} from './types';
 
 export type StringKeyOf<T> = keyof T & string;
 
-export function parsePageToken(pageToken: string | undefined): Item | undefined {
-  return pageToken && JSON.parse(Buffer.from(pageToken, 'base64').toString());
-}
-
-export function formatPageToken(lastKey: Item | undefined) {
-  return lastKey && Buffer.from(JSON.stringify(lastKey)).toString('base64');
-}
-
 export function parseRequest(request: any): {command: TriggerCommand; key: Record<string, any>; tableName?: string;} {
   let req = request.PutRequest ?? request.Put;
 
@@ -44,10 +36,71 @@ export function parseRequest(request: any): {command: TriggerCommand; key: Recor
   throw new Error('Invalid request');
 }
 
+export function pick<T extends Item, K extends keyof T>(item: T, keys: K[] = []): Pick<T, K> {
+  const result: Partial<T> = {};
+
+  for (const key of keys) {
+    if (key in item) {
+      result[key] = item[key];
+    }
+  }
+  return result as Pick<T, K>;
+}
+
 export function getKeyValues(item: any, keyAttributes: string[]) {
   return keyAttributes.map(attr => item[attr]);
 }
 
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export function groupBy<T, K>(items: T[], getKey: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+
+  for (const item of items) {
+    const key = getKey(item);
+    const group = groups.get(key);
+
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(key, [item]);
+    }
+  }
+  return groups;
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Map items using an async function, running at most concurrency invocations at a time. The results are returned in
+ * the order of the items.
+ */
+export async function mapConcurrent<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+
+      results[i] = await fn(items[i]);
+    }
+  };
+
+  await Promise.all(Array.from({length: Math.min(Math.max(concurrency, 1), items.length)}, worker));
+
+  return results;
+}
+
 export function error(message: string): never {
   throw new Error(message);
 }
\ No newline at end of file